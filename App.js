@@ -4,10 +4,13 @@ import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { View, ActivityIndicator } from 'react-native';
 import { AuthProvider, useAuth } from './hooks/useAuth';
+import { CallStateProvider } from './hooks/useCallState';
+import { navigationRef } from './services/navigation';
 import UserTypeScreen from './screens/UserTypeScreen';
 import LoginScreen from './screens/auth/LoginScreen';
 import SignupScreen from './screens/auth/SignupScreen';
 import BlindDashboard from './screens/BlindDashboard';
+import DirectionCuePracticeScreen from './screens/DirectionCuePracticeScreen';
 import VolunteerDashboard from './screens/VolunteerDashboard';
 import VideoCallScreen from './screens/VideoCallScreen';
 import RewardsScreen from './screens/RewardsScreen';
@@ -141,12 +144,18 @@ const AppContent = () => {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       {!isAuthenticated ? (
         <AuthStack />
       ) : userType === 'blind' ? (
         <Stack.Navigator screenOptions={{ headerShown: false }}>
           <Stack.Screen name="BlindDashboard" component={BlindDashboard} />
+          <Stack.Screen name="DirectionCuePractice" component={DirectionCuePracticeScreen} />
+          <Stack.Screen
+            name="Rewards"
+            component={RewardsScreen}
+            options={{ headerShown: true, title: 'Wallet' }}
+          />
           <Stack.Screen name="VideoCall" component={VideoCallScreen} />
         </Stack.Navigator>
       ) : userType === 'admin' ? (
@@ -167,7 +176,9 @@ const AppContent = () => {
 const App = () => {
   return (
     <AuthProvider>
-      <AppContent />
+      <CallStateProvider>
+        <AppContent />
+      </CallStateProvider>
     </AuthProvider>
   );
 };
@@ -93,8 +93,8 @@ create_backup() {
 build_image() {
     log "Building Docker image..."
 
-    # Build new image
-    docker build -t "$APP_NAME:latest" .
+    # Build new image from the repository root so it includes ../shared
+    docker build -t "$APP_NAME:latest" -f Dockerfile ..
 
     # Tag with version
     VERSION=$(date +%Y%m%d_%H%M%S)
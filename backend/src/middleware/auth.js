@@ -40,6 +40,38 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
+// Verify the access token of a WebSocket upgrade request. Browsers and React
+// Native can't always set headers on sockets, so ?token= is accepted as well
+const authenticateSocket = async (req) => {
+  const authHeader = req.headers.authorization;
+  const token = (authHeader && authHeader.split(' ')[1]) || req.query?.token;
+
+  if (!token) {
+    throw new AuthenticationError('Access token required');
+  }
+
+  let decoded;
+  try {
+    decoded = jwt.verify(token, config.jwt.secret);
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      throw new AuthenticationError('Token expired');
+    }
+    throw new AuthenticationError('Invalid token');
+  }
+
+  const user = await getUser(decoded.userId);
+  if (!user) {
+    throw new AuthenticationError('Invalid token - user not found');
+  }
+
+  if (!user.isActive) {
+    throw new AuthenticationError('Account is deactivated');
+  }
+
+  return user;
+};
+
 // Check user role
 const requireRole = (userType) => {
   return (req, res, next) => {
@@ -174,6 +206,7 @@ const generateTokens = (userId) => {
 
 module.exports = {
   authenticateToken,
+  authenticateSocket,
   requireRole,
   requireUser,
   optionalAuth,
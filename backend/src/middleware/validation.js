@@ -107,6 +107,27 @@ const schemas = {
     }),
   }),
 
+  // Call quality report (sent by each participant's device when a call ends)
+  callQualityReport: Joi.object({
+    userType: Joi.string().valid('blind', 'volunteer').required(),
+    videoQuality: Joi.number().min(0).max(100).required(),
+    audioQuality: Joi.number().min(0).max(100).required(),
+    connectionStability: Joi.number().min(0).max(100).required(),
+    sampleCount: Joi.number().integer().min(0).required(),
+    durationSeconds: Joi.number().integer().min(0).required(),
+    reconnectCount: Joi.number().integer().min(0).default(0),
+    averages: Joi.object({
+      roundTripTimeMs: Joi.number().min(0).allow(null),
+      jitterMs: Joi.number().min(0).allow(null),
+      audioPacketLossPercent: Joi.number().min(0).max(100).allow(null),
+      videoPacketLossPercent: Joi.number().min(0).max(100).allow(null),
+      framesPerSecond: Joi.number().min(0).allow(null),
+      frameWidth: Joi.number().min(0).allow(null),
+      frameHeight: Joi.number().min(0).allow(null),
+      availableOutgoingBitrate: Joi.number().min(0).allow(null),
+    }).required(),
+  }),
+
   // User profile update
   updateProfile: Joi.object({
     firstName: Joi.string().min(2).max(50).optional(),
@@ -131,6 +152,24 @@ const schemas = {
     helpCategory: Joi.string().valid('reading', 'navigation', 'tech_help', 'general').default('general'),
     priority: Joi.number().integer().min(1).max(10).default(5),
     timeoutMs: Joi.number().integer().min(5000).max(300000).default(120000), // 5 seconds to 5 minutes
+    language: Joi.string().min(2).max(10), // e.g. 'es' when asked for by voice
+  }),
+
+  // Second helper for a call in progress
+  helperInvite: Joi.object({
+    helpCategory: Joi.string().valid('reading', 'navigation', 'tech_help', 'general').default('general'),
+    language: Joi.string().min(2).max(10), // e.g. 'es' for a Spanish speaker
+  }),
+
+  // Warm transfer of a call in progress to another volunteer
+  transferRequest: Joi.object({
+    reason: Joi.string().valid('language', 'expertise', 'time', 'other').required().messages({
+      'any.only': 'Transfer reason must be one of language, expertise, time or other',
+      'any.required': 'Transfer reason is required',
+    }),
+    note: Joi.string().max(500).optional(),
+    helpCategory: Joi.string().valid('reading', 'navigation', 'tech_help', 'general').default('general'),
+    language: Joi.string().min(2).max(10),
   }),
 
   // WebRTC room
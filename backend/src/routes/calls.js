@@ -256,6 +256,73 @@ const callsRoutes = async (fastify) => {
     });
   }));
 
+  // Submit a participant's call quality report
+  fastify.post('/:callId/quality', {
+    preHandler: [
+      authenticateToken,
+      createUserRateLimit(10, 60 * 1000),
+      validate(schemas.callQualityReport),
+    ],
+  }, asyncHandler(async (req, res) => {
+    const { callId } = req.params;
+    const report = req.body;
+
+    const { db } = require('../config/database');
+    const callDoc = await db.collection('calls').doc(callId).get();
+
+    if (!callDoc.exists) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Call not found',
+        },
+      });
+    }
+
+    const existingCall = { id: callDoc.id, ...callDoc.data() };
+
+    // Verify user is part of this call; invited helpers report too
+    const participantIds = [
+      existingCall.blindUserId,
+      existingCall.volunteerUserId,
+      ...(existingCall.helperUserIds || []),
+    ];
+    if (!participantIds.includes(req.user.id)) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'AUTHORIZATION_ERROR',
+          message: 'Access denied to this call',
+        },
+      });
+    }
+
+    // Keep each participant's report, and score the call on the average of them
+    const qualityReports = {
+      ...(existingCall.qualityReports || {}),
+      [req.user.id]: { ...report, submittedAt: new Date().toISOString() },
+    };
+    const reports = Object.values(qualityReports);
+    const averageScore = (key) => Math.round(
+      reports.reduce((sum, r) => sum + r[key], 0) / reports.length
+    );
+
+    const quality = {
+      videoQuality: averageScore('videoQuality'),
+      audioQuality: averageScore('audioQuality'),
+      connectionStability: averageScore('connectionStability'),
+    };
+
+    await updateCall(callId, { qualityReports, quality });
+
+    return res.status(200).json({
+      success: true,
+      data: { quality },
+      message: 'Call quality report recorded',
+    });
+  }));
+
   // Get user's call history
   fastify.get('/history', {
     preHandler: [
@@ -13,11 +13,12 @@ const matchingRoutes = async (fastify) => {
       validate(schemas.matchingRequest),
     ],
   }, asyncHandler(async (req, res) => {
-    const { helpCategory, priority, timeoutMs } = req.body;
+    const { helpCategory, priority, timeoutMs, language } = req.body;
     const result = await matchingService.startMatching(req.user.id, {
       helpCategory,
       priority,
       timeoutMs,
+      language,
     });
 
     return res.status(200).json({
@@ -60,6 +61,69 @@ const matchingRoutes = async (fastify) => {
     });
   }));
 
+  // Invite a second helper into a call in progress
+  fastify.post('/invite/:roomId', {
+    preHandler: [
+      authenticateToken,
+      requireRole('volunteer'),
+      createMatchingRateLimit,
+      validate(schemas.helperInvite),
+    ],
+  }, asyncHandler(async (req, res) => {
+    const { roomId } = req.params;
+    const { helpCategory, language } = req.body;
+    const result = await matchingService.inviteHelper(roomId, req.user.id, {
+      helpCategory,
+      language,
+    });
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Helper invited successfully',
+    });
+  }));
+
+  // Ask for another volunteer to take over a call in progress
+  fastify.post('/transfer/:roomId', {
+    preHandler: [
+      authenticateToken,
+      requireRole('volunteer'),
+      createMatchingRateLimit,
+      validate(schemas.transferRequest),
+    ],
+  }, asyncHandler(async (req, res) => {
+    const { roomId } = req.params;
+    const { reason, note, helpCategory, language } = req.body;
+    const result = await matchingService.requestTransfer(roomId, req.user.id, {
+      reason,
+      note,
+      helpCategory,
+      language,
+    });
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Transfer requested successfully',
+    });
+  }));
+
+  // Confirm the handover once the new volunteer has joined
+  fastify.post('/transfer/:roomId/complete', {
+    preHandler: [
+      authenticateToken,
+      requireRole('volunteer'),
+      createMatchingRateLimit,
+    ],
+  }, asyncHandler(async (req, res) => {
+    const { roomId } = req.params;
+    const result = await matchingService.completeTransfer(roomId, req.user.id);
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Call transferred successfully',
+    });
+  }));
+
   // Decline match
   fastify.post('/decline/:roomId', {
     preHandler: [
@@ -78,6 +142,23 @@ const matchingRoutes = async (fastify) => {
     });
   }));
 
+  // Leave a call as a helper, without ending it for everyone else
+  fastify.post('/leave/:roomId', {
+    preHandler: [
+      authenticateToken,
+      requireRole('volunteer'),
+      createMatchingRateLimit,
+    ],
+  }, asyncHandler(async (req, res) => {
+    const { roomId } = req.params;
+    const result = await matchingService.leaveCall(roomId, req.user.id);
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Left the call successfully',
+    });
+  }));
+
   // End call
   fastify.post('/end/:roomId', {
     preHandler: [
@@ -110,6 +191,21 @@ const matchingRoutes = async (fastify) => {
     });
   }));
 
+  // Calls offered to this volunteer, to accept or decline
+  fastify.get('/incoming', {
+    preHandler: [
+      authenticateToken,
+      requireRole('volunteer'),
+    ],
+  }, asyncHandler(async (req, res) => {
+    const offers = await matchingService.getIncomingCalls(req.user.id);
+    return res.status(200).json({
+      success: true,
+      data: { offers },
+      message: 'Incoming calls retrieved successfully',
+    });
+  }));
+
   // Get active matches (for admin use)
   fastify.get('/active-matches', {
     preHandler: [
@@ -1,4 +1,4 @@
-const { authenticateToken, createUserRateLimit } = require('../middleware/auth');
+const { authenticateToken, authenticateSocket, createUserRateLimit } = require('../middleware/auth');
 const { validate, schemas } = require('../middleware/validation');
 const { asyncHandler } = require('../utils/errors');
 const webrtcService = require('../services/webrtc');
@@ -6,9 +6,18 @@ const webrtcService = require('../services/webrtc');
 const webrtcRoutes = async (fastify) => {
   // WebSocket route for WebRTC signaling
   fastify.register(async function (fastify) {
-    fastify.get('/ws', { websocket: true }, (connection, req) => {
+    fastify.get('/ws', { websocket: true }, async (socket, req) => {
+      let user;
+      try {
+        user = await authenticateSocket(req);
+      } catch (error) {
+        // 4401 mirrors HTTP 401 in the application close-code range
+        socket.close(4401, error.message);
+        return;
+      }
+
       // Handle WebSocket connection
-      webrtcService.handleConnection(connection, req);
+      webrtcService.handleConnection(socket, req, user);
     });
   });
 
@@ -2,6 +2,8 @@ const { getUser, getActiveVolunteers, createCall, updateCall } = require('../con
 const { MatchingError, NotFoundError } = require('../utils/errors');
 const config = require('../config/server');
 const { logMatchAttempt } = require('../utils/logger');
+const { MAX_ROOM_PARTICIPANTS } = require('../../../shared/signaling');
+const blockchainService = require('./blockchain');
 
 class MatchingService {
   constructor() {
@@ -11,8 +13,11 @@ class MatchingService {
     this.callCount = new Map(); // volunteerId -> total calls today
   }
 
-  // Find best volunteer match for blind user
-  async findBestMatch(blindUserId, helpCategory = 'general', priority = 5) {
+  // Find best volunteer match for blind user. excludeUserIds skips volunteers
+  // already on the call; language prefers volunteers who speak it
+  async findBestMatch(blindUserId, helpCategory = 'general', priority = 5, options = {}) {
+    const { excludeUserIds = [], language = null } = options;
+
     try {
       logMatchAttempt(blindUserId, helpCategory, 'searching');
 
@@ -23,7 +28,8 @@ class MatchingService {
       }
 
       // Get available volunteers
-      const availableVolunteers = await getActiveVolunteers();
+      const availableVolunteers = (await getActiveVolunteers())
+        .filter(volunteer => !excludeUserIds.includes(volunteer.id));
 
       if (availableVolunteers.length === 0) {
         logMatchAttempt(blindUserId, helpCategory, 'no_volunteers');
@@ -32,7 +38,7 @@ class MatchingService {
 
       // Filter and score volunteers
       const scoredVolunteers = availableVolunteers.map(volunteer => {
-        const score = this.calculateVolunteerScore(volunteer, helpCategory, priority);
+        const score = this.calculateVolunteerScore(volunteer, helpCategory, priority, language);
         return { ...volunteer, matchScore: score };
       });
 
@@ -57,7 +63,7 @@ class MatchingService {
   }
 
   // Calculate volunteer match score
-  calculateVolunteerScore(volunteer, helpCategory, priority) {
+  calculateVolunteerScore(volunteer, helpCategory, priority, language = null) {
     let score = 0;
 
     // Base score from reputation
@@ -78,6 +84,11 @@ class MatchingService {
       score += 10;
     }
 
+    // Language matching (e.g. a helper who speaks the blind user's language)
+    if (language && volunteer.languages && volunteer.languages.includes(language)) {
+      score += 15;
+    }
+
     // Response time bonus (if volunteer has fast response history)
     if (volunteer.averageResponseTime && volunteer.averageResponseTime < 30000) { // < 30 seconds
       score += 5;
@@ -97,6 +108,7 @@ class MatchingService {
       helpCategory = 'general',
       priority = 5,
       timeoutMs = config.matching.maxWaitTime,
+      language = null,
     } = options;
 
     try {
@@ -110,6 +122,7 @@ class MatchingService {
         userId: blindUserId,
         helpCategory,
         priority,
+        language,
         startTime: Date.now(),
         timeout: Date.now() + timeoutMs,
         status: 'waiting',
@@ -147,7 +160,8 @@ class MatchingService {
         const volunteer = await this.findBestMatch(
           blindUserId,
           waitingInfo.helpCategory,
-          waitingInfo.priority
+          waitingInfo.priority,
+          { language: waitingInfo.language }
         );
 
         // Create call record
@@ -169,6 +183,7 @@ class MatchingService {
           blindUserId,
           volunteerUserId: volunteer.id,
           roomId: call.roomId,
+          helpCategory: waitingInfo.helpCategory,
           status: 'matched',
           matchedAt: Date.now(),
         });
@@ -234,6 +249,33 @@ class MatchingService {
         throw new NotFoundError('Active match');
       }
 
+      // The volunteer taking over a transferred call joins it alongside the
+      // current one until the handover is confirmed
+      if (this.isTransferTarget(match, volunteerId)) {
+        match.transfer.status = 'accepted';
+        match.transfer.acceptedAt = Date.now();
+        await this.recordHelperOnCall(match, volunteerId);
+        return {
+          success: true,
+          roomId: match.roomId,
+          callId: match.callId,
+          blindUserId: match.blindUserId,
+          message: 'Transfer accepted successfully',
+        };
+      }
+
+      // An invited helper joins a call that is already active
+      if (this.isInvitedHelper(match, volunteerId)) {
+        await this.recordHelperOnCall(match, volunteerId);
+        return {
+          success: true,
+          roomId: match.roomId,
+          callId: match.callId,
+          blindUserId: match.blindUserId,
+          message: 'Invitation accepted successfully',
+        };
+      }
+
       if (match.volunteerUserId !== volunteerId) {
         throw new MatchingError('Volunteer not authorized for this match');
       }
@@ -251,6 +293,7 @@ class MatchingService {
       return {
         success: true,
         roomId: match.roomId,
+        callId: match.callId,
         blindUserId: match.blindUserId,
         message: 'Match accepted successfully',
       };
@@ -267,6 +310,27 @@ class MatchingService {
         throw new NotFoundError('Active match');
       }
 
+      // The current volunteer stays on and can ask for another transfer
+      if (this.isTransferTarget(match, volunteerId)) {
+        logMatchAttempt(match.blindUserId, match.transfer.helpCategory, `transfer_declined: ${volunteerId}`);
+        match.transfer = null;
+        await this.setVolunteerAvailability(volunteerId, true);
+        return {
+          success: true,
+          message: 'Transfer declined',
+        };
+      }
+
+      // A helper declining an invitation doesn't affect the call
+      if (this.isInvitedHelper(match, volunteerId)) {
+        match.helperUserIds = match.helperUserIds.filter(id => id !== volunteerId);
+        await this.setVolunteerAvailability(volunteerId, true);
+        return {
+          success: true,
+          message: 'Invitation declined',
+        };
+      }
+
       if (match.volunteerUserId !== volunteerId) {
         throw new MatchingError('Volunteer not authorized for this match');
       }
@@ -317,8 +381,9 @@ class MatchingService {
         throw new NotFoundError('Active call');
       }
 
-      // Calculate call duration
-      const duration = Date.now() - match.matchedAt;
+      // Calculate call duration; after a transfer the record only covers the
+      // current volunteer's time
+      const duration = Date.now() - (match.volunteerStartedAt || match.matchedAt);
 
       // Update call status
       await updateCall(match.callId, {
@@ -329,8 +394,14 @@ class MatchingService {
         endedBy,
       });
 
-      // Make volunteer available again
+      // Make volunteers available again
       await this.setVolunteerAvailability(match.volunteerUserId, true);
+      for (const helperId of match.helperUserIds || []) {
+        await this.setVolunteerAvailability(helperId, true);
+      }
+      if (match.transfer) {
+        await this.setVolunteerAvailability(match.transfer.toVolunteerId, true);
+      }
 
       // Remove from active matches
       this.activeMatches.delete(roomId);
@@ -345,6 +416,265 @@ class MatchingService {
     }
   }
 
+  // A helper or incoming transfer volunteer leaving a call that carries on.
+  // Their place is freed, so another helper can be invited or the transfer
+  // requested again
+  async leaveCall(roomId, volunteerId) {
+    try {
+      const match = this.activeMatches.get(roomId);
+      if (!match) {
+        throw new NotFoundError('Active call');
+      }
+
+      if (this.isTransferTarget(match, volunteerId)) {
+        logMatchAttempt(match.blindUserId, match.transfer.helpCategory, `transfer_abandoned: ${volunteerId}`);
+        match.transfer = null;
+      } else if (this.isInvitedHelper(match, volunteerId)) {
+        match.helperUserIds = match.helperUserIds.filter(id => id !== volunteerId);
+      } else {
+        throw new MatchingError('Only a helper can leave a call without ending it');
+      }
+
+      await this.setVolunteerAvailability(volunteerId, true);
+
+      return {
+        success: true,
+        message: 'Left the call',
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Invite a second helper into a call, e.g. someone who speaks the blind
+  // user's language or knows a specific appliance (from the volunteer on it)
+  async inviteHelper(roomId, volunteerId, options = {}) {
+    const { helpCategory = 'general', language = null } = options;
+
+    try {
+      const match = this.activeMatches.get(roomId);
+      if (!match) {
+        throw new NotFoundError('Active match');
+      }
+
+      if (match.volunteerUserId !== volunteerId) {
+        throw new MatchingError('Only the volunteer on this call can invite a helper');
+      }
+
+      const helperIds = match.helperUserIds || [];
+      if (2 + helperIds.length >= MAX_ROOM_PARTICIPANTS) {
+        throw new MatchingError('This call already has the maximum number of participants');
+      }
+
+      const helper = await this.findBestMatch(match.blindUserId, helpCategory, 5, {
+        excludeUserIds: [match.volunteerUserId, ...helperIds],
+        language,
+      });
+
+      await this.setVolunteerAvailability(helper.id, false);
+      match.helperUserIds = [...helperIds, helper.id];
+
+      logMatchAttempt(match.blindUserId, helpCategory, `helper_invited: ${helper.id}`);
+
+      return {
+        success: true,
+        roomId,
+        helper: {
+          id: helper.id,
+          firstName: helper.firstName,
+          reputationScore: helper.reputationScore,
+        },
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Warm transfer: find a new volunteer for a call in progress. The call stays
+  // up, and the new volunteer joins it before the current one leaves
+  async requestTransfer(roomId, volunteerId, options = {}) {
+    const { reason, note = null, helpCategory = 'general', language = null } = options;
+
+    try {
+      const match = this.activeMatches.get(roomId);
+      if (!match) {
+        throw new NotFoundError('Active match');
+      }
+
+      if (match.volunteerUserId !== volunteerId) {
+        throw new MatchingError('Only the volunteer on this call can transfer it');
+      }
+
+      if (match.transfer) {
+        throw new MatchingError('A transfer is already in progress for this call');
+      }
+
+      // Both volunteers are on the call during the handover
+      const helperIds = match.helperUserIds || [];
+      if (2 + helperIds.length >= MAX_ROOM_PARTICIPANTS) {
+        throw new MatchingError('Remove the extra helper from the call before transferring it');
+      }
+
+      const volunteer = await this.findBestMatch(match.blindUserId, helpCategory, 5, {
+        excludeUserIds: [volunteerId, ...helperIds, ...(match.previousVolunteerIds || [])],
+        language,
+      });
+
+      await this.setVolunteerAvailability(volunteer.id, false);
+      match.transfer = {
+        fromVolunteerId: volunteerId,
+        toVolunteerId: volunteer.id,
+        reason,
+        note,
+        helpCategory,
+        status: 'pending',
+        requestedAt: Date.now(),
+      };
+
+      logMatchAttempt(match.blindUserId, helpCategory, `transfer_requested: ${volunteerId} -> ${volunteer.id} (${reason})`);
+
+      return {
+        success: true,
+        roomId,
+        volunteer: {
+          id: volunteer.id,
+          firstName: volunteer.firstName,
+          reputationScore: volunteer.reputationScore,
+        },
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // The outgoing volunteer confirms the handover once the new one is on the
+  // call. Their call record is closed (and rewarded) for the time they spent,
+  // and a new record starts for the incoming volunteer from when they joined
+  async completeTransfer(roomId, volunteerId) {
+    try {
+      const match = this.activeMatches.get(roomId);
+      if (!match) {
+        throw new NotFoundError('Active match');
+      }
+
+      if (match.volunteerUserId !== volunteerId) {
+        throw new MatchingError('Only the volunteer on this call can hand it over');
+      }
+
+      const transfer = match.transfer;
+      if (!transfer || transfer.status !== 'accepted') {
+        throw new MatchingError('The new volunteer has not joined the call yet');
+      }
+
+      const now = Date.now();
+      const previousCallId = match.callId;
+      const durationSeconds = Math.floor((now - (match.volunteerStartedAt || match.matchedAt)) / 1000);
+
+      await updateCall(previousCallId, {
+        status: 'completed',
+        endedAt: new Date(now).toISOString(),
+        durationSeconds,
+        endReason: `Transferred: ${transfer.reason}`,
+        endedBy: volunteerId,
+        transferredTo: transfer.toVolunteerId,
+      });
+
+      try {
+        await blockchainService.processCompletedCall(previousCallId);
+      } catch (error) {
+        // The handover must not fail because rewards couldn't be queued
+        console.error('Failed to process rewards for transferred call:', error);
+      }
+
+      // Time both volunteers were on the call counts for each of them
+      const call = await createCall({
+        blindUserId: match.blindUserId,
+        volunteerUserId: transfer.toVolunteerId,
+        helpCategory: transfer.helpCategory,
+        status: 'active',
+        startedAt: new Date(transfer.acceptedAt).toISOString(),
+        roomId,
+        transferredFrom: volunteerId,
+        previousCallId,
+      });
+
+      match.callId = call.id;
+      match.volunteerUserId = transfer.toVolunteerId;
+      match.volunteerStartedAt = transfer.acceptedAt;
+      match.previousVolunteerIds = [...(match.previousVolunteerIds || []), volunteerId];
+      match.joinedHelperIds = [];
+      match.transfer = null;
+
+      await this.setVolunteerAvailability(volunteerId, true);
+      this.volunteerLastCall.set(transfer.toVolunteerId, now);
+      this.callCount.set(transfer.toVolunteerId, (this.callCount.get(transfer.toVolunteerId) || 0) + 1);
+
+      logMatchAttempt(match.blindUserId, transfer.helpCategory, `transfer_completed: ${volunteerId} -> ${transfer.toVolunteerId}`);
+
+      return {
+        success: true,
+        roomId,
+        callId: call.id,
+        volunteerUserId: transfer.toVolunteerId,
+        previousCall: {
+          id: previousCallId,
+          durationSeconds,
+        },
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Calls waiting on a volunteer's answer: a new match, a call to take over
+  // or an invitation to join one as a helper. Polled by the volunteer's app,
+  // which answers through acceptMatch or declineMatch
+  async getIncomingCalls(volunteerId) {
+    const offers = [];
+
+    for (const match of this.activeMatches.values()) {
+      let kind = null;
+      if (match.status === 'matched' && match.volunteerUserId === volunteerId) {
+        kind = 'call';
+      } else if (this.isTransferTarget(match, volunteerId) && match.transfer.status === 'pending') {
+        kind = 'transfer';
+      } else if (this.isInvitedHelper(match, volunteerId) && !(match.joinedHelperIds || []).includes(volunteerId)) {
+        kind = 'helper_invite';
+      }
+      if (!kind) continue;
+
+      const blindUser = await getUser(match.blindUserId);
+      offers.push({
+        kind,
+        roomId: match.roomId,
+        callId: match.callId,
+        blindUserName: blindUser?.name || null,
+        helpCategory: kind === 'transfer' ? match.transfer.helpCategory : match.helpCategory || 'general',
+        note: kind === 'transfer' ? match.transfer.note : null,
+      });
+    }
+
+    return offers;
+  }
+
+  // Everyone who joined the call besides its blind user and volunteer goes
+  // on the call record, so they can file reports against it too
+  async recordHelperOnCall(match, volunteerId) {
+    const joinedHelperIds = match.joinedHelperIds || [];
+    if (joinedHelperIds.includes(volunteerId)) return;
+
+    match.joinedHelperIds = [...joinedHelperIds, volunteerId];
+    await updateCall(match.callId, { helperUserIds: match.joinedHelperIds });
+  }
+
+  isTransferTarget(match, volunteerId) {
+    return !!match.transfer && match.transfer.toVolunteerId === volunteerId;
+  }
+
+  isInvitedHelper(match, volunteerId) {
+    return (match.helperUserIds || []).includes(volunteerId);
+  }
+
   // Set volunteer availability
   async setVolunteerAvailability(volunteerId, isAvailable) {
     try {
@@ -3,6 +3,14 @@ const { getActiveVolunteers, updateCall } = require('../config/database');
 const { WebRTCError, NotFoundError } = require('../utils/errors');
 const config = require('../config/server');
 const { logWebSocketEvent } = require('../utils/logger');
+const {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  MAX_ROOM_PARTICIPANTS,
+  SIGNALING_ERROR_CODES,
+  validateClientMessage,
+  negotiateProtocolVersion,
+} = require('../../../shared/signaling');
 
 class WebRTCService {
   constructor() {
@@ -11,53 +19,55 @@ class WebRTCService {
     this.connectionCounter = 0;
   }
 
-  // Handle WebSocket connection
-  handleConnection(connection, req) {
+  // Handle WebSocket connection (user is already authenticated by the route)
+  handleConnection(socket, req, user) {
     const connectionId = ++this.connectionCounter;
 
     const connectionInfo = {
       id: connectionId,
-      connection,
+      socket,
+      authenticatedUserId: user.id,
       userId: null,
       userType: null,
       roomId: null,
+      protocolVersion: null,
       connectedAt: Date.now(),
       isAlive: true,
     };
 
     this.connections.set(connectionId, connectionInfo);
 
-    logWebSocketEvent('connected', { connectionId }, null);
+    logWebSocketEvent('connected', { connectionId }, user.id);
 
     // Setup message handlers
-    connection.socket.on('message', (message) => {
+    socket.on('message', (message) => {
       this.handleMessage(connectionId, message);
     });
 
     // Setup connection monitoring
-    connection.socket.on('close', () => {
+    socket.on('close', () => {
       this.handleDisconnection(connectionId);
     });
 
-    connection.socket.on('error', (error) => {
+    socket.on('error', (error) => {
       logWebSocketEvent('error', { error: error.message, connectionId }, null);
     });
 
     // Heartbeat mechanism
-    connection.socket.on('pong', () => {
+    socket.on('pong', () => {
       connectionInfo.isAlive = true;
     });
 
     // Start heartbeat interval
     const heartbeatInterval = setInterval(() => {
       if (!connectionInfo.isAlive) {
-        connection.socket.terminate();
+        socket.terminate();
         clearInterval(heartbeatInterval);
         return;
       }
 
       connectionInfo.isAlive = false;
-      connection.socket.ping();
+      socket.ping();
     }, 30000); // 30 seconds
 
     // Store interval for cleanup
@@ -69,6 +79,8 @@ class WebRTCService {
       data: {
         connectionId,
         serverTime: Date.now(),
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
       },
     });
   }
@@ -85,11 +97,19 @@ class WebRTCService {
       try {
         parsedMessage = JSON.parse(message.toString());
       } catch (error) {
-        this.sendError(connectionId, 'Invalid JSON message format');
+        this.sendError(connectionId, 'Invalid JSON message format', SIGNALING_ERROR_CODES.INVALID_MESSAGE);
         return;
       }
 
-      const { type, data } = parsedMessage;
+      // Reject anything that doesn't match the shared signaling schema
+      const result = validateClientMessage(parsedMessage);
+      if (!result.valid) {
+        logWebSocketEvent('message_rejected', { error: result.error }, connectionInfo.userId);
+        this.sendError(connectionId, result.error, result.code);
+        return;
+      }
+
+      const { type, data } = result.message;
 
       logWebSocketEvent('message_received', { type, data }, connectionInfo.userId);
 
@@ -123,7 +143,7 @@ class WebRTCService {
           break;
 
         default:
-          this.sendError(connectionId, `Unknown message type: ${type}`);
+          this.sendError(connectionId, `Unknown message type: ${type}`, SIGNALING_ERROR_CODES.UNKNOWN_MESSAGE_TYPE);
       }
     } catch (error) {
       logWebSocketEvent('message_error', { error: error.message }, connectionId);
@@ -141,12 +161,31 @@ class WebRTCService {
 
       const { roomId, userId, userType } = data;
 
-      if (!roomId || !userId || !userType) {
-        throw new WebRTCError('Missing required fields: roomId, userId, userType');
+      const protocolVersion = negotiateProtocolVersion(data.protocolVersion);
+      if (protocolVersion === null) {
+        this.sendError(
+          connectionId,
+          `Signaling protocol v${data.protocolVersion} is not supported, minimum is v${MIN_PROTOCOL_VERSION}`,
+          SIGNALING_ERROR_CODES.UNSUPPORTED_PROTOCOL
+        );
+        return;
       }
 
-      if (!['blind', 'volunteer'].includes(userType)) {
-        throw new WebRTCError('Invalid user type');
+      // A socket may only join rooms as the user its token belongs to
+      if (userId !== connectionInfo.authenticatedUserId) {
+        throw new WebRTCError('User ID does not match authenticated user');
+      }
+
+      // Rejoining after a dropped socket takes back the same seat
+      const existingRoom = this.rooms.get(roomId);
+      if (existingRoom && !existingRoom.participants.has(userId) &&
+          existingRoom.participants.size >= MAX_ROOM_PARTICIPANTS) {
+        this.sendError(
+          connectionId,
+          `Room is full (${MAX_ROOM_PARTICIPANTS} participants)`,
+          SIGNALING_ERROR_CODES.ROOM_FULL
+        );
+        return;
       }
 
       // Leave existing room if any
@@ -160,6 +199,7 @@ class WebRTCService {
         room = {
           id: roomId,
           participants: new Map(),
+          history: [],
           createdAt: Date.now(),
           status: 'waiting',
         };
@@ -176,14 +216,16 @@ class WebRTCService {
       };
 
       room.participants.set(userId, participant);
+      this.recordParticipantEvent(room, participant, 'joined');
 
       // Update connection info
       connectionInfo.userId = userId;
       connectionInfo.userType = userType;
       connectionInfo.roomId = roomId;
+      connectionInfo.protocolVersion = protocolVersion;
 
-      // Update room status
-      if (room.participants.size === 2) {
+      // Update room status; a helper joining a call in progress doesn't reset it
+      if (room.participants.size >= 2 && room.status === 'waiting') {
         room.status = 'ready';
       }
 
@@ -196,12 +238,7 @@ class WebRTCService {
           userId,
           userType,
           roomStatus: room.status,
-          participants: Array.from(room.participants.values()).map(p => ({
-            userId: p.userId,
-            userType: p.userType,
-            joinedAt: p.joinedAt,
-            isReady: p.isReady,
-          })),
+          participants: this.listParticipants(room),
         },
       }, connectionId);
 
@@ -211,12 +248,8 @@ class WebRTCService {
         data: {
           roomId,
           roomStatus: room.status,
-          participants: Array.from(room.participants.values()).map(p => ({
-            userId: p.userId,
-            userType: p.userType,
-            joinedAt: p.joinedAt,
-            isReady: p.isReady,
-          })),
+          protocolVersion,
+          participants: this.listParticipants(room),
         },
       });
 
@@ -235,10 +268,13 @@ class WebRTCService {
 
       const { roomId, userId } = connectionInfo;
       const room = this.rooms.get(roomId);
+      const participant = room && room.participants.get(userId);
 
-      if (room) {
+      // A seat already taken back by a newer socket for this user stays put
+      if (participant && participant.connectionId === connectionId) {
         // Remove participant
         room.participants.delete(userId);
+        this.recordParticipantEvent(room, participant, 'left');
 
         // Notify other participants
         this.broadcastToRoom(roomId, {
@@ -246,14 +282,15 @@ class WebRTCService {
           data: {
             userId,
             remainingParticipants: room.participants.size,
+            participants: this.listParticipants(room),
           },
         }, connectionId);
 
-        // Clean up empty rooms
+        // Clean up empty rooms; the others carry on if two are still in the call
         if (room.participants.size === 0) {
           this.rooms.delete(roomId);
           logWebSocketEvent('room_deleted', { roomId }, userId);
-        } else {
+        } else if (room.participants.size < 2) {
           room.status = 'waiting';
         }
       }
@@ -284,10 +321,6 @@ class WebRTCService {
 
       const { offer, targetUserId } = data;
 
-      if (!offer || !targetUserId) {
-        throw new WebRTCError('Missing offer or targetUserId');
-      }
-
       // Find target participant
       const room = this.rooms.get(connectionInfo.roomId);
       const targetParticipant = room.participants.get(targetUserId);
@@ -323,10 +356,6 @@ class WebRTCService {
 
       const { answer, targetUserId } = data;
 
-      if (!answer || !targetUserId) {
-        throw new WebRTCError('Missing answer or targetUserId');
-      }
-
       // Find target participant
       const room = this.rooms.get(connectionInfo.roomId);
       const targetParticipant = room.participants.get(targetUserId);
@@ -362,10 +391,6 @@ class WebRTCService {
 
       const { candidate, targetUserId } = data;
 
-      if (!candidate || !targetUserId) {
-        throw new WebRTCError('Missing ICE candidate or targetUserId');
-      }
-
       // Find target participant
       const room = this.rooms.get(connectionInfo.roomId);
       const targetParticipant = room.participants.get(targetUserId);
@@ -400,10 +425,6 @@ class WebRTCService {
 
       const { status, reason } = data;
 
-      if (!status) {
-        throw new WebRTCError('Missing status');
-      }
-
       const room = this.rooms.get(connectionInfo.roomId);
 
       // Update room status
@@ -439,15 +460,36 @@ class WebRTCService {
     }
   }
 
+  // Participants as sent to clients
+  listParticipants(room) {
+    return Array.from(room.participants.values()).map(p => ({
+      userId: p.userId,
+      userType: p.userType,
+      joinedAt: p.joinedAt,
+      isReady: p.isReady,
+    }));
+  }
+
+  // Joins and leaves per participant, so a three-way call can be reconstructed
+  recordParticipantEvent(room, participant, event) {
+    room.history.push({
+      userId: participant.userId,
+      userType: participant.userType,
+      event,
+      timestamp: Date.now(),
+    });
+    logWebSocketEvent(`participant_${event}`, { roomId: room.id }, participant.userId);
+  }
+
   // Send message to specific connection
   sendMessage(connectionId, message) {
     const connectionInfo = this.connections.get(connectionId);
-    if (!connectionInfo || connectionInfo.connection.socket.readyState !== 1) {
+    if (!connectionInfo || connectionInfo.socket.readyState !== 1) {
       return false;
     }
 
     try {
-      connectionInfo.connection.socket.send(JSON.stringify(message));
+      connectionInfo.socket.send(JSON.stringify(message));
       return true;
     } catch (error) {
       logWebSocketEvent('send_error', { error: error.message }, connectionInfo.userId);
@@ -456,11 +498,12 @@ class WebRTCService {
   }
 
   // Send error message to connection
-  sendError(connectionId, error) {
+  sendError(connectionId, error, code = SIGNALING_ERROR_CODES.REQUEST_FAILED) {
     this.sendMessage(connectionId, {
       type: 'error',
       data: {
         error,
+        code,
         timestamp: Date.now(),
       },
     });
@@ -494,32 +537,36 @@ class WebRTCService {
       clearInterval(heartbeatInterval);
     }
 
-    // Handle room cleanup
-    if (roomId) {
-      const room = this.rooms.get(roomId);
-      if (room) {
-        room.participants.delete(userId);
+    // Handle room cleanup, unless the user has already rejoined on a new
+    // socket and this is the old one closing late
+    const room = roomId && this.rooms.get(roomId);
+    const participant = room && room.participants.get(userId);
+    if (participant && participant.connectionId === connectionId) {
+      const wasInCall = ['active', 'connected'].includes(room.status);
 
-        // Notify other participants
-        this.broadcastToRoom(roomId, {
-          type: 'user_disconnected',
-          data: {
-            userId,
-            userType,
-            reason: 'Connection lost',
-          },
-        }, connectionId);
+      room.participants.delete(userId);
+      this.recordParticipantEvent(room, participant, 'disconnected');
 
-        // Clean up empty rooms
-        if (room.participants.size === 0) {
-          this.rooms.delete(roomId);
-        } else {
-          room.status = 'waiting';
-        }
+      // Notify other participants
+      this.broadcastToRoom(roomId, {
+        type: 'user_disconnected',
+        data: {
+          userId,
+          userType,
+          reason: 'Connection lost',
+          participants: this.listParticipants(room),
+        },
+      }, connectionId);
+
+      // Clean up empty rooms
+      if (room.participants.size === 0) {
+        this.rooms.delete(roomId);
+      } else if (room.participants.size < 2) {
+        room.status = 'waiting';
       }
 
-      // Update database if user was in active call
-      if (room && ['active', 'connected'].includes(room.status)) {
+      // Update database if the call can't go on without this user
+      if (wasInCall && room.participants.size < 2) {
         updateCall(room.callId, {
           status: 'failed',
           endedAt: new Date().toISOString(),
@@ -547,12 +594,9 @@ class WebRTCService {
       id: room.id,
       status: room.status,
       participantCount: room.participants.size,
-      participants: Array.from(room.participants.values()).map(p => ({
-        userId: p.userId,
-        userType: p.userType,
-        joinedAt: p.joinedAt,
-        isReady: p.isReady,
-      })),
+      maxParticipants: MAX_ROOM_PARTICIPANTS,
+      participants: this.listParticipants(room),
+      history: room.history,
       createdAt: room.createdAt,
     };
   }
@@ -588,7 +632,7 @@ class WebRTCService {
 
     for (const [connectionId, connectionInfo] of this.connections.entries()) {
       if (now - connectionInfo.connectedAt > maxAge && !connectionInfo.isAlive) {
-        connectionInfo.connection.socket.terminate();
+        connectionInfo.socket.terminate();
         this.connections.delete(connectionId);
         logWebSocketEvent('cleanup', { connectionId }, connectionInfo.userId);
       }
@@ -225,6 +225,52 @@ describe('Volunteer Matching Algorithm', () => {
     });
   });
 
+  describe('POST /api/matching/transfer/:roomId', () => {
+    let volunteerToken;
+
+    beforeEach(async () => {
+      const volunteerResponse = await request(app)
+        .post('/api/auth/register')
+        .send({
+          name: 'Volunteer',
+          email: 'transfer@example.com',
+          password: 'password123',
+          userType: 'volunteer'
+        });
+
+      volunteerToken = volunteerResponse.body.data.accessToken;
+    });
+
+    it('should require a transfer reason', async () => {
+      const response = await request(app)
+        .post('/api/matching/transfer/some-room-id')
+        .set('Authorization', `Bearer ${volunteerToken}`)
+        .send({ helpCategory: 'reading' });
+
+      expect(response.status).to.equal(400);
+      expect(response.body.error.code).to.equal('VALIDATION_ERROR');
+    });
+
+    it('should handle invalid room ID', async () => {
+      const response = await request(app)
+        .post('/api/matching/transfer/invalid-room-id')
+        .set('Authorization', `Bearer ${volunteerToken}`)
+        .send({ reason: 'language', language: 'es' });
+
+      expect(response.status).to.equal(404);
+      expect(response.body.error.code).to.equal('NOT_FOUND');
+    });
+
+    it('should not complete a transfer for an unknown call', async () => {
+      const response = await request(app)
+        .post('/api/matching/transfer/invalid-room-id/complete')
+        .set('Authorization', `Bearer ${volunteerToken}`)
+        .send({});
+
+      expect(response.status).to.equal(404);
+    });
+  });
+
   describe('GET /api/matching/queue-status', () => {
     it('should return current queue status', async () => {
       const response = await request(app)
@@ -0,0 +1,162 @@
+const { expect } = require('chai');
+
+jest.mock('../../src/config/database', () => ({
+  getUser: jest.fn(async (id) => ({ id })),
+  getActiveVolunteers: jest.fn(async () => []),
+  createCall: jest.fn(async (call) => ({ id: `call-${call.volunteerUserId}`, ...call })),
+  updateCall: jest.fn(async () => {}),
+}));
+
+jest.mock('../../src/services/blockchain', () => ({
+  processCompletedCall: jest.fn(async () => {}),
+}));
+
+const matchingService = require('../../src/services/matching');
+
+const VOLUNTEERS = ['volunteer-1', 'volunteer-2', 'volunteer-3', 'volunteer-4'];
+
+describe('Matching Service', () => {
+  let originalFindBestMatch;
+
+  before(() => {
+    originalFindBestMatch = matchingService.findBestMatch;
+    // The first volunteer not excluded, standing in for scoring
+    matchingService.findBestMatch = async (blindUserId, helpCategory, priority, options = {}) => {
+      const id = VOLUNTEERS.find(volunteerId => !(options.excludeUserIds || []).includes(volunteerId));
+      return { id, firstName: id, reputationScore: 80 };
+    };
+  });
+
+  after(() => {
+    matchingService.findBestMatch = originalFindBestMatch;
+  });
+
+  beforeEach(() => {
+    matchingService.activeMatches.clear();
+    matchingService.activeMatches.set('room-1', {
+      callId: 'call-1',
+      blindUserId: 'blind-1',
+      volunteerUserId: 'volunteer-1',
+      roomId: 'room-1',
+      status: 'accepted',
+      matchedAt: Date.now(),
+    });
+  });
+
+  describe('leaveCall', () => {
+    it('should free a helper\'s place so another can be invited', async () => {
+      const first = await matchingService.inviteHelper('room-1', 'volunteer-1');
+      await matchingService.acceptMatch('room-1', first.helper.id);
+
+      await matchingService.leaveCall('room-1', first.helper.id);
+      const second = await matchingService.inviteHelper('room-1', 'volunteer-1');
+
+      expect(second.success).to.equal(true);
+      expect(matchingService.activeMatches.get('room-1').helperUserIds).to.deep.equal([second.helper.id]);
+    });
+
+    it('should free the place for a transfer once the helper has left', async () => {
+      const invite = await matchingService.inviteHelper('room-1', 'volunteer-1');
+      await matchingService.leaveCall('room-1', invite.helper.id);
+
+      const transfer = await matchingService.requestTransfer('room-1', 'volunteer-1', { reason: 'language' });
+
+      expect(transfer.success).to.equal(true);
+    });
+
+    it('should let a transfer be requested again after the new volunteer leaves', async () => {
+      const first = await matchingService.requestTransfer('room-1', 'volunteer-1', { reason: 'language' });
+      await matchingService.leaveCall('room-1', first.volunteer.id);
+
+      expect(matchingService.activeMatches.get('room-1').transfer).to.equal(null);
+      const second = await matchingService.requestTransfer('room-1', 'volunteer-1', { reason: 'language' });
+      expect(second.success).to.equal(true);
+    });
+
+    it('should not let the volunteer on the call leave it without ending it', async () => {
+      let error;
+      try {
+        await matchingService.leaveCall('room-1', 'volunteer-1');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).to.be.an('error');
+      expect(error.message).to.include('Only a helper');
+    });
+  });
+
+  describe('getIncomingCalls', () => {
+    it('should offer a transfer to the volunteer asked to take over', async () => {
+      const { volunteer } = await matchingService.requestTransfer('room-1', 'volunteer-1', {
+        reason: 'language',
+        helpCategory: 'reading',
+      });
+
+      const offers = await matchingService.getIncomingCalls(volunteer.id);
+
+      expect(offers).to.have.length(1);
+      expect(offers[0].kind).to.equal('transfer');
+      expect(offers[0].roomId).to.equal('room-1');
+      expect(offers[0].helpCategory).to.equal('reading');
+    });
+
+    it('should offer an invitation until the helper joins', async () => {
+      const { helper } = await matchingService.inviteHelper('room-1', 'volunteer-1');
+      expect((await matchingService.getIncomingCalls(helper.id))[0].kind).to.equal('helper_invite');
+
+      await matchingService.acceptMatch('room-1', helper.id);
+      expect(await matchingService.getIncomingCalls(helper.id)).to.deep.equal([]);
+    });
+
+    it('should stop offering a transfer once the call has ended', async () => {
+      const { volunteer } = await matchingService.requestTransfer('room-1', 'volunteer-1', { reason: 'time' });
+
+      await matchingService.endCall('room-1', 'blind-1', 'Call ended by user');
+
+      expect(await matchingService.getIncomingCalls(volunteer.id)).to.deep.equal([]);
+    });
+
+    it('should stop offering an invitation once the call has ended', async () => {
+      const { helper } = await matchingService.inviteHelper('room-1', 'volunteer-1');
+
+      await matchingService.endCall('room-1', 'blind-1', 'Call ended by user');
+
+      expect(await matchingService.getIncomingCalls(helper.id)).to.deep.equal([]);
+    });
+  });
+
+  describe('transfers', () => {
+    it('should hand the call over once the new volunteer accepts', async () => {
+      const { volunteer } = await matchingService.requestTransfer('room-1', 'volunteer-1', { reason: 'time' });
+      const [offer] = await matchingService.getIncomingCalls(volunteer.id);
+
+      const accepted = await matchingService.acceptMatch(offer.roomId, volunteer.id);
+      expect(accepted.callId).to.equal('call-1');
+      expect(await matchingService.getIncomingCalls(volunteer.id)).to.deep.equal([]);
+
+      const completed = await matchingService.completeTransfer('room-1', 'volunteer-1');
+
+      expect(completed.volunteerUserId).to.equal(volunteer.id);
+      expect(completed.previousCall.id).to.equal('call-1');
+      expect(completed.callId).to.not.equal('call-1');
+      const match = matchingService.activeMatches.get('room-1');
+      expect(match.volunteerUserId).to.equal(volunteer.id);
+      expect(match.transfer).to.equal(null);
+    });
+
+    it('should not hand the call over before the new volunteer accepts', async () => {
+      await matchingService.requestTransfer('room-1', 'volunteer-1', { reason: 'time' });
+
+      let error;
+      try {
+        await matchingService.completeTransfer('room-1', 'volunteer-1');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).to.be.an('error');
+      expect(error.message).to.include('has not joined');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+const { expect } = require('chai');
+
+const {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  SIGNALING_ERROR_CODES,
+  validateClientMessage,
+  validateServerMessage,
+  negotiateProtocolVersion,
+} = require('../../../shared/signaling');
+
+describe('Signaling Protocol', () => {
+  describe('validateClientMessage', () => {
+    it('should accept a valid join_room message', () => {
+      const result = validateClientMessage({
+        type: 'join_room',
+        data: {
+          roomId: 'room-1',
+          userId: 'user-1',
+          userType: 'blind',
+          protocolVersion: PROTOCOL_VERSION,
+        },
+      });
+
+      expect(result.valid).to.equal(true);
+      expect(result.message.data.roomId).to.equal('room-1');
+    });
+
+    it('should accept messages without data when no fields are required', () => {
+      const result = validateClientMessage({ type: 'ping' });
+
+      expect(result.valid).to.equal(true);
+      expect(result.message.data).to.deep.equal({});
+    });
+
+    it('should reject unknown message types', () => {
+      const result = validateClientMessage({ type: 'teleport', data: {} });
+
+      expect(result.valid).to.equal(false);
+      expect(result.code).to.equal(SIGNALING_ERROR_CODES.UNKNOWN_MESSAGE_TYPE);
+    });
+
+    it('should reject messages without a type', () => {
+      const result = validateClientMessage({ data: {} });
+
+      expect(result.valid).to.equal(false);
+      expect(result.code).to.equal(SIGNALING_ERROR_CODES.INVALID_MESSAGE);
+    });
+
+    it('should reject missing required fields', () => {
+      const result = validateClientMessage({
+        type: 'offer',
+        data: { offer: { type: 'offer', sdp: 'v=0' } },
+      });
+
+      expect(result.valid).to.equal(false);
+      expect(result.error).to.include('targetUserId');
+    });
+
+    it('should reject an invalid user type', () => {
+      const result = validateClientMessage({
+        type: 'join_room',
+        data: { roomId: 'room-1', userId: 'user-1', userType: 'admin' },
+      });
+
+      expect(result.valid).to.equal(false);
+      expect(result.error).to.include('userType');
+    });
+
+    it('should reject malformed session descriptions', () => {
+      const result = validateClientMessage({
+        type: 'answer',
+        data: { answer: { type: 'answer' }, targetUserId: 'user-2' },
+      });
+
+      expect(result.valid).to.equal(false);
+      expect(result.code).to.equal(SIGNALING_ERROR_CODES.INVALID_MESSAGE);
+    });
+
+    it('should not accept server-only messages from clients', () => {
+      const result = validateClientMessage({
+        type: 'user_joined',
+        data: { userId: 'user-1', userType: 'blind', roomStatus: 'ready', participants: [] },
+      });
+
+      expect(result.valid).to.equal(false);
+      expect(result.code).to.equal(SIGNALING_ERROR_CODES.UNKNOWN_MESSAGE_TYPE);
+    });
+  });
+
+  describe('validateServerMessage', () => {
+    it('should accept a forwarded ICE candidate', () => {
+      const result = validateServerMessage({
+        type: 'ice_candidate',
+        data: { candidate: { candidate: 'candidate:1', sdpMid: '0' }, fromUserId: 'user-2' },
+      });
+
+      expect(result.valid).to.equal(true);
+    });
+
+    it('should accept errors with a code', () => {
+      const result = validateServerMessage({
+        type: 'error',
+        data: {
+          error: 'Unsupported protocol',
+          code: SIGNALING_ERROR_CODES.UNSUPPORTED_PROTOCOL,
+          timestamp: Date.now(),
+        },
+      });
+
+      expect(result.valid).to.equal(true);
+    });
+
+    it('should accept the remaining participants when someone leaves a group call', () => {
+      const result = validateServerMessage({
+        type: 'user_left',
+        data: {
+          userId: 'helper-2',
+          remainingParticipants: 2,
+          participants: [
+            { userId: 'blind-1', userType: 'blind' },
+            { userId: 'volunteer-1', userType: 'volunteer' },
+          ],
+        },
+      });
+
+      expect(result.valid).to.equal(true);
+    });
+
+    it('should reject participants that are not a list', () => {
+      const result = validateServerMessage({
+        type: 'user_disconnected',
+        data: { userId: 'helper-2', participants: 'blind-1' },
+      });
+
+      expect(result.valid).to.equal(false);
+      expect(result.code).to.equal(SIGNALING_ERROR_CODES.INVALID_MESSAGE);
+    });
+  });
+
+  describe('negotiateProtocolVersion', () => {
+    it('should treat clients without a version as version 1', () => {
+      expect(negotiateProtocolVersion(undefined)).to.equal(1);
+    });
+
+    it('should downgrade newer clients to the server version', () => {
+      expect(negotiateProtocolVersion(PROTOCOL_VERSION + 1)).to.equal(PROTOCOL_VERSION);
+    });
+
+    it('should refuse versions below the minimum', () => {
+      expect(negotiateProtocolVersion(MIN_PROTOCOL_VERSION - 1)).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+const { expect } = require('chai');
+const { EventEmitter } = require('events');
+
+jest.mock('../../src/config/database', () => ({
+  getActiveVolunteers: jest.fn(async () => []),
+  updateCall: jest.fn(async () => {}),
+}));
+
+const { updateCall } = require('../../src/config/database');
+const webrtcService = require('../../src/services/webrtc');
+
+// Stands in for the ws socket @fastify/websocket hands the route
+class FakeSocket extends EventEmitter {
+  constructor() {
+    super();
+    this.readyState = 1;
+    this.sent = [];
+  }
+
+  send(message) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  ping() {}
+
+  terminate() {
+    this.close();
+  }
+
+  close() {
+    this.readyState = 3;
+    this.emit('close');
+  }
+}
+
+const connect = (userId) => {
+  const socket = new FakeSocket();
+  webrtcService.handleConnection(socket, {}, { id: userId });
+  return { socket, connectionId: webrtcService.connectionCounter };
+};
+
+const join = (connectionId, userId, userType) =>
+  webrtcService.handleJoinRoom(connectionId, { roomId: 'room-1', userId, userType });
+
+describe('WebRTC Service', () => {
+  let sockets;
+
+  beforeEach(() => {
+    webrtcService.rooms.clear();
+    updateCall.mockClear();
+    sockets = [];
+  });
+
+  afterEach(() => {
+    sockets.filter(socket => socket.readyState === 1).forEach(socket => socket.close());
+  });
+
+  const open = (userId) => {
+    const connection = connect(userId);
+    sockets.push(connection.socket);
+    return connection;
+  };
+
+  it('should talk to the socket it is given', () => {
+    const { socket } = open('blind-1');
+
+    expect(socket.sent[0].type).to.equal('connected');
+  });
+
+  describe('reconnecting', () => {
+    it('should keep the seat of a user who rejoined when their old socket closes', async () => {
+      const blind = open('blind-1');
+      const volunteer = open('volunteer-1');
+      await join(blind.connectionId, 'blind-1', 'blind');
+      await join(volunteer.connectionId, 'volunteer-1', 'volunteer');
+      webrtcService.rooms.get('room-1').status = 'active';
+
+      const rejoined = open('blind-1');
+      await join(rejoined.connectionId, 'blind-1', 'blind');
+      blind.socket.close();
+
+      const room = webrtcService.rooms.get('room-1');
+      expect(room.participants.get('blind-1').connectionId).to.equal(rejoined.connectionId);
+      expect(room.status).to.equal('active');
+      expect(volunteer.socket.sent.map(message => message.type)).to.not.include('user_disconnected');
+      expect(updateCall.mock.calls).to.have.length(0);
+    });
+
+    it('should still free the seat when the only socket for it closes', async () => {
+      const blind = open('blind-1');
+      const volunteer = open('volunteer-1');
+      await join(blind.connectionId, 'blind-1', 'blind');
+      await join(volunteer.connectionId, 'volunteer-1', 'volunteer');
+
+      blind.socket.close();
+
+      const room = webrtcService.rooms.get('room-1');
+      expect(room.participants.has('blind-1')).to.equal(false);
+      expect(volunteer.socket.sent.map(message => message.type)).to.include('user_disconnected');
+    });
+  });
+});
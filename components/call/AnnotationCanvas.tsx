@@ -0,0 +1,88 @@
+import React, { useState, useRef } from 'react';
+import {
+  View,
+  PanResponder,
+  StyleSheet,
+} from 'react-native';
+import {
+  Annotation,
+  AnnotationPoint,
+  createAnnotationId,
+  normalizePoint,
+  simplifyStroke,
+} from '../../services/annotations';
+import AnnotationOverlay from './AnnotationOverlay';
+
+interface AnnotationCanvasProps {
+  // Everything drawn so far, shown under the stroke in progress
+  annotations: Annotation[];
+  size: { width: number; height: number };
+  onAnnotation: (annotation: Annotation) => void;
+}
+
+// Shorter than this (in points) counts as a tap, which places a pointer
+const TAP_SLOP = 10;
+
+// Volunteer-side drawing surface over the blind user's video: tap to point
+// at something, drag to draw around it
+const AnnotationCanvas = ({ annotations, size, onAnnotation }: AnnotationCanvasProps) => {
+  const [stroke, setStroke] = useState<AnnotationPoint[]>([]);
+  const strokeRef = useRef<AnnotationPoint[]>([]);
+  const distanceRef = useRef(0);
+  // The responder is created once, so it reads the latest props from here
+  const propsRef = useRef({ size, onAnnotation });
+  propsRef.current = { size, onAnnotation };
+
+  const panResponder = useRef(PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+
+    onPanResponderGrant: (event) => {
+      const { locationX, locationY } = event.nativeEvent;
+      strokeRef.current = [normalizePoint(locationX, locationY, propsRef.current.size)];
+      distanceRef.current = 0;
+      setStroke(strokeRef.current);
+    },
+
+    onPanResponderMove: (event, gesture) => {
+      const { locationX, locationY } = event.nativeEvent;
+      strokeRef.current = [...strokeRef.current, normalizePoint(locationX, locationY, propsRef.current.size)];
+      distanceRef.current = Math.hypot(gesture.dx, gesture.dy);
+      setStroke(strokeRef.current);
+    },
+
+    onPanResponderRelease: () => {
+      const points = strokeRef.current;
+      strokeRef.current = [];
+      setStroke([]);
+      if (points.length === 0) return;
+
+      propsRef.current.onAnnotation(distanceRef.current < TAP_SLOP
+        ? { id: createAnnotationId(), kind: 'pointer', point: points[0] }
+        : { id: createAnnotationId(), kind: 'stroke', points: simplifyStroke(points) });
+    },
+
+    onPanResponderTerminate: () => {
+      strokeRef.current = [];
+      setStroke([]);
+    },
+  })).current;
+
+  const inProgress: Annotation[] = stroke.length > 1
+    ? [{ id: 'in-progress', kind: 'stroke', points: stroke }]
+    : [];
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      {...panResponder.panHandlers}
+      accessible={true}
+      accessibilityLabel="Annotation area"
+      accessibilityHint="Tap to point at something, or drag to draw around it"
+    >
+      <AnnotationOverlay annotations={[...annotations, ...inProgress]} size={size} />
+    </View>
+  );
+};
+
+export default AnnotationCanvas;
@@ -0,0 +1,119 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+} from 'react-native';
+import { Annotation, AnnotationPoint } from '../../services/annotations';
+
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+  // The size of the video view the annotations are drawn over
+  size: { width: number; height: number };
+}
+
+// Yellow on a black outline stands out on any background for low-vision users
+const ANNOTATION_COLOR = '#ffeb3b';
+const OUTLINE_COLOR = '#000000';
+const STROKE_WIDTH = 8;
+const OUTLINE_WIDTH = 3;
+const POINTER_SIZE = 56;
+
+// One straight piece of a stroke, as a rotated bar between two points
+const segmentStyle = (
+  from: AnnotationPoint,
+  to: AnnotationPoint,
+  size: { width: number; height: number },
+  thickness: number
+) => {
+  const x1 = from.x * size.width;
+  const y1 = from.y * size.height;
+  const x2 = to.x * size.width;
+  const y2 = to.y * size.height;
+  // Round caps hide the joins between segments
+  const length = Math.hypot(x2 - x1, y2 - y1) + thickness;
+
+  return {
+    position: 'absolute' as const,
+    left: (x1 + x2) / 2 - length / 2,
+    top: (y1 + y2) / 2 - thickness / 2,
+    width: length,
+    height: thickness,
+    borderRadius: thickness / 2,
+    transform: [{ rotate: `${Math.atan2(y2 - y1, x2 - x1)}rad` }],
+  };
+};
+
+// Pairs of consecutive points; a single-point stroke is drawn as a dot
+const toSegments = (points: AnnotationPoint[]): Array<[AnnotationPoint, AnnotationPoint]> =>
+  points.length === 1
+    ? [[points[0], points[0]]]
+    : points.slice(1).map((point, index) => [points[index], point]);
+
+// High-contrast drawing of a volunteer's annotations over the video. It never
+// takes touches, so the video underneath keeps working
+const AnnotationOverlay = ({ annotations, size }: AnnotationOverlayProps) => {
+  const styles = StyleSheet.create({
+    pointer: {
+      position: 'absolute',
+      width: POINTER_SIZE,
+      height: POINTER_SIZE,
+      borderRadius: POINTER_SIZE / 2,
+      borderWidth: STROKE_WIDTH,
+      borderColor: ANNOTATION_COLOR,
+    },
+    pointerOutline: {
+      position: 'absolute',
+      width: POINTER_SIZE + OUTLINE_WIDTH * 2,
+      height: POINTER_SIZE + OUTLINE_WIDTH * 2,
+      borderRadius: POINTER_SIZE / 2 + OUTLINE_WIDTH,
+      borderWidth: STROKE_WIDTH + OUTLINE_WIDTH * 2,
+      borderColor: OUTLINE_COLOR,
+    },
+  });
+
+  if (annotations.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {annotations.map(annotation => {
+        if (annotation.kind === 'pointer') {
+          const left = annotation.point.x * size.width;
+          const top = annotation.point.y * size.height;
+          return (
+            <React.Fragment key={annotation.id}>
+              <View
+                style={[styles.pointerOutline, {
+                  left: left - POINTER_SIZE / 2 - OUTLINE_WIDTH,
+                  top: top - POINTER_SIZE / 2 - OUTLINE_WIDTH,
+                }]}
+              />
+              <View style={[styles.pointer, { left: left - POINTER_SIZE / 2, top: top - POINTER_SIZE / 2 }]} />
+            </React.Fragment>
+          );
+        }
+
+        const segments = toSegments(annotation.points);
+        return (
+          <React.Fragment key={annotation.id}>
+            {segments.map(([from, to], index) => (
+              <View
+                key={`outline-${index}`}
+                style={[segmentStyle(from, to, size, STROKE_WIDTH + OUTLINE_WIDTH * 2), { backgroundColor: OUTLINE_COLOR }]}
+              />
+            ))}
+            {segments.map(([from, to], index) => (
+              <View
+                key={`stroke-${index}`}
+                style={[segmentStyle(from, to, size, STROKE_WIDTH), { backgroundColor: ANNOTATION_COLOR }]}
+              />
+            ))}
+          </React.Fragment>
+        );
+      })}
+    </View>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,132 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { CameraCapabilities, CameraState } from '../../services/cameraControl';
+
+interface CameraControlsPanelProps {
+  capabilities: CameraCapabilities;
+  state: CameraState;
+  onTorchChange: (on: boolean) => void;
+  onZoomChange: (level: number) => void;
+}
+
+// Volunteer-side controls for the blind user's camera. Only controls the
+// remote camera reported as supported are shown
+const CameraControlsPanel = ({
+  capabilities,
+  state,
+  onTorchChange,
+  onZoomChange,
+}: CameraControlsPanelProps) => {
+  const styles = StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 6,
+      borderRadius: 26,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    button: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+      marginHorizontal: 4,
+    },
+    buttonActive: {
+      backgroundColor: '#00d4ff',
+    },
+    buttonText: {
+      fontSize: 20,
+      color: '#ffffff',
+    },
+    zoomRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    zoomLabel: {
+      minWidth: 40,
+      textAlign: 'center',
+      fontSize: 14,
+      color: '#ffffff',
+      fontFamily: 'monospace',
+    },
+    hint: {
+      fontSize: 12,
+      color: '#b0b0b0',
+      marginHorizontal: 8,
+    },
+  });
+
+  if (!capabilities.torch && !capabilities.zoom && !capabilities.focus) {
+    return null;
+  }
+
+  const zoom = capabilities.zoom;
+  const zoomLevel = state.zoom ?? zoom?.min ?? 1;
+  // Zoom in coarse steps so each tap makes a visible difference
+  const zoomStep = zoom ? Math.max(zoom.step, (zoom.max - zoom.min) / 8) : 0;
+
+  const changeZoom = (direction: 1 | -1) => {
+    if (!zoom) return;
+    const next = Math.max(zoom.min, Math.min(zoom.max, zoomLevel + direction * zoomStep));
+    onZoomChange(Math.round(next * 10) / 10);
+  };
+
+  return (
+    <View style={styles.container}>
+      {capabilities.torch && (
+        <TouchableOpacity
+          style={[styles.button, state.torch && styles.buttonActive]}
+          onPress={() => onTorchChange(!state.torch)}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={state.torch ? "Turn off their flashlight" : "Turn on their flashlight"}
+          accessibilityState={{ checked: state.torch }}
+        >
+          <Text style={styles.buttonText}>🔦</Text>
+        </TouchableOpacity>
+      )}
+
+      {zoom && (
+        <View style={styles.zoomRow}>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => changeZoom(-1)}
+            disabled={zoomLevel <= zoom.min}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Zoom out their camera"
+          >
+            <Text style={styles.buttonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.zoomLabel} accessibilityLabel={`Zoom ${zoomLevel.toFixed(1)} times`}>
+            {zoomLevel.toFixed(1)}x
+          </Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => changeZoom(1)}
+            disabled={zoomLevel >= zoom.max}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Zoom in their camera"
+          >
+            <Text style={styles.buttonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {capabilities.focus && (
+        <Text style={styles.hint}>Tap the video to focus</Text>
+      )}
+    </View>
+  );
+};
+
+export default CameraControlsPanel;
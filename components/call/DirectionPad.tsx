@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { DirectionCue, DIRECTION_CUE_LABELS } from '../../services/directionCues';
+
+interface DirectionPadProps {
+  onCue: (cue: DirectionCue) => void;
+}
+
+const CUE_ICONS: Record<DirectionCue, string> = {
+  left: '⬅️',
+  right: '➡️',
+  up: '⬆️',
+  down: '⬇️',
+  closer: '➕',
+  farther: '➖',
+  hold: '✋',
+};
+
+// Laid out the way the camera should move; null cells are left empty
+const PAD_ROWS: Array<Array<DirectionCue | null>> = [
+  ['closer', 'up', 'farther'],
+  ['left', 'hold', 'right'],
+  [null, 'down', null],
+];
+
+// How long a sent cue stays highlighted
+const SENT_HIGHLIGHT_MS = 600;
+
+// Volunteer-side pad for guiding the blind user's camera. Each cue is felt
+// on their phone as a vibration pattern
+const DirectionPad = ({ onCue }: DirectionPadProps) => {
+  const [sentCue, setSentCue] = useState<DirectionCue | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimerRef.current) {
+        clearTimeout(highlightTimerRef.current);
+      }
+    };
+  }, []);
+
+  const sendCue = (cue: DirectionCue) => {
+    onCue(cue);
+    setSentCue(cue);
+    if (highlightTimerRef.current) {
+      clearTimeout(highlightTimerRef.current);
+    }
+    highlightTimerRef.current = setTimeout(() => setSentCue(null), SENT_HIGHLIGHT_MS);
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      padding: 6,
+      borderRadius: 16,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    row: {
+      flexDirection: 'row',
+    },
+    button: {
+      width: 40,
+      height: 40,
+      margin: 3,
+      borderRadius: 20,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    buttonSent: {
+      backgroundColor: '#00d4ff',
+    },
+    spacer: {
+      width: 40,
+      height: 40,
+      margin: 3,
+    },
+    buttonText: {
+      fontSize: 18,
+      color: '#ffffff',
+    },
+  });
+
+  return (
+    <View style={styles.container} accessibilityLabel="Direction cues">
+      {PAD_ROWS.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.row}>
+          {row.map((cue, cellIndex) => cue ? (
+            <TouchableOpacity
+              key={cue}
+              style={[styles.button, sentCue === cue && styles.buttonSent]}
+              onPress={() => sendCue(cue)}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={`Cue: ${DIRECTION_CUE_LABELS[cue]}`}
+              accessibilityHint="Vibrates their phone to guide the camera"
+            >
+              <Text style={styles.buttonText}>{CUE_ICONS[cue]}</Text>
+            </TouchableOpacity>
+          ) : (
+            <View key={`empty-${cellIndex}`} style={styles.spacer} />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default DirectionPad;
@@ -0,0 +1,67 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { PixelRatio, StyleSheet, View } from 'react-native';
+import { RTCView } from 'react-native-webrtc';
+import { FrameView } from '../../services/frameCapture';
+
+interface FrameCaptureViewProps {
+  stream: MediaStream | null;
+}
+
+interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// The local camera at the resolution it delivers frames in, one view pixel
+// per frame pixel, for photos, snapshots and annotation frames to be taken
+// from (see createViewCapturer). It sits behind the rest of the call screen,
+// so unlike the small preview it's never scaled into a thumbnail, and it's
+// there whether or not the preview is showing
+const FrameCaptureView = forwardRef<FrameView | null, FrameCaptureViewProps>(({ stream }, ref) => {
+  const viewRef = useRef(null);
+  const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
+
+  useImperativeHandle(
+    ref,
+    () => (stream && frameSize ? { viewRef, ...frameSize } : null),
+    [stream, frameSize]
+  );
+
+  if (!stream) {
+    return null;
+  }
+
+  const styles = StyleSheet.create({
+    container: {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+    },
+    // A single point until the first frame says how big frames are
+    frame: frameSize
+      ? { width: frameSize.width / PixelRatio.get(), height: frameSize.height / PixelRatio.get() }
+      : { width: 1, height: 1 },
+  });
+
+  return (
+    <View
+      style={styles.container}
+      pointerEvents="none"
+      accessibilityElementsHidden={true}
+      importantForAccessibility="no-hide-descendants"
+    >
+      <RTCView
+        ref={viewRef}
+        streamURL={(stream as unknown as { toURL: () => string }).toURL()}
+        style={styles.frame}
+        objectFit="contain"
+        zOrder={0}
+        onDimensionsChange={({ nativeEvent }) => {
+          setFrameSize({ width: nativeEvent.width, height: nativeEvent.height });
+        }}
+      />
+    </View>
+  );
+});
+
+export default FrameCaptureView;
@@ -0,0 +1,95 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+} from 'react-native';
+import { RTCView } from 'react-native-webrtc';
+import { CallParticipant } from '../../services/webrtc';
+
+interface RemoteParticipantStripProps {
+  // Everyone except the participant shown in the main view
+  participants: CallParticipant[];
+}
+
+// react-native-webrtc streams carry a URL that RTCView renders from
+const toStreamURL = (stream: MediaStream): string =>
+  (stream as unknown as { toURL: () => string }).toURL();
+
+const describeParticipant = (participant: CallParticipant): string =>
+  participant.userType === 'blind' ? 'Caller' : 'Helper';
+
+// Thumbnails of the other people on a group call, above the call controls
+const RemoteParticipantStrip = ({ participants }: RemoteParticipantStripProps) => {
+  const styles = StyleSheet.create({
+    container: {
+      position: 'absolute',
+      bottom: 190,
+      left: 20,
+      flexDirection: 'row',
+    },
+    tile: {
+      width: 90,
+      height: 120,
+      marginRight: 10,
+      borderRadius: 10,
+      borderWidth: 2,
+      borderColor: '#ffffff',
+      backgroundColor: '#1a1a2e',
+      justifyContent: 'center',
+      alignItems: 'center',
+      overflow: 'hidden',
+    },
+    tileReconnecting: {
+      borderColor: '#f59e0b',
+    },
+    video: {
+      width: '100%',
+      height: '100%',
+    },
+    label: {
+      position: 'absolute',
+      bottom: 4,
+      fontSize: 12,
+      color: '#ffffff',
+      fontWeight: '600',
+    },
+  });
+
+  if (participants.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {participants.map(participant => {
+        const label = describeParticipant(participant);
+
+        return (
+          <View
+            key={participant.userId}
+            style={[styles.tile, !participant.isConnected && styles.tileReconnecting]}
+            accessible={true}
+            accessibilityLabel={participant.isConnected
+              ? `Video from ${label.toLowerCase()}`
+              : `${label} is reconnecting`}
+          >
+            {participant.stream && participant.isConnected && (
+              <RTCView
+                streamURL={toStreamURL(participant.stream)}
+                style={styles.video}
+                objectFit="cover"
+                zOrder={1}
+              />
+            )}
+            <Text style={styles.label}>
+              {participant.isConnected ? label : `${label}…`}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+export default RemoteParticipantStrip;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Image,
+  Dimensions,
+} from 'react-native';
+
+interface SnapshotViewerProps {
+  imageUri: string | null;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 6;
+
+// Full-screen viewer for a snapshot from the blind user's camera, with zoom,
+// pan (by scrolling the enlarged image) and rotation for sideways photos
+const SnapshotViewer = ({ imageUri, onClose }: SnapshotViewerProps) => {
+  const { width, height } = Dimensions.get('window');
+  const [scale, setScale] = useState(MIN_SCALE);
+  const [rotation, setRotation] = useState(0);
+
+  // Every new snapshot opens fitted and upright
+  useEffect(() => {
+    setScale(MIN_SCALE);
+    setRotation(0);
+  }, [imageUri]);
+
+  const zoom = (factor: number) => {
+    setScale(prev => Math.max(MIN_SCALE, Math.min(MAX_SCALE, prev * factor)));
+  };
+
+  const rotate = () => {
+    setRotation(prev => (prev + 90) % 360);
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#000000',
+    },
+    image: {
+      width: width * scale,
+      height: height * scale,
+      transform: [{ rotate: `${rotation}deg` }],
+    },
+    toolbar: {
+      position: 'absolute',
+      bottom: 30,
+      left: 20,
+      right: 20,
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 30,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    },
+    button: {
+      width: 50,
+      height: 50,
+      borderRadius: 25,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    buttonText: {
+      fontSize: 22,
+      color: '#ffffff',
+    },
+    scaleText: {
+      fontSize: 14,
+      color: '#00d4ff',
+      fontFamily: 'monospace',
+    },
+  });
+
+  return (
+    <Modal
+      visible={imageUri !== null}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <ScrollView>
+          <ScrollView horizontal={true}>
+            {imageUri && (
+              <Image
+                source={{ uri: imageUri }}
+                style={styles.image}
+                resizeMode="contain"
+                accessible={true}
+                accessibilityLabel="Snapshot from the blind user's camera"
+              />
+            )}
+          </ScrollView>
+        </ScrollView>
+
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => zoom(1 / 1.5)}
+            disabled={scale <= MIN_SCALE}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Zoom out"
+          >
+            <Text style={styles.buttonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.scaleText}>{scale.toFixed(1)}x</Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => zoom(1.5)}
+            disabled={scale >= MAX_SCALE}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Zoom in"
+          >
+            <Text style={styles.buttonText}>+</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={rotate}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Rotate photo"
+          >
+            <Text style={styles.buttonText}>⟳</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={onClose}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Close photo"
+          >
+            <Text style={styles.buttonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default SnapshotViewer;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+} from 'react-native';
+
+export type TransferReason = 'language' | 'expertise' | 'time' | 'other';
+export type TransferHelpCategory = 'reading' | 'navigation' | 'tech_help' | 'general';
+
+export interface TransferRequest {
+  reason: TransferReason;
+  helpCategory: TransferHelpCategory;
+}
+
+interface TransferCallSheetProps {
+  visible: boolean;
+  onSubmit: (request: TransferRequest) => void;
+  onCancel: () => void;
+}
+
+const REASONS: Array<{ value: TransferReason; label: string }> = [
+  { value: 'language', label: "I don't speak their language" },
+  { value: 'expertise', label: 'Needs someone with more expertise' },
+  { value: 'time', label: "I can't stay on the call" },
+  { value: 'other', label: 'Other reason' },
+];
+
+const HELP_CATEGORIES: Array<{ value: TransferHelpCategory; label: string }> = [
+  { value: 'general', label: 'General' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'navigation', label: 'Navigation' },
+  { value: 'tech_help', label: 'Tech help' },
+];
+
+// Volunteer-side form for handing a call over to another volunteer. The call
+// stays up while a new volunteer is found
+const TransferCallSheet = ({ visible, onSubmit, onCancel }: TransferCallSheetProps) => {
+  const [reason, setReason] = useState<TransferReason | null>(null);
+  const [helpCategory, setHelpCategory] = useState<TransferHelpCategory>('general');
+
+  // Every transfer starts from a blank form
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setHelpCategory('general');
+    }
+  }, [visible]);
+
+  const styles = StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    sheet: {
+      padding: 20,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      backgroundColor: '#1a1a2e',
+    },
+    title: {
+      fontSize: 20,
+      color: '#ffffff',
+      fontWeight: '600',
+      marginBottom: 16,
+    },
+    sectionLabel: {
+      fontSize: 14,
+      color: '#b0b0b0',
+      marginBottom: 8,
+    },
+    option: {
+      paddingVertical: 12,
+      paddingHorizontal: 14,
+      borderRadius: 10,
+      marginBottom: 8,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    optionSelected: {
+      backgroundColor: '#00d4ff',
+    },
+    optionText: {
+      fontSize: 16,
+      color: '#ffffff',
+    },
+    categories: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: 16,
+    },
+    category: {
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      marginRight: 8,
+      marginBottom: 8,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+    },
+    button: {
+      paddingVertical: 12,
+      paddingHorizontal: 20,
+      borderRadius: 22,
+      marginLeft: 12,
+    },
+    buttonPrimary: {
+      backgroundColor: '#00d4ff',
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    buttonText: {
+      fontSize: 16,
+      color: '#ffffff',
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title} accessibilityRole="header">Transfer call</Text>
+
+          <Text style={styles.sectionLabel}>Why are you transferring?</Text>
+          {REASONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, reason === option.value && styles.optionSelected]}
+              onPress={() => setReason(option.value)}
+              accessible={true}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: reason === option.value }}
+            >
+              <Text style={styles.optionText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <Text style={styles.sectionLabel}>What do they need help with?</Text>
+          <View style={styles.categories}>
+            {HELP_CATEGORIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.category, helpCategory === option.value && styles.optionSelected]}
+                onPress={() => setHelpCategory(option.value)}
+                accessible={true}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: helpCategory === option.value }}
+              >
+                <Text style={styles.optionText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={onCancel}
+              accessible={true}
+              accessibilityRole="button"
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.buttonPrimary, !reason && styles.buttonDisabled]}
+              onPress={() => reason && onSubmit({ reason, helpCategory })}
+              disabled={!reason}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityHint="Find another volunteer while you stay on the call"
+            >
+              <Text style={styles.buttonText}>Find volunteer</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TransferCallSheet;
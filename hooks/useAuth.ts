@@ -17,6 +17,8 @@ export interface User {
   totalHelpMinutes?: number;
   averageRating?: number;
   isAvailable?: boolean;
+  // Language for voice commands and spoken responses, e.g. 'es' or 'es-MX'
+  preferredLanguage?: string;
   createdAt: string;
   updatedAt?: string;
 }
@@ -0,0 +1,72 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from './useAuth';
+import {
+  CallEvent,
+  CallState,
+  CallStateStore,
+  callStateStore,
+  describeTransition,
+} from '../services/callState';
+import { speechService } from '../services/speech';
+
+export interface CallStateContextType {
+  state: CallState;
+  send: (event: CallEvent) => boolean;
+  store: CallStateStore;
+}
+
+const CallStateContext = createContext<CallStateStore | undefined>(undefined);
+
+// Provides the call state machine to every screen, and speaks each change of
+// call status so no screen has to, ahead of anything else being said
+export const CallStateProvider = ({
+  children,
+  store = callStateStore,
+}: {
+  children: ReactNode;
+  store?: CallStateStore;
+}) => {
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    return store.subscribe((state, previous, event) => {
+      const announcement = describeTransition(previous, state, event);
+      if (announcement) {
+        speechService.speak(announcement, { priority: 'urgent' });
+      }
+    });
+  }, [store]);
+
+  // Nothing about a call survives signing out
+  useEffect(() => {
+    if (!isAuthenticated) {
+      store.send({ type: 'RESET' });
+    }
+  }, [isAuthenticated, store]);
+
+  return (
+    <CallStateContext.Provider value={store}>
+      {children}
+    </CallStateContext.Provider>
+  );
+};
+
+// Hook to read the call state; re-renders on every change
+export const useCallState = (): CallStateContextType => {
+  const store = useContext(CallStateContext);
+  if (!store) {
+    throw new Error('useCallState must be used within a CallStateProvider');
+  }
+
+  const [state, setState] = useState(store.state);
+
+  useEffect(() => {
+    // The state may have changed between render and subscribing
+    setState(store.state);
+    return store.subscribe(next => setState(next));
+  }, [store]);
+
+  return { state, send: (event: CallEvent) => store.send(event), store };
+};
+
+export default useCallState;
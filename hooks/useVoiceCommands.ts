@@ -1,35 +1,113 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Voice, {
   SpeechRecognizedEvent,
   SpeechResultsEvent,
   SpeechErrorEvent,
 } from '@react-native-voice/voice';
+import { NavigationContainerRefWithCurrent } from '@react-navigation/native';
 import { Audio } from 'expo-av';
 import { useAuth } from './useAuth';
-
-// Voice command types
+import { useCallState } from './useCallState';
+import { apiService } from '../services/api';
+import { isInCall } from '../services/callState';
+import { navigationRef as appNavigationRef } from '../services/navigation';
+import { speechService } from '../services/speech';
+import { SpeechPriority } from '../services/speechQueue';
+import {
+  VoiceLanguage,
+  getDeviceLocale,
+  resolveVoiceLanguage,
+} from '../services/voiceCommandPacks';
+import {
+  HelpCategory,
+  RecognitionAlternative,
+  VoiceIntentName,
+  VoiceIntentSlots,
+  getExamplePhrase,
+  needsConfirmation,
+  parseConfirmation,
+  parseIntent,
+} from '../services/voiceIntents';
+
+// Voice command types. What users can say for each command is in the
+// intent grammar; the action gets the slots filled from what they said
 export type VoiceCommand = {
-  command: string;
-  action: () => void;
+  command: VoiceIntentName;
+  action: (slots: VoiceIntentSlots) => void | Promise<void>;
   description: string;
-  keywords: string[];
 };
 
 export type VoiceCommandResult = {
-  command: string;
+  command: VoiceIntentName;
   confidence: number;
-  action?: () => void;
+  slots: VoiceIntentSlots;
+  // Heard well enough to ask about, but not to act on unasked
+  needsConfirmation?: boolean;
+  action?: () => void | Promise<void>;
+};
+
+// What a spoken help request asked for, e.g. a Spanish-speaking reader
+export interface HelpRequestOptions {
+  helpCategory?: HelpCategory;
+  language?: string;
+}
+
+// What the screen using voice commands can do; commands for actions a screen
+// doesn't provide say so instead of doing nothing
+export interface VoiceCommandActions {
+  requestHelp?: (options?: HelpRequestOptions) => void;
+  cancelHelpRequest?: () => void;
+  setAvailability?: (available: boolean) => void;
+}
+
+export interface VoiceCommandOptions {
+  navigationRef?: NavigationContainerRefWithCurrent<any>;
+  actions?: VoiceCommandActions;
+}
+
+interface VoiceCommandListeners {
+  onListeningChange?: (isListening: boolean) => void;
+  // Called for every utterance, with null when no command matched
+  onResult?: (result: VoiceCommandResult | null, speech: string) => void;
+}
+
+// Android also gives a score for each alternative, in the same order, when
+// its recogniser has one
+type SpeechResults = SpeechResultsEvent & { confidence?: number[] };
+
+// Where "dashboard" goes for each kind of user
+const DASHBOARD_ROUTES: Record<string, [string, object?]> = {
+  blind: ['BlindDashboard'],
+  volunteer: ['VolunteerTabs', { screen: 'Dashboard' }],
+  admin: ['AdminTabs', { screen: 'AdminDashboard' }],
+};
+
+// Where "wallet" goes; admins have no wallet of their own
+const WALLET_ROUTES: Record<string, [string, object?]> = {
+  blind: ['Rewards'],
+  volunteer: ['VolunteerTabs', { screen: 'Rewards' }],
 };
 
 class VoiceCommandService {
   private isListening: boolean = false;
-  private commands: Map<string, VoiceCommand> = new Map();
+  private commands: Map<VoiceIntentName, VoiceCommand> = new Map();
   private soundObject: Audio.Sound | null = null;
-
-  constructor() {
+  private listeners: VoiceCommandListeners;
+  // A command heard too unclearly to act on, waiting for a yes or no
+  private pendingConfirmation: VoiceCommandResult | null = null;
+  // What is listened for and spoken back; English until the user's is known
+  private language: VoiceLanguage = resolveVoiceLanguage([]);
+
+  constructor(listeners: VoiceCommandListeners = {}) {
+    this.listeners = listeners;
     this.setupVoiceHandlers();
   }
 
+  private setListening(isListening: boolean): void {
+    this.isListening = isListening;
+    this.listeners.onListeningChange?.(isListening);
+  }
+
   // Setup voice recognition handlers
   private setupVoiceHandlers(): void {
     Voice.onSpeechStart = this.onSpeechStart.bind(this);
@@ -39,6 +117,14 @@ class VoiceCommandService {
     Voice.onSpeechRecognized = this.onSpeechRecognized.bind(this);
   }
 
+  setLanguage(language: VoiceLanguage): void {
+    this.language = language;
+  }
+
+  private speak(text: string): Promise<void> {
+    return speechService.speak(text, { locale: this.language.locale });
+  }
+
   // Initialize voice service
   async initialize(): Promise<void> {
     try {
@@ -81,14 +167,26 @@ class VoiceCommandService {
     }
   }
 
-  // Start listening for voice commands
-  async startListening(): Promise<void> {
+  // Start listening for voice commands, after saying the prompt if there is
+  // one; it's said in full first so it isn't heard as the command
+  async startListening(prompt?: string): Promise<void> {
     if (this.isListening) return;
 
     try {
-      this.isListening = true;
+      this.setListening(true);
+      // Anything still being said would be heard as the command
+      speechService.stop();
+
+      if (prompt) {
+        await speechService.speak(prompt, { locale: this.language.locale, priority: 'urgent' });
+        // Stopping listening in the meantime cancels it
+        if (!this.isListening) return;
+      }
+
+      // Voice has one set of handlers; another screen's service may hold them
+      this.setupVoiceHandlers();
 
-      await Voice.start('en-US', {
+      await Voice.start(this.language.locale, {
         extraPullPaths: [Voice.DIRPATH],
         RECOGNIZER_ENGINE: 'GOOGLE',
         PROMPT_FILTER: 0,
@@ -100,16 +198,17 @@ class VoiceCommandService {
       console.log('Voice listening started');
     } catch (error) {
       console.error('Failed to start voice listening:', error);
-      this.isListening = false;
+      this.setListening(false);
     }
   }
 
   // Stop listening for voice commands
   async stopListening(): Promise<void> {
+    this.cancelConfirmation();
     if (!this.isListening) return;
 
     try {
-      this.isListening = false;
+      this.setListening(false);
       await Voice.stop();
       await Voice.destroy();
 
@@ -127,14 +226,42 @@ class VoiceCommandService {
 
   private onSpeechEnd(): void {
     console.log('Speech ended');
-    this.isListening = false;
+    this.setListening(false);
   }
 
-  private onSpeechResults(e: SpeechResultsEvent): void {
+  private onSpeechResults(e: SpeechResults): void {
     if (!e.value) return;
 
+    // Every alternative the recogniser heard is ranked, not just the first,
+    // by how sure the recogniser was of it where it says
     const results = e.value;
-    const recognizedCommand = this.parseVoiceCommand(results[0]);
+    const alternatives: RecognitionAlternative[] = results.map((transcript, index) => {
+      const confidence = e.confidence?.[index];
+      return { transcript, confidence: confidence > 0 ? confidence : undefined };
+    });
+
+    const pending = this.pendingConfirmation;
+    this.cancelConfirmation();
+    if (pending) {
+      const answer = parseConfirmation(alternatives, this.language.pack.lexicon);
+      if (answer !== null) {
+        if (answer) {
+          this.executeCommand(pending);
+        } else {
+          this.speak(this.language.pack.responses.confirmationDeclined);
+        }
+        this.listeners.onResult?.(answer ? pending : null, results[0]);
+        return;
+      }
+      // Anything but yes or no is taken as a new command
+    }
+
+    const recognizedCommand = this.parseVoiceCommand(alternatives);
+
+    if (recognizedCommand && recognizedCommand.needsConfirmation) {
+      this.askToConfirm(recognizedCommand);
+      return;
+    }
 
     if (recognizedCommand) {
       console.log('Voice command recognized:', recognizedCommand);
@@ -142,72 +269,86 @@ class VoiceCommandService {
     } else {
       console.log('No valid command recognized in:', results[0]);
     }
+    this.listeners.onResult?.(recognizedCommand, results[0]);
   }
 
   private onSpeechError(e: SpeechErrorEvent): void {
     console.error('Speech recognition error:', e.error);
-    this.isListening = false;
+    this.setListening(false);
   }
 
   private onSpeechRecognized(e: SpeechRecognizedEvent): void {
     console.log('Speech recognized:', e.value);
   }
 
-  // Parse voice command from speech
-  private parseVoiceCommand(speech: string): VoiceCommandResult | null {
-    const normalizedSpeech = speech.toLowerCase().trim();
-
-    // Check each command for keyword matches
-    for (const [commandId, command] of this.commands.entries()) {
-      for (const keyword of command.keywords) {
-        if (normalizedSpeech.includes(keyword.toLowerCase())) {
-          return {
-            command: command.command,
-            confidence: this.calculateConfidence(normalizedSpeech, keyword),
-            action: command.action,
-          };
-        }
-      }
+  // Parse voice command from the recogniser's alternatives, considering only
+  // the commands registered for this user
+  private parseVoiceCommand(alternatives: RecognitionAlternative[]): VoiceCommandResult | null {
+    const { grammar, lexicon } = this.language.pack;
+    const rules = grammar.filter(rule => this.commands.has(rule.intent));
+    const intent = parseIntent(alternatives, rules, lexicon);
+    const command = intent && this.commands.get(intent.name);
+
+    if (!intent || !command) {
+      return null;
     }
 
-    return null;
+    return {
+      command: intent.name,
+      confidence: intent.confidence,
+      slots: intent.slots,
+      needsConfirmation: needsConfirmation(intent),
+      action: () => command.action(intent.slots),
+    };
   }
 
-  // Calculate confidence score for command recognition
-  private calculateConfidence(speech: string, keyword: string): number {
-    const words = speech.split(' ');
-    const keywordWords = keyword.split(' ');
+  // Ask whether a half-heard command was meant, then listen for the answer
+  // once the question has been said, so it isn't heard as the reply
+  private async askToConfirm(result: VoiceCommandResult): Promise<void> {
+    this.pendingConfirmation = result;
+    const { grammar, responses } = this.language.pack;
+    await this.speak(responses.confirm(getExamplePhrase(result.command, grammar)));
 
-    let matchCount = 0;
-    for (const keywordWord of keywordWords) {
-      if (words.some(word => word.includes(keywordWord) || keywordWord.includes(word))) {
-        matchCount++;
-      }
+    // Stopping listening in the meantime cancels the question
+    if (this.pendingConfirmation === result) {
+      this.startListening();
     }
+  }
 
-    return matchCount / keywordWords.length;
+  private cancelConfirmation(): void {
+    this.pendingConfirmation = null;
   }
 
   // Execute recognized command
-  private executeCommand(result: VoiceCommandResult): void {
-    if (result.action && result.confidence > 0.5) {
+  private async executeCommand(result: VoiceCommandResult): Promise<void> {
+    // Unclear utterances were already left out or confirmed
+    if (result.action) {
       this.playBeep();
-      result.action();
+      try {
+        await result.action();
+      } catch (error) {
+        console.error(`Voice command ${result.command} failed:`, error);
+        this.speak(this.language.pack.responses.commandFailed);
+      }
     }
   }
 
   // Register voice command
-  registerCommand(commandId: string, command: VoiceCommand): void {
+  registerCommand(commandId: VoiceIntentName, command: VoiceCommand): void {
     this.commands.set(commandId, command);
     console.log(`Voice command registered: ${command.command}`);
   }
 
   // Unregister voice command
-  unregisterCommand(commandId: string): void {
+  unregisterCommand(commandId: VoiceIntentName): void {
     this.commands.delete(commandId);
     console.log(`Voice command unregistered: ${commandId}`);
   }
 
+  clearCommands(): void {
+    this.commands.clear();
+  }
+
   // Get available commands
   getAvailableCommands(): VoiceCommand[] {
     return Array.from(this.commands.values());
@@ -227,18 +368,44 @@ class VoiceCommandService {
   }
 }
 
-// Hook for using voice commands
-export const useVoiceCommands = () => {
+// Hook for using voice commands. Navigation goes through the app's
+// navigation ref; call and availability commands use the screen's actions,
+// which always reflect its latest props and state. Commands are understood
+// and answered in the language of the user's profile, else the device's
+export const useVoiceCommands = ({
+  navigationRef = appNavigationRef,
+  actions = {},
+}: VoiceCommandOptions = {}) => {
   const [isListening, setIsListening] = useState(false);
   const [isAvailable, setIsAvailable] = useState(false);
   const [recognizedCommand, setRecognizedCommand] = useState<string>('');
   const { user } = useAuth();
+  const { store: callStateStore } = useCallState();
   const voiceServiceRef = useRef<VoiceCommandService | null>(null);
+  const language = useMemo(
+    () => resolveVoiceLanguage([user?.preferredLanguage, getDeviceLocale()]),
+    [user?.preferredLanguage]
+  );
+  const latestRef = useRef({ user, actions, navigationRef, language });
+  latestRef.current = { user, actions, navigationRef, language };
+
+  const say = (text: string, priority?: SpeechPriority) =>
+    speechService.speak(text, { locale: latestRef.current.language.locale, priority });
 
   // Initialize voice service
   useEffect(() => {
     const initializeVoice = async () => {
-      const service = new VoiceCommandService();
+      const service = new VoiceCommandService({
+        onListeningChange: setIsListening,
+        onResult: (result) => {
+          if (result) {
+            setRecognizedCommand(result.command);
+          } else {
+            say(latestRef.current.language.pack.responses.notUnderstood);
+          }
+        },
+      });
+      service.setLanguage(language);
       voiceServiceRef.current = service;
 
       // Check availability
@@ -247,7 +414,7 @@ export const useVoiceCommands = () => {
 
       if (available) {
         await service.initialize();
-        setupCommandsForUserType(service, user?.userType);
+        setupCommandsForUserType(service, user?.userType, language);
       }
     };
 
@@ -258,70 +425,114 @@ export const useVoiceCommands = () => {
         voiceServiceRef.current.destroy();
       }
     };
-  }, [user?.userType]);
+  }, [user?.userType, language]);
+
+  const navigate = (name: string, params?: object): boolean => {
+    const ref = latestRef.current.navigationRef;
+    if (!ref.isReady()) {
+      say(latestRef.current.language.pack.responses.appLoading);
+      return false;
+    }
+
+    ref.navigate(name, params);
+    return true;
+  };
+
+  const setAvailability = async (available: boolean) => {
+    const { setAvailability: setScreenAvailability } = latestRef.current.actions;
+    if (setScreenAvailability) {
+      setScreenAvailability(available);
+      return;
+    }
+
+    await apiService.updateAvailability(available);
+    const { responses } = latestRef.current.language.pack;
+    say(available ? responses.nowAvailable : responses.nowUnavailable);
+  };
 
   // Setup commands based on user type
-  const setupCommandsForUserType = useCallback((service: VoiceCommandService, userType?: string) => {
+  const setupCommandsForUserType = useCallback((
+    service: VoiceCommandService,
+    userType: string | undefined,
+    { pack }: VoiceLanguage
+  ) => {
     if (!service) return;
 
+    const { grammar, descriptions, responses } = pack;
+
     // Clear existing commands
-    service.destroy();
-    service.initialize();
+    service.clearCommands();
 
     // Common commands for all users
     service.registerCommand('help', {
       command: 'help',
-      description: 'List available voice commands',
-      keywords: ['help', 'commands', 'what can i say'],
+      description: descriptions.help,
       action: () => {
-        const commands = service.getAvailableCommands();
-        const commandList = commands.map(cmd => `${cmd.command}: ${cmd.description}`).join(', ');
-        speak(`Available commands: ${commandList}`);
+        const commands = service.getAvailableCommands().map(cmd => ({
+          phrase: getExamplePhrase(cmd.command, grammar),
+          description: cmd.description,
+        }));
+        // Long, so anything more pressing is said first
+        say(responses.commandList(commands), 'low');
       },
     });
 
     service.registerCommand('dashboard', {
       command: 'dashboard',
-      description: 'Navigate to dashboard',
-      keywords: ['dashboard', 'home', 'main'],
+      description: descriptions.dashboard,
       action: () => {
-        // Navigate to dashboard - this would need navigation prop
-        console.log('Navigate to dashboard');
+        const route = DASHBOARD_ROUTES[userType || ''];
+        if (route && navigate(...route)) {
+          say(responses.dashboard);
+        }
       },
     });
 
     service.registerCommand('reputation', {
       command: 'reputation',
-      description: 'Read reputation score',
-      keywords: ['reputation', 'score', 'reputation score', 'what is my reputation'],
+      description: descriptions.reputation,
       action: () => {
+        const { user } = latestRef.current;
         if (user?.reputationScore) {
-          speak(`Your reputation score is ${user.reputationScore}`);
+          say(responses.reputation(user.reputationScore));
         } else {
-          speak('Reputation score not available');
+          say(responses.reputationUnavailable);
         }
       },
     });
 
     // Blind user specific commands
     if (userType === 'blind') {
-      service.registerCommand('call', {
-        command: 'call',
-        description: 'Start a volunteer call',
-        keywords: ['call', 'call volunteer', 'get help', 'start call', 'need help'],
-        action: () => {
-          console.log('Start volunteer call');
-          // Trigger matching process
+      service.registerCommand('request_help', {
+        command: 'request_help',
+        description: descriptions.request_help,
+        action: ({ category, language }) => {
+          const { requestHelp } = latestRef.current.actions;
+          if (callStateStore.state.phase !== 'idle') {
+            say(responses.alreadyRequestingHelp);
+          } else if (requestHelp) {
+            requestHelp({ helpCategory: category, language });
+          } else {
+            say(responses.requestHelpFromDashboard);
+          }
         },
       });
 
       service.registerCommand('end_call', {
         command: 'end_call',
-        description: 'End current call',
-        keywords: ['end call', 'hang up', 'disconnect', 'stop call'],
+        description: descriptions.end_call,
         action: () => {
-          console.log('End call');
-          // End current call
+          const { phase } = callStateStore.state;
+          const { cancelHelpRequest } = latestRef.current.actions;
+
+          if (isInCall(phase)) {
+            // The call screen sees the call ending and hangs up
+            callStateStore.send({ type: 'HANG_UP' });
+          } else if ((phase === 'requesting' || phase === 'queued') && cancelHelpRequest) {
+            cancelHelpRequest();
+          } else {
+            say(responses.notOnCall);
+          }
         },
       });
     }
@@ -330,46 +541,46 @@ export const useVoiceCommands = () => {
     if (userType === 'volunteer') {
       service.registerCommand('available', {
         command: 'available',
-        description: 'Set availability status',
-        keywords: ['available', 'available for calls', 'ready to help'],
-        action: () => {
-          console.log('Set availability to available');
-          // Update availability
-        },
+        description: descriptions.available,
+        action: () => setAvailability(true),
       });
 
       service.registerCommand('unavailable', {
         command: 'unavailable',
-        description: 'Set unavailable status',
-        keywords: ['unavailable', 'busy', 'not available'],
-        action: () => {
-          console.log('Set availability to unavailable');
-          // Update availability
-        },
+        description: descriptions.unavailable,
+        action: () => setAvailability(false),
       });
     }
 
-    // General commands
-    service.registerCommand('wallet', {
-      command: 'wallet',
-      description: 'Navigate to wallet',
-      keywords: ['wallet', 'rewards', 'earnings'],
-      action: () => {
-        console.log('Navigate to wallet');
-        // Navigate to wallet screen
-      },
-    });
+    const walletRoute = WALLET_ROUTES[userType || ''];
+    if (walletRoute) {
+      service.registerCommand('wallet', {
+        command: 'wallet',
+        description: descriptions.wallet,
+        action: () => {
+          if (navigate(...walletRoute)) {
+            say(responses.wallet);
+          }
+        },
+      });
 
-    service.registerCommand('balance', {
-      command: 'balance',
-      description: 'Read wallet balance',
-      keywords: ['balance', 'how much', 'wallet balance'],
-      action: () => {
-        console.log('Read wallet balance');
-        // Get and speak balance
-      },
-    });
-  }, [user]);
+      // What the user has been paid in rewards so far
+      service.registerCommand('balance', {
+        command: 'balance',
+        description: descriptions.balance,
+        action: async () => {
+          try {
+            const response = await apiService.getUserStats();
+            const balance = Number(response.data?.totalEarned || 0);
+            say(responses.balance(balance.toFixed(2)));
+          } catch (error) {
+            console.error('Error loading wallet balance:', error);
+            say(responses.balanceUnavailable);
+          }
+        },
+      });
+    }
+  }, [callStateStore]);
 
   // Start listening
   const startListening = useCallback(async () => {
@@ -377,7 +588,7 @@ export const useVoiceCommands = () => {
 
     try {
       setIsListening(true);
-      await voiceServiceRef.current.startListening();
+      await voiceServiceRef.current.startListening(latestRef.current.language.pack.responses.listening);
     } catch (error) {
       console.error('Failed to start listening:', error);
       setIsListening(false);
@@ -405,19 +616,6 @@ export const useVoiceCommands = () => {
     }
   }, [isListening, startListening, stopListening]);
 
-  // Text-to-speech function
-  const speak = useCallback((text: string) => {
-    if ('speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.9;
-      utterance.pitch = 1.0;
-      utterance.volume = 0.8;
-      speechSynthesis.speak(utterance);
-    } else {
-      console.log('TTS not available:', text);
-    }
-  }, []);
-
   // Get available commands
   const getAvailableCommands = useCallback(() => {
     return voiceServiceRef.current?.getAvailableCommands() || [];
@@ -431,21 +629,11 @@ export const useVoiceCommands = () => {
     stopListening,
     toggleListening,
     getAvailableCommands,
-    speak,
+    speak: say,
+    // Spoken responses in the user's language, for screens to announce
+    responses: language.pack.responses,
+    locale: language.locale,
   };
 };
 
-// Text-to-speech utility
-export const speak = (text: string): void => {
-  if ('speechSynthesis' in window) {
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 0.9;
-    utterance.pitch = 1.0;
-    utterance.volume = 0.8;
-    speechSynthesis.speak(utterance);
-  } else {
-    console.log('TTS not available:', text);
-  }
-};
-
 export default useVoiceCommands;
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { webrtcService, WebRTCService, WebRTCServiceEvents } from '../services/webrtc';
+import { Unsubscribe } from '../services/eventEmitter';
+
+export type WebRTCEventHandlers = Partial<WebRTCServiceEvents>;
+
+// Subscribe a component to WebRTCService events for as long as it is mounted.
+// Handlers always see the latest props and state; only the set of events
+// present on the first render is subscribed
+export const useWebRTC = (
+  handlers: WebRTCEventHandlers,
+  service: WebRTCService = webrtcService
+): WebRTCService => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const events = Object.keys(handlersRef.current) as Array<keyof WebRTCServiceEvents>;
+
+    const disposers: Unsubscribe[] = events.map(event =>
+      service.on(event, ((...args: any[]) => {
+        const handler = handlersRef.current[event] as ((...args: any[]) => void) | undefined;
+        handler?.(...args);
+      }) as WebRTCServiceEvents[typeof event])
+    );
+
+    return () => {
+      disposers.forEach(dispose => dispose());
+    };
+  }, [service]);
+
+  return service;
+};
+
+export default useWebRTC;
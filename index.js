@@ -1,7 +1,12 @@
 import { registerRootComponent } from 'expo';
+import { registerGlobals } from 'react-native-webrtc';
 
 import App from './App';
 
+// Expose RTCPeerConnection, MediaStream and navigator.mediaDevices as globals
+// so the WebRTC service can use the standard browser APIs
+registerGlobals();
+
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
 // the environment is set up appropriately
@@ -5,13 +5,20 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
-  AccessibilityInfo,
   StatusBar,
   Linking,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../hooks/useAuth';
+import { useCallState } from '../hooks/useCallState';
+import { HelpRequestOptions, useVoiceCommands } from '../hooks/useVoiceCommands';
 import { apiService } from '../services/api';
+import { PreflightCheckName, runPreflightCheck, summarizePreflight } from '../services/preflight';
+import { speechService } from '../services/speech';
+
+// How often to check the queue, and how long to wait for a volunteer
+const QUEUE_POLL_INTERVAL_MS = 1000;
+const QUEUE_TIMEOUT_MS = 30000;
 
 interface HelpSession {
   id: string;
@@ -24,14 +31,69 @@ interface HelpSession {
 const BlindDashboard = () => {
   const navigation = useNavigation();
   const { user, logout } = useAuth();
-  const [isRequestingHelp, setIsRequestingHelp] = useState(false);
+  const { state: callState, send } = useCallState();
+  const [isCheckingSetup, setIsCheckingSetup] = useState(false);
   const [recentHelpers, setRecentHelpers] = useState<HelpSession[]>([]);
   const [helpHistory, setHelpHistory] = useState<HelpSession[]>([]);
 
+  const isRequestingHelp = callState.phase === 'requesting' || callState.phase === 'queued';
+
   useEffect(() => {
     loadHelpHistory();
   }, []);
 
+  // Wait in the queue until a volunteer accepts or we give up. Leaving the
+  // queued phase (e.g. cancelling) stops the wait
+  useEffect(() => {
+    if (callState.phase !== 'queued') return;
+
+    let cancelled = false;
+    const sessionId = callState.sessionId;
+
+    const waitForVolunteer = async () => {
+      const deadline = Date.now() + QUEUE_TIMEOUT_MS;
+
+      while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, QUEUE_POLL_INTERVAL_MS));
+        if (cancelled) return;
+
+        try {
+          const statusResponse = await apiService.getQueueStatus();
+          const queueData = statusResponse.data;
+          if (cancelled) return;
+
+          if (queueData.matchFound && send({ type: 'MATCHED', volunteerName: queueData.volunteerName })) {
+            navigation.navigate('VideoCall', {
+              isBlindUser: true,
+              sessionId,
+              volunteerName: queueData.volunteerName,
+            });
+            return;
+          }
+        } catch (statusError) {
+          console.error('Error checking queue status:', statusError);
+        }
+      }
+
+      if (!cancelled && send({ type: 'FAILED', error: 'No volunteers available at the moment' })) {
+        apiService.cancelMatching().catch(error => {
+          console.error('Error leaving the queue:', error);
+        });
+        Alert.alert(
+          'No Volunteers Available',
+          'No volunteers are available right now. Please try again in a few minutes.',
+          [{ text: 'OK' }]
+        );
+      }
+    };
+
+    waitForVolunteer();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [callState.phase]);
+
   const loadHelpHistory = async () => {
     try {
       const response = await apiService.getCallHistory(20, 0, 'completed', 'blind');
@@ -57,85 +119,141 @@ const BlindDashboard = () => {
     }
   };
 
-  const handleRequestHelp = async () => {
-    setIsRequestingHelp(true);
+  // Said in full before the microphone starts recording
+  const announceCheckStart = async (name: PreflightCheckName) => {
+    if (name === 'echo') {
+      await speechService.speak(
+        'Microphone test. Say a few words now, then listen for them to be played back.'
+      );
+    }
+  };
+
+  // The full "test my setup" check, including a microphone echo test
+  const handleTestSetup = async () => {
+    setIsCheckingSetup(true);
+    speechService.speak('Testing your setup. This takes a few seconds.');
 
     try {
-      // Announce request for accessibility
-      AccessibilityInfo.announceForAccessibility('Requesting help from volunteers');
+      const report = await runPreflightCheck({ onCheckStart: announceCheckStart });
+      const summary = summarizePreflight(report);
 
+      speechService.speak(summary);
+      Alert.alert(
+        report.passed ? 'Setup Check Passed' : 'Setup Check Failed',
+        summary,
+        [{ text: 'OK' }]
+      );
+    } catch (error) {
+      console.error('Error testing setup:', error);
+      speechService.speak('The setup check could not be completed');
+    } finally {
+      setIsCheckingSetup(false);
+    }
+  };
+
+  // Quick check first, so problems surface before a volunteer is waiting
+  const handleRequestHelp = async (options: HelpRequestOptions = {}) => {
+    setIsCheckingSetup(true);
+
+    try {
+      const report = await runPreflightCheck({ echoTest: false });
+      if (!report.passed) {
+        const summary = summarizePreflight(report);
+        speechService.speak(summary);
+        Alert.alert(
+          'Problem Found',
+          summary,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Request Anyway', onPress: () => requestHelp(options) },
+          ]
+        );
+        return;
+      }
+    } catch (error) {
+      // A broken check shouldn't stop anyone getting help
+      console.error('Error running preflight check:', error);
+    } finally {
+      setIsCheckingSetup(false);
+    }
+
+    await requestHelp(options);
+  };
+
+  // A spoken request can say what kind of help, and in which language
+  const requestHelp = async ({ helpCategory, language }: HelpRequestOptions = {}) => {
+    if (!send({ type: 'REQUEST_HELP' })) return;
+
+    try {
       // Start matching process
       const matchingResponse = await apiService.startMatching({
         userType: 'blind',
+        helpCategory,
+        language,
         preferences: {
           language: user?.preferredLanguage || 'english',
           location: user?.location,
         },
       });
 
-      const { roomId, estimatedWaitTime } = matchingResponse.data;
-
-      // Wait for volunteer to accept (in production, this would use WebSocket)
-      let attempts = 0;
-      const maxAttempts = 30; // 30 seconds max wait
-
-      while (attempts < maxAttempts) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-
-        try {
-          const statusResponse = await apiService.getQueueStatus();
-          const queueData = statusResponse.data;
-
-          if (queueData.matchFound) {
-            AccessibilityInfo.announceForAccessibility('Volunteer found, connecting to video call');
-
-            // Navigate to video call with real session data
-            navigation.navigate('VideoCall', {
-              isBlindUser: true,
-              sessionId: roomId,
-              volunteerName: queueData.volunteerName,
-            });
-            return;
-          }
-        } catch (statusError) {
-          console.error('Error checking queue status:', statusError);
-        }
-
-        attempts++;
-      }
-
-      // If no volunteer found within timeout
-      AccessibilityInfo.announceForAccessibility('No volunteers available at the moment');
-
-      Alert.alert(
-        'No Volunteers Available',
-        'No volunteers are available right now. Please try again in a few minutes.',
-        [{ text: 'OK' }]
-      );
-
+      const { call, estimatedWaitTime } = matchingResponse.data;
+      send({ type: 'QUEUED', sessionId: call.roomId, callId: call.id, estimatedWaitTime });
     } catch (error) {
       console.error('Error requesting help:', error);
-
-      AccessibilityInfo.announceForAccessibility('Failed to connect with volunteer');
+      send({ type: 'FAILED', error: 'Failed to connect with volunteer' });
 
       Alert.alert(
         'Connection Failed',
         'Unable to connect with a volunteer right now. Please try again in a moment.',
         [{ text: 'OK' }]
       );
-    } finally {
-      setIsRequestingHelp(false);
+    }
+  };
+
+  const handleCancelRequest = async () => {
+    if (!send({ type: 'CANCEL' })) return;
+
+    try {
+      await apiService.cancelMatching();
+    } catch (error) {
+      console.error('Error cancelling help request:', error);
+    }
+  };
+
+  const {
+    isListening,
+    isAvailable: isVoiceAvailable,
+    toggleListening,
+  } = useVoiceCommands({
+    actions: {
+      requestHelp: handleRequestHelp,
+      cancelHelpRequest: handleCancelRequest,
+    },
+  });
+
+  // Rating the call that just ended; skipping sends no rating
+  const handleRateCall = async (rating: number | null) => {
+    const { callId } = callState;
+    if (!send({ type: 'RATED' })) return;
+
+    if (rating && callId) {
+      try {
+        await apiService.updateCall(callId, { rating });
+        speechService.speak(`Rated ${rating} stars. Thank you.`);
+      } catch (error) {
+        console.error('Error rating call:', error);
+        speechService.speak('Your rating could not be saved');
+      }
     }
   };
 
   const handleVoiceCommand = () => {
-    // In a real app, this would trigger voice recognition
-    AccessibilityInfo.announceForAccessibility('Voice command activated. Say your command.');
-    Alert.alert(
-      'Voice Commands',
-      'Available commands:\n\n• "Get help" - Request assistance\n• "Show history" - View help history\n• "Rate helper" - Rate last volunteer\n• "End call" - End current call',
-      [{ text: 'OK' }]
-    );
+    if (!isVoiceAvailable) {
+      Alert.alert('Voice Commands', 'Voice recognition is not available on this device.', [{ text: 'OK' }]);
+      return;
+    }
+
+    toggleListening();
   };
 
   const handleRateHelper = (sessionId: string, rating: number) => {
@@ -146,7 +264,7 @@ const BlindDashboard = () => {
       )
     );
 
-    AccessibilityInfo.announceForAccessibility(`Rated helper ${rating} stars`);
+    speechService.speak(`Rated helper ${rating} stars`);
 
     Alert.alert(
       'Thank You!',
@@ -180,7 +298,7 @@ const BlindDashboard = () => {
           style: 'destructive',
           onPress: () => {
             logout();
-            AccessibilityInfo.announceForAccessibility('Signed out successfully');
+            speechService.speak('Signed out successfully');
           },
         },
       ]
@@ -262,8 +380,20 @@ const BlindDashboard = () => {
       textAlign: 'center',
       color: '#b0b0b0',
       fontSize: 14,
+      marginBottom: 16,
+    },
+    testSetupButton: {
+      alignSelf: 'center',
+      paddingHorizontal: 20,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
       marginBottom: 32,
     },
+    cancelRequestButton: {
+      marginTop: 24,
+      marginBottom: 0,
+    },
     section: {
       marginBottom: 32,
     },
@@ -376,10 +506,11 @@ const BlindDashboard = () => {
               onPress={handleVoiceCommand}
               accessible={true}
               accessibilityRole="button"
-              accessibilityLabel="Voice commands"
+              accessibilityLabel={isListening ? 'Stop listening' : 'Voice commands'}
               accessibilityHint="Use voice commands to control the app"
+              accessibilityState={{ selected: isListening }}
             >
-              <Text style={{ fontSize: 20, color: '#ffffff' }}>🎤</Text>
+              <Text style={{ fontSize: 20, color: '#ffffff' }}>{isListening ? '🔴' : '🎤'}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.headerButton}
@@ -400,8 +531,8 @@ const BlindDashboard = () => {
         {/* Request Help Button */}
         <TouchableOpacity
           style={[styles.helpButton, isRequestingHelp && styles.helpButtonPressed]}
-          onPress={handleRequestHelp}
-          disabled={isRequestingHelp}
+          onPress={() => handleRequestHelp()}
+          disabled={callState.phase !== 'idle' || isCheckingSetup}
           accessible={true}
           accessibilityRole="button"
           accessibilityLabel="Request help"
@@ -424,6 +555,62 @@ const BlindDashboard = () => {
           💬 Say "Hey SolSight, get help" to use voice commands
         </Text>
 
+        <TouchableOpacity
+          style={styles.testSetupButton}
+          onPress={handleTestSetup}
+          disabled={isRequestingHelp || isCheckingSetup}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Test my setup"
+          accessibilityHint="Check your camera, microphone and network before calling"
+        >
+          <Text style={styles.actionButtonText}>🔧 Test my setup</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.testSetupButton}
+          onPress={() => navigation.navigate('DirectionCuePractice')}
+          disabled={isRequestingHelp || isCheckingSetup}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Practice direction cues"
+          accessibilityHint="Feel the vibrations a volunteer uses to guide your camera"
+        >
+          <Text style={styles.actionButtonText}>📳 Practice direction cues</Text>
+        </TouchableOpacity>
+
+        {callState.phase === 'rating' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} accessibilityRole="header">
+              How was your call{callState.peerName ? ` with ${callState.peerName}` : ''}?
+            </Text>
+            <View style={styles.helperCard}>
+              <View style={styles.ratingContainer}>
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <TouchableOpacity
+                    key={star}
+                    onPress={() => handleRateCall(star)}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Rate ${star} stars`}
+                  >
+                    <Text style={styles.starButton}>☆</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleRateCall(null)}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel="Skip rating"
+              >
+                <Text style={styles.actionButtonText}>Skip</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Recent Helpers */}
         {recentHelpers.length > 0 && (
           <View style={styles.section}>
@@ -495,9 +682,22 @@ const BlindDashboard = () => {
       </View>
 
       {/* Loading Overlay */}
-      {isRequestingHelp && (
+      {(isRequestingHelp || isCheckingSetup) && (
         <View style={styles.loadingOverlay}>
-          <Text style={styles.loadingText}>Connecting with volunteer...</Text>
+          <Text style={styles.loadingText} accessibilityLiveRegion="polite">
+            {isCheckingSetup ? 'Checking your setup...' : 'Connecting with volunteer...'}
+          </Text>
+          {callState.phase === 'queued' && (
+            <TouchableOpacity
+              style={[styles.testSetupButton, styles.cancelRequestButton]}
+              onPress={handleCancelRequest}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel help request"
+            >
+              <Text style={styles.actionButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
     </View>
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  AccessibilityInfo,
+  StatusBar,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import {
+  CueIntensity,
+  DEFAULT_CUE_PREFERENCES,
+  DirectionCue,
+  DirectionCuePreferences,
+  DIRECTION_CUES,
+  DIRECTION_CUE_DESCRIPTIONS,
+  DIRECTION_CUE_LABELS,
+  directionCuePlayer,
+} from '../services/directionCues';
+
+const INTENSITIES: Array<{ value: CueIntensity; label: string }> = [
+  { value: 'light', label: 'Light' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'strong', label: 'Strong' },
+];
+
+// Lets blind users feel each direction cue before a call, and choose how
+// strong the cues are and whether they come with a sound
+const DirectionCuePracticeScreen = () => {
+  const navigation = useNavigation();
+  const [preferences, setPreferences] = useState<DirectionCuePreferences>(DEFAULT_CUE_PREFERENCES);
+
+  useEffect(() => {
+    directionCuePlayer.getPreferences().then(setPreferences);
+  }, []);
+
+  const practiceCue = async (cue: DirectionCue) => {
+    AccessibilityInfo.announceForAccessibility(DIRECTION_CUE_LABELS[cue]);
+    await directionCuePlayer.play(cue);
+  };
+
+  const changeIntensity = async (intensity: CueIntensity) => {
+    setPreferences(await directionCuePlayer.setPreferences({ intensity }));
+    await directionCuePlayer.play('hold');
+  };
+
+  const toggleEarcons = async () => {
+    const earcons = !preferences.earcons;
+    setPreferences(await directionCuePlayer.setPreferences({ earcons }));
+    AccessibilityInfo.announceForAccessibility(earcons ? 'Sounds on' : 'Sounds off');
+  };
+
+  const resetAnnouncements = async () => {
+    await directionCuePlayer.resetAnnouncements();
+    AccessibilityInfo.announceForAccessibility(
+      'Cues will be spoken again the next few times you get them'
+    );
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: '#0f1419',
+    },
+    header: {
+      paddingTop: StatusBar.currentHeight || 44,
+      paddingHorizontal: 24,
+      paddingBottom: 20,
+      backgroundColor: '#1a1a2e',
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    backButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 16,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: '#ffffff',
+    },
+    content: {
+      paddingHorizontal: 24,
+      paddingVertical: 24,
+    },
+    intro: {
+      fontSize: 16,
+      color: '#b0b0b0',
+      marginBottom: 24,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: '#ffffff',
+      marginBottom: 16,
+    },
+    cueButton: {
+      backgroundColor: 'rgba(255, 255, 255, 0.05)',
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+    },
+    cueLabel: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: '#ffffff',
+      marginBottom: 4,
+    },
+    cueDescription: {
+      fontSize: 14,
+      color: '#b0b0b0',
+    },
+    options: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 24,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 8,
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    optionSelected: {
+      backgroundColor: '#00d4ff',
+    },
+    optionText: {
+      fontSize: 16,
+      color: '#ffffff',
+    },
+    settingButton: {
+      paddingHorizontal: 20,
+      paddingVertical: 14,
+      borderRadius: 8,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      marginBottom: 12,
+    },
+    settingText: {
+      fontSize: 16,
+      color: '#00d4ff',
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Back"
+        >
+          <Text style={{ fontSize: 20, color: '#ffffff' }}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} accessibilityRole="header">Practice cues</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          During a call, your volunteer can guide your camera with vibrations.
+          Tap a cue to feel it. Each cue is also spoken the first few times you get it on a call.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Cues</Text>
+        {DIRECTION_CUES.map(cue => (
+          <TouchableOpacity
+            key={cue}
+            style={styles.cueButton}
+            onPress={() => practiceCue(cue)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${DIRECTION_CUE_LABELS[cue]}: ${DIRECTION_CUE_DESCRIPTIONS[cue]}`}
+            accessibilityHint="Plays this cue"
+          >
+            <Text style={styles.cueLabel}>{DIRECTION_CUE_LABELS[cue]}</Text>
+            <Text style={styles.cueDescription}>{DIRECTION_CUE_DESCRIPTIONS[cue]}</Text>
+          </TouchableOpacity>
+        ))}
+
+        <Text style={styles.sectionTitle}>Strength</Text>
+        <View style={styles.options}>
+          {INTENSITIES.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, preferences.intensity === option.value && styles.optionSelected]}
+              onPress={() => changeIntensity(option.value)}
+              accessible={true}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: preferences.intensity === option.value }}
+            >
+              <Text style={styles.optionText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={styles.settingButton}
+          onPress={toggleEarcons}
+          accessible={true}
+          accessibilityRole="switch"
+          accessibilityLabel="Play a sound with each cue"
+          accessibilityState={{ checked: preferences.earcons }}
+        >
+          <Text style={styles.settingText}>
+            {preferences.earcons ? '🔊 Sounds on' : '🔇 Sounds off'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingButton}
+          onPress={resetAnnouncements}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Speak cues again"
+          accessibilityHint="Cues will be spoken the next few times you get them on a call"
+        >
+          <Text style={styles.settingText}>🗣️ Speak cues again</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+export default DirectionCuePracticeScreen;
@@ -5,16 +5,83 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
-  AccessibilityInfo,
   StatusBar,
   Dimensions,
+  Image,
+  Pressable,
+  GestureResponderEvent,
+  LayoutChangeEvent,
 } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
+import { RTCView } from 'react-native-webrtc';
 import { useAuth } from '../hooks/useAuth';
+import { useWebRTC } from '../hooks/useWebRTC';
+import { useCallState } from '../hooks/useCallState';
+import { useVoiceCommands } from '../hooks/useVoiceCommands';
+import { webrtcService, CallParticipant, SnapshotProgress } from '../services/webrtc';
 import { apiService } from '../services/api';
+import { MediaQualityMode } from '../services/bandwidthAdaptation';
+import {
+  CameraCapabilities,
+  CameraControlRequest,
+  CameraState,
+  NO_CAMERA_CAPABILITIES,
+} from '../services/cameraControl';
+import { Snapshot, snapshotStore, snapshotUri } from '../services/snapshots';
+import { DirectionCue, directionCuePlayer } from '../services/directionCues';
+import { Annotation, describeAnnotationPosition, MAX_ANNOTATIONS } from '../services/annotations';
+import { isInCall } from '../services/callState';
+import { FrameView, createViewCapturer, setFrameCapturer } from '../services/frameCapture';
+import { speechService } from '../services/speech';
+import CameraControlsPanel from '../components/call/CameraControlsPanel';
+import SnapshotViewer from '../components/call/SnapshotViewer';
+import RemoteParticipantStrip from '../components/call/RemoteParticipantStrip';
+import TransferCallSheet, { TransferRequest } from '../components/call/TransferCallSheet';
+import DirectionPad from '../components/call/DirectionPad';
+import AnnotationOverlay from '../components/call/AnnotationOverlay';
+import AnnotationCanvas from '../components/call/AnnotationCanvas';
+import FrameCaptureView from '../components/call/FrameCaptureView';
+import { MAX_ROOM_PARTICIPANTS } from '../shared/signaling';
 
 const { width, height } = Dimensions.get('window');
 
+// react-native-webrtc streams carry a URL that RTCView renders from
+const toStreamURL = (stream: MediaStream): string =>
+  (stream as unknown as { toURL: () => string }).toURL();
+
+const MEDIA_MODE_ANNOUNCEMENTS: Record<MediaQualityMode, string> = {
+  full: 'Connection improved. Full video restored.',
+  reduced: 'Weak connection. Video quality lowered to keep the call going.',
+  audio_only: 'Very weak connection. Switched to audio only. Photos from your camera will be sent to your volunteer every few seconds, so hold the phone steady.',
+};
+
+const MEDIA_MODE_LABELS: Record<MediaQualityMode, string> = {
+  full: 'HD',
+  reduced: 'Low bandwidth',
+  audio_only: 'Audio + stills',
+};
+
+// How loud the other side stays while the app speaks over the call
+const DUCKED_CALL_VOLUME = 0.3;
+
+const SCREEN_SHARE_WARNING = 'Your volunteer will see everything on your screen, including notifications, messages and anything you type, such as passwords. Stop sharing before opening anything private.';
+
+// Spoken on the blind user's device whenever the volunteer changes their camera
+const describeCameraControl = (request: CameraControlRequest, applied: boolean): string => {
+  if (!applied) {
+    return 'Your volunteer tried to adjust your camera, but this phone does not support it.';
+  }
+
+  switch (request.control) {
+    case 'torch':
+      return request.on ? 'Volunteer turned your flashlight on' : 'Volunteer turned your flashlight off';
+    case 'zoom':
+      return `Volunteer zoomed your camera to ${request.level.toFixed(1)} times`;
+    case 'focus':
+      return 'Volunteer refocused your camera. Hold still for a moment.';
+  }
+};
+
 interface VideoCallScreenProps {
   // Props will be passed via navigation route params
 }
@@ -23,22 +90,346 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
   const route = useRoute();
   const navigation = useNavigation();
   const { user } = useAuth();
-  const { isBlindUser, sessionId, userName, volunteerName } = route.params || {};
+  const { state: callState, send, store: callStateStore } = useCallState();
+  // Voice commands carry on during the call, e.g. "end call"
+  const {
+    isListening,
+    isAvailable: isVoiceAvailable,
+    toggleListening,
+  } = useVoiceCommands();
+  const {
+    isBlindUser,
+    isInvitedHelper,
+    isTransferTarget,
+    sessionId,
+    userName,
+    volunteerName,
+  } = route.params || {};
 
-  const [isConnected, setIsConnected] = useState(false);
+  // The call's own status comes from the shared call state machine
+  const isConnected = callState.phase === 'connected' || callState.phase === 'reconnecting';
+  const isReconnecting = callState.phase === 'reconnecting';
+  const [connectionStatus, setConnectionStatus] = useState('Connecting...');
   const [isMuted, setIsMuted] = useState(false);
   const [isSpeakerOn, setIsSpeakerOn] = useState(false);
-  const [isFrontCamera, setIsFrontCamera] = useState(true);
+  const [isVideoEnabled, setIsVideoEnabled] = useState(true);
+  // Blind users start on the rear camera; synced with the service once media is up
+  const [isFrontCamera, setIsFrontCamera] = useState(!isBlindUser);
   const [callDuration, setCallDuration] = useState(0);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [mediaMode, setMediaMode] = useState<MediaQualityMode>('full');
+  const [remoteMediaMode, setRemoteMediaMode] = useState<MediaQualityMode>('full');
+  const [remoteStill, setRemoteStill] = useState<string | null>(null);
+  const [remoteCameraCapabilities, setRemoteCameraCapabilities] =
+    useState<CameraCapabilities>(NO_CAMERA_CAPABILITIES);
+  const [remoteCameraState, setRemoteCameraState] = useState<CameraState>({ torch: false, zoom: null });
+  const [remoteVideoSize, setRemoteVideoSize] = useState({ width, height });
+  const [snapshotProgress, setSnapshotProgress] = useState<SnapshotProgress | null>(null);
+  const [viewedSnapshotUri, setViewedSnapshotUri] = useState<string | null>(null);
+  const [sentSnapshot, setSentSnapshot] = useState<Snapshot | null>(null);
+  const [isSnapshotKept, setIsSnapshotKept] = useState(false);
+  const [participants, setParticipants] = useState<CallParticipant[]>([]);
+  const [isInvitingHelper, setIsInvitingHelper] = useState(false);
+  // Helpers and incoming transfer volunteers leave without ending the call,
+  // until a handover makes them the call's volunteer
+  const [isAdditionalHelper, setIsAdditionalHelper] = useState(Boolean(isInvitedHelper || isTransferTarget));
+  const [isTransferSheetVisible, setIsTransferSheetVisible] = useState(false);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  // A still of the blind user's camera that annotations are drawn on
+  const [annotationFrameUri, setAnnotationFrameUri] = useState<string | null>(null);
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  // The main view shows someone's screen rather than their camera
+  const [isRemoteScreenShare, setIsRemoteScreenShare] = useState(false);
+  const [transfer, setTransfer] = useState<{
+    status: 'searching' | 'waiting' | 'ready' | 'handing_over';
+    volunteerId?: string;
+    volunteerName?: string;
+  } | null>(null);
 
   const callTimerRef = useRef<NodeJS.Timeout>();
+  const hasEndedRef = useRef(false);
+  // Who each participant was, for announcing them after they have left
+  const participantTypesRef = useRef<Record<string, CallParticipant['userType']>>({});
+  const isAdditionalHelperRef = useRef(isAdditionalHelper);
+  isAdditionalHelperRef.current = isAdditionalHelper;
+  const frameViewRef = useRef<FrameView | null>(null);
+
+  // Subscriptions are disposed on unmount without touching other subscribers
+  useWebRTC({
+    // The main view shows the blind user's camera, or for them the first helper
+    remoteStream: () => {
+      setRemoteStream(webrtcService.remoteVideoStream);
+    },
+
+    participantsChange: (current) => {
+      current.forEach(participant => {
+        participantTypesRef.current[participant.userId] = participant.userType;
+      });
+      setParticipants(current);
+      setRemoteStream(webrtcService.remoteVideoStream);
+    },
+
+    connected: (userId) => {
+      if (transfer && userId === transfer.volunteerId) {
+        setTransfer({ ...transfer, status: 'ready' });
+        speechService.speak(
+          `${transfer.volunteerName || 'The new volunteer'} has joined. Hand over the call when you are ready.`,
+          { priority: 'urgent' }
+        );
+        return;
+      }
+
+      // A second helper joining doesn't change the call's own status
+      if (userId !== webrtcService.remotePeer) {
+        speechService.speak(
+          participantTypesRef.current[userId] === 'blind'
+            ? 'The caller is connected'
+            : 'Another helper joined the call',
+          { priority: 'urgent' }
+        );
+        return;
+      }
+
+      setConnectionStatus('Connected');
+      send({ type: 'CONNECTED' });
+    },
+
+    reconnecting: (userId) => {
+      // Other participants' tiles show their own reconnecting state
+      if (userId !== webrtcService.remotePeer) return;
+
+      setConnectionStatus('Reconnecting...');
+      send({ type: 'INTERRUPTED' });
+    },
+
+    // Only fired once recovery has given up and the call has been ended
+    disconnected: () => {
+      if (hasEndedRef.current) return;
+      hasEndedRef.current = true;
+
+      setConnectionStatus('Connection lost');
+      send({ type: 'ENDED', reason: 'connection_lost' });
+      navigation.goBack();
+    },
+
+    peerJoined: async () => {
+      setConnectionStatus(isBlindUser ? 'Volunteer joined, connecting...' : 'Connecting...');
+
+      // The blind user's device makes the offer once the volunteer is in the
+      // room; helpers who join later are offered to by the service itself
+      if (isBlindUser) {
+        try {
+          await webrtcService.startCall();
+        } catch (error) {
+          console.error('Error starting call:', error);
+        }
+      }
+    },
+
+    callHandover: (fromUserId, toUserId, callId) => {
+      if (callId) {
+        send({ type: 'CALL_ID_CHANGED', callId });
+      }
+
+      if (toUserId === user?.id) {
+        setIsAdditionalHelper(false);
+        speechService.speak('The call has been handed over to you', { priority: 'urgent' });
+      } else if (isBlindUser) {
+        speechService.speak(
+          'Your volunteer has handed the call over to a new volunteer, who is already with you',
+          { priority: 'urgent' }
+        );
+      }
+    },
+
+    peerLeft: (userId) => {
+      if (transfer && userId === transfer.volunteerId) {
+        setTransfer(null);
+        Alert.alert('Transfer Failed', 'The new volunteer left before the handover. You are still on the call.');
+      }
+
+      speechService.speak(
+        participantTypesRef.current[userId] === 'blind'
+          ? 'The caller left the call'
+          : 'A helper left the call',
+        { priority: 'urgent' }
+      );
+    },
+
+    roomStatus: (status) => {
+      if (status === 'ended' && !hasEndedRef.current) {
+        hasEndedRef.current = true;
+        webrtcService.cleanup();
+        send({ type: 'ENDED', reason: 'remote_ended' });
+        navigation.goBack();
+      }
+    },
+
+    mediaModeChange: (mode) => {
+      setMediaMode(mode);
+      if (isBlindUser) {
+        speechService.speak(MEDIA_MODE_ANNOUNCEMENTS[mode], { priority: 'urgent' });
+      }
+    },
+
+    remoteMediaModeChange: (mode, fromUserId) => {
+      // Stills only replace the main view's video
+      if (fromUserId !== webrtcService.remotePeer) return;
+
+      setRemoteMediaMode(mode);
+      if (mode !== 'audio_only') {
+        setRemoteStill(null);
+      }
+    },
+
+    remoteStill: (imageUri, fromUserId) => {
+      if (fromUserId !== webrtcService.remotePeer) return;
+      setRemoteStill(imageUri);
+    },
+
+    remoteCameraCapabilities: (capabilities) => {
+      setRemoteCameraCapabilities(capabilities);
+    },
+
+    remoteCameraState: (state) => {
+      setRemoteCameraState(state);
+    },
+
+    cameraControl: (request, applied) => {
+      speechService.speak(describeCameraControl(request, applied));
+    },
+
+    snapshotRequested: () => {
+      speechService.speak(
+        'Your volunteer is taking a photo. Hold the phone still.'
+      );
+    },
+
+    directionCue: async (cue) => {
+      await directionCuePlayer.play(cue);
+      // Spoken only until the patterns have been learned
+      const announcement = await directionCuePlayer.takeAnnouncement(cue);
+      if (announcement) {
+        speechService.speak(announcement);
+      }
+    },
+
+    annotation: (annotation) => {
+      setAnnotations(current => [...current, annotation].slice(-MAX_ANNOTATIONS));
+      if (isBlindUser) {
+        speechService.speak(`Look at the ${describeAnnotationPosition(annotation)}`);
+      }
+    },
+
+    annotationsCleared: () => {
+      setAnnotations([]);
+    },
+
+    annotationFrame: (imageUri) => {
+      setAnnotationFrameUri(imageUri);
+      if (isBlindUser) {
+        speechService.speak(imageUri
+          ? 'Your volunteer paused the picture to point something out'
+          : 'Back to live video');
+      }
+    },
+
+    screenShareChange: (active) => {
+      setIsScreenSharing(active);
+      speechService.speak(active
+        ? 'Screen sharing started. Your volunteer can see your screen.'
+        : 'Screen sharing stopped. Your volunteer sees your camera again.');
+    },
+
+    remoteScreenShareChange: (active, fromUserId) => {
+      if (fromUserId !== webrtcService.remotePeer) return;
+      setIsRemoteScreenShare(active);
+      // Annotations were drawn on the camera picture, which is now gone
+      if (active) {
+        setIsAnnotating(false);
+        setAnnotations([]);
+      }
+    },
+
+    snapshotProgress: (progress) => {
+      setSnapshotProgress(progress);
+    },
+
+    snapshotSent: (snapshot) => {
+      setSnapshotProgress(null);
+      setSentSnapshot(snapshot);
+      setIsSnapshotKept(false);
+      speechService.speak(
+        'Photo sent. It will be deleted when the call ends unless you choose Keep photo.'
+      );
+    },
+
+    snapshotReceived: (snapshot) => {
+      setSnapshotProgress(null);
+      setViewedSnapshotUri(snapshotUri(snapshot));
+    },
+
+    snapshotFailed: (reason) => {
+      setSnapshotProgress(null);
+      if (isBlindUser) {
+        speechService.speak('The photo could not be taken');
+      } else {
+        Alert.alert('Snapshot Failed', `Could not get a photo from their camera: ${reason}`);
+      }
+    },
+
+    error: (error) => {
+      console.error('Call error:', error);
+
+      if (error.code === 'room_full' && !hasEndedRef.current) {
+        hasEndedRef.current = true;
+        webrtcService.cleanup();
+        send({ type: 'FAILED', error: 'This call is already full' });
+        Alert.alert(
+          'Call Full',
+          'Enough helpers have already joined this call.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+      }
+    },
+  });
 
   useEffect(() => {
     initializeCall();
     return () => {
-      endCall();
+      if (!hasEndedRef.current) {
+        hasEndedRef.current = true;
+        if (isAdditionalHelperRef.current) {
+          webrtcService.leaveCall();
+        } else {
+          webrtcService.endCall('user_left_screen');
+        }
+      }
+      // Leaving the screen always leaves the call
+      if (isInCall(callStateStore.state.phase)) {
+        callStateStore.send({ type: 'ENDED', reason: isAdditionalHelperRef.current ? 'left' : 'hung_up' });
+      }
+    };
+  }, []);
+
+  // Photos, snapshots and annotation frames are taken from the camera's own
+  // frames, not the preview
+  useEffect(() => {
+    setFrameCapturer(createViewCapturer(() => frameViewRef.current));
+    return () => setFrameCapturer(null);
+  }, []);
+
+  // Turn the call down while the app speaks, so announcements and voice
+  // command responses can be heard over it
+  useEffect(() => {
+    const unsubscribe = speechService.subscribe(isSpeaking => {
+      webrtcService.setRemoteAudioVolume(isSpeaking ? DUCKED_CALL_VOLUME : 1);
+    });
+    return () => {
+      unsubscribe();
+      webrtcService.setRemoteAudioVolume(1);
     };
   }, []);
 
@@ -60,39 +451,30 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
     };
   }, [isConnected]);
 
+
   const initializeCall = async () => {
     try {
-      AccessibilityInfo.announceForAvailabilityChange('Initializing video call...');
-
-      // Get ICE servers for WebRTC connection
-      const iceResponse = await apiService.getICEServers();
-      const iceServers = iceResponse.data?.iceServers || [];
+      speechService.speak('Initializing video call...');
 
-      // Get room information for this session
-      const roomResponse = await apiService.getRoomInfo(sessionId);
-      const roomInfo = roomResponse.data;
-
-      if (!roomInfo) {
+      if (!sessionId || !user?.id) {
         throw new Error('Invalid session ID');
       }
 
-      // In a real app, this would:
-      // 1. Request camera and microphone permissions
-      // 2. Initialize WebRTC peer connection with ICE servers
-      // 3. Connect to WebSocket signaling server
-      // 4. Join the room with sessionId
-      // 5. Exchange ICE candidates and SDP offers
-      // 6. Establish media streams
-
-      // For now, simulate the WebRTC connection setup
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Request media, create the peer connection and connect to signaling
+      await webrtcService.initialize(user.id, isBlindUser ? 'blind' : 'volunteer');
+      setLocalStream(webrtcService.localVideoStream);
+      setIsFrontCamera(webrtcService.activeCameraFacing === 'user');
 
-      setIsConnected(true);
-      AccessibilityInfo.announceForAvailabilityChange('Call connected successfully');
+      // Join the room for this session; the offer follows once both sides are in
+      await webrtcService.joinRoom(sessionId, callStateStore.state.callId);
+      setConnectionStatus(isBlindUser ? 'Waiting for volunteer...' : 'Connecting...');
 
     } catch (error) {
       console.error('Error initializing call:', error);
-      AccessibilityInfo.announceForAvailabilityChange('Failed to connect call');
+
+      hasEndedRef.current = true;
+      webrtcService.cleanup();
+      send({ type: 'FAILED', error: 'Failed to connect call' });
 
       Alert.alert(
         'Connection Failed',
@@ -104,24 +486,28 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
     }
   };
 
-  const endCall = async () => {
-    setIsConnected(false);
-
-    try {
-      // Call API to end the call and record duration
-      if (sessionId) {
-        await apiService.endCall(sessionId, null, null, 'user_ended');
-      }
-    } catch (error) {
-      console.error('Error ending call:', error);
+  // Hanging up can also come from a voice command, so the teardown follows
+  // the call state into ending rather than the button itself
+  useEffect(() => {
+    if (callState.phase === 'ending' && !hasEndedRef.current) {
+      finishCall();
     }
+  }, [callState.phase]);
 
-    // Clean up WebRTC resources
-    if (localStream) {
-      localStream.getTracks().forEach(track => track.stop());
-    }
-    if (remoteStream) {
-      remoteStream.getTracks().forEach(track => track.stop());
+  const endCall = () => {
+    if (hasEndedRef.current) return;
+    send({ type: 'HANG_UP' });
+  };
+
+  const finishCall = async () => {
+    hasEndedRef.current = true;
+
+    // An invited helper leaves without ending the call for the others.
+    // Otherwise this notifies everyone, records the call end and releases media
+    if (isAdditionalHelper) {
+      await webrtcService.leaveCall();
+    } else {
+      await webrtcService.endCall('user_ended');
     }
 
     // Stop timer
@@ -129,30 +515,220 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
       clearInterval(callTimerRef.current);
     }
 
-    AccessibilityInfo.announceForAvailabilityChange('Call ended');
+    send({ type: 'ENDED', reason: isAdditionalHelper ? 'left' : 'hung_up' });
 
     // Navigate back
     navigation.goBack();
   };
 
+  const handleVoiceCommand = () => {
+    if (!isVoiceAvailable) {
+      Alert.alert('Voice Commands', 'Voice recognition is not available on this device.', [{ text: 'OK' }]);
+      return;
+    }
+
+    toggleListening();
+  };
+
   const toggleMute = () => {
-    setIsMuted(!isMuted);
-    AccessibilityInfo.announceForAvailabilityChange(
-      isMuted ? 'Microphone unmuted' : 'Microphone muted'
+    const muted = !isMuted;
+    webrtcService.toggleAudio(!muted);
+    setIsMuted(muted);
+    speechService.speak(
+      muted ? 'Microphone muted' : 'Microphone unmuted'
+    );
+  };
+
+  const toggleSpeaker = async () => {
+    const speakerOn = !isSpeakerOn;
+    await webrtcService.setSpeakerphone(speakerOn);
+    setIsSpeakerOn(speakerOn);
+    speechService.speak(
+      speakerOn ? 'Speaker on' : 'Speaker off'
+    );
+  };
+
+  const toggleVideo = () => {
+    const enabled = !isVideoEnabled;
+    webrtcService.toggleVideo(enabled);
+    setIsVideoEnabled(enabled);
+    speechService.speak(
+      enabled ? 'Camera on' : 'Camera off'
+    );
+  };
+
+  const toggleCamera = async () => {
+    const facing = await webrtcService.switchCamera();
+    setIsFrontCamera(facing === 'user');
+    // Announce the camera actually in use, in case the switch failed
+    speechService.speak(
+      facing === 'user' ? 'Front camera on' : 'Back camera on'
     );
   };
 
-  const toggleSpeaker = () => {
-    setIsSpeakerOn(!isSpeakerOn);
-    AccessibilityInfo.announceForAvailabilityChange(
-      isSpeakerOn ? 'Speaker off' : 'Speaker on'
+  const setRemoteTorch = (on: boolean) => {
+    webrtcService.requestCameraControl({ control: 'torch', on });
+  };
+
+  const setRemoteZoom = (level: number) => {
+    webrtcService.requestCameraControl({ control: 'zoom', level });
+  };
+
+  // Tap-to-focus on the blind user's camera, in coordinates normalized to the view
+  const focusRemoteCamera = (event: GestureResponderEvent) => {
+    if (isBlindUser || !remoteCameraCapabilities.focus) return;
+
+    const { locationX, locationY } = event.nativeEvent;
+    webrtcService.requestCameraControl({
+      control: 'focus',
+      x: locationX / remoteVideoSize.width,
+      y: locationY / remoteVideoSize.height,
+    });
+  };
+
+  const sendDirectionCue = (cue: DirectionCue) => {
+    webrtcService.sendDirectionCue(cue);
+  };
+
+  const sendAnnotation = (annotation: Annotation) => {
+    webrtcService.sendAnnotation(annotation);
+    setAnnotations(current => [...current, annotation].slice(-MAX_ANNOTATIONS));
+  };
+
+  const clearAnnotations = () => {
+    webrtcService.clearAnnotations();
+    setAnnotations([]);
+  };
+
+  const toggleAnnotationFrame = () => {
+    if (annotationFrameUri) {
+      webrtcService.resumeAnnotationFrame();
+    } else {
+      webrtcService.freezeAnnotationFrame();
+    }
+  };
+
+  // Leaving annotation mode takes everything down on both sides
+  const toggleAnnotating = () => {
+    if (isAnnotating) {
+      clearAnnotations();
+      if (annotationFrameUri) {
+        webrtcService.resumeAnnotationFrame();
+      }
+    }
+    setIsAnnotating(!isAnnotating);
+  };
+
+  const startScreenShare = async () => {
+    try {
+      await webrtcService.startScreenShare();
+    } catch (error) {
+      console.error('Error starting screen share:', error);
+      Alert.alert(
+        'Screen Sharing Failed',
+        error instanceof Error ? error.message : 'Screen sharing could not be started.'
+      );
+    }
+  };
+
+  // Sharing shows everything on the phone, so the warning is always spoken first
+  const toggleScreenShare = () => {
+    if (isScreenSharing) {
+      webrtcService.stopScreenShare();
+      return;
+    }
+
+    speechService.speak(SCREEN_SHARE_WARNING);
+    Alert.alert(
+      'Share Your Screen?',
+      SCREEN_SHARE_WARNING,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Share Screen', onPress: startScreenShare },
+      ]
     );
   };
 
-  const toggleCamera = () => {
-    setIsFrontCamera(!isFrontCamera);
-    AccessibilityInfo.announceForAvailabilityChange(
-      isFrontCamera ? 'Switching to back camera' : 'Switching to front camera'
+  const requestSnapshot = () => {
+    if (snapshotProgress) return;
+    setSnapshotProgress({ direction: 'receiving', completed: 0, total: 1 });
+    webrtcService.requestSnapshot();
+  };
+
+  // Bring in a second helper, e.g. someone who speaks the caller's language
+  const inviteHelper = async () => {
+    if (isInvitingHelper) return;
+    setIsInvitingHelper(true);
+
+    try {
+      const result = await apiService.inviteHelper(sessionId);
+      const helperName = result.data?.helper?.firstName || 'A helper';
+      speechService.speak(`${helperName} has been invited to the call`);
+      Alert.alert('Helper Invited', `${helperName} has been asked to join this call.`);
+    } catch (error) {
+      console.error('Error inviting helper:', error);
+      Alert.alert(
+        'Invite Failed',
+        error instanceof Error ? error.message : 'No other helper is available right now.'
+      );
+    } finally {
+      setIsInvitingHelper(false);
+    }
+  };
+
+  // Warm transfer: find a new volunteer while this one stays on the call
+  const requestTransfer = async (request: TransferRequest) => {
+    setIsTransferSheetVisible(false);
+    setTransfer({ status: 'searching' });
+
+    try {
+      const result = await apiService.requestTransfer(sessionId, request);
+      const volunteer = result.data?.volunteer;
+      setTransfer({ status: 'waiting', volunteerId: volunteer?.id, volunteerName: volunteer?.firstName });
+      speechService.speak(
+        `${volunteer?.firstName || 'A new volunteer'} has been asked to take over. Stay on the call until they join.`
+      );
+    } catch (error) {
+      console.error('Error requesting transfer:', error);
+      setTransfer(null);
+      Alert.alert(
+        'Transfer Failed',
+        error instanceof Error ? error.message : 'No other volunteer is available right now.'
+      );
+    }
+  };
+
+  // The new volunteer is on the call; record the handover and leave
+  const completeTransfer = async () => {
+    if (!transfer?.volunteerId || transfer.status !== 'ready' || hasEndedRef.current) return;
+    setTransfer({ ...transfer, status: 'handing_over' });
+
+    let callId: string | null = null;
+    try {
+      const result = await apiService.completeTransfer(sessionId);
+      callId = result.data?.callId || null;
+    } catch (error) {
+      console.error('Error completing transfer:', error);
+      setTransfer({ ...transfer, status: 'ready' });
+      Alert.alert('Transfer Failed', 'The handover could not be recorded. Please try again.');
+      return;
+    }
+
+    hasEndedRef.current = true;
+    send({ type: 'HANG_UP' });
+    await webrtcService.handOverCall(transfer.volunteerId, callId);
+
+    send({ type: 'ENDED', reason: 'handed_over' });
+    navigation.goBack();
+  };
+
+  const toggleKeepSnapshot = () => {
+    if (!sentSnapshot) return;
+    const keep = !isSnapshotKept;
+    snapshotStore.setKeep(sentSnapshot.id, keep);
+    setIsSnapshotKept(keep);
+    speechService.speak(
+      keep ? 'Photo will be saved after the call' : 'Photo will be deleted after the call'
     );
   };
 
@@ -163,6 +739,21 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
   };
 
   const displayName = isBlindUser ? volunteerName : userName;
+  const primaryPeer = webrtcService.remotePeer;
+  const otherParticipants = participants.filter(participant => participant.userId !== primaryPeer);
+  // Camera controls, cues and annotations make no sense over a shared screen
+  const showCameraTools = !isBlindUser && isConnected && !isRemoteScreenShare;
+  const canInviteHelper = !isBlindUser && !isAdditionalHelper && isConnected && !transfer &&
+    participants.length + 1 < MAX_ROOM_PARTICIPANTS;
+  // The handover needs a free seat for the incoming volunteer
+  const canTransfer = canInviteHelper;
+
+  const TRANSFER_LABELS = {
+    searching: '🔀 Finding volunteer...',
+    waiting: `🔀 Waiting for ${transfer?.volunteerName || 'volunteer'}...`,
+    ready: `🔀 Hand over to ${transfer?.volunteerName || 'volunteer'}`,
+    handing_over: '🔀 Handing over...',
+  };
 
   const styles = StyleSheet.create({
     container: {
@@ -175,6 +766,10 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
       justifyContent: 'center',
       alignItems: 'center',
     },
+    videoStream: {
+      width: '100%',
+      height: '100%',
+    },
     remoteVideoPlaceholder: {
       justifyContent: 'center',
       alignItems: 'center',
@@ -194,10 +789,47 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
       fontSize: 16,
       color: '#b0b0b0',
     },
-    localVideo: {
+    reconnectingBanner: {
+      position: 'absolute',
+      top: 40,
+      left: 20,
+      right: 20,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: 'rgba(245, 158, 11, 0.9)',
+      alignItems: 'center',
+    },
+    reconnectingText: {
+      fontSize: 16,
+      color: '#000000',
+      fontWeight: '600',
+    },
+    leftOverlay: {
+      position: 'absolute',
+      top: 100,
+      left: 20,
+      alignItems: 'flex-start',
+      gap: 10,
+    },
+    rightOverlay: {
       position: 'absolute',
       top: 100,
       right: 20,
+      alignItems: 'flex-end',
+      gap: 10,
+    },
+    mediaModeBadge: {
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    mediaModeText: {
+      fontSize: 12,
+      color: '#f59e0b',
+      fontWeight: '600',
+    },
+    localVideo: {
       width: 120,
       height: 160,
       backgroundColor: '#1a1a2e',
@@ -206,6 +838,7 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
       borderColor: '#00d4ff',
       justifyContent: 'center',
       alignItems: 'center',
+      overflow: 'hidden',
     },
     controlsContainer: {
       position: 'absolute',
@@ -262,64 +895,364 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
       justifyContent: 'center',
       alignItems: 'center',
       backgroundColor: 'rgba(255, 255, 255, 0.1)',
-      position: 'absolute',
-      top: 100,
-      left: 20,
     },
     helpText: {
       fontSize: 12,
       color: '#ffffff',
     },
+    snapshotButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 22,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    snapshotButtonText: {
+      fontSize: 14,
+      color: '#ffffff',
+      fontWeight: '600',
+    },
+    inviteButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 22,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    annotationBackdrop: {
+      ...StyleSheet.absoluteFillObject,
+    },
+    annotationToolbar: {
+      flexDirection: 'row',
+    },
+    annotationButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      marginRight: 8,
+      borderRadius: 22,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    screenShareButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 22,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+    transferButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 22,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
   });
 
   return (
     <View style={styles.container}>
       <StatusBar hidden={true} />
 
+      {/* Behind everything else: what photos are taken from */}
+      <FrameCaptureView ref={frameViewRef} stream={localStream} />
+
       {/* Remote Video Stream */}
-      <View style={styles.remoteVideo}>
-        {!isConnected ? (
+      <View
+        style={styles.remoteVideo}
+        onLayout={(event: LayoutChangeEvent) => setRemoteVideoSize(event.nativeEvent.layout)}
+      >
+        {isConnected && remoteMediaMode === 'audio_only' && remoteStill ? (
+          <Image
+            source={{ uri: remoteStill }}
+            style={styles.videoStream}
+            resizeMode="contain"
+            accessible={true}
+            accessibilityLabel="Latest photo from the camera while video is paused"
+          />
+        ) : isConnected && remoteStream ? (
+          <Pressable
+            style={styles.videoStream}
+            onPress={focusRemoteCamera}
+            disabled={!showCameraTools || !remoteCameraCapabilities.focus}
+            accessible={true}
+            accessibilityLabel={isRemoteScreenShare
+              ? `Screen shared by ${displayName || 'the other participant'}`
+              : `Video from ${displayName || 'the other participant'}`}
+            accessibilityHint={showCameraTools && remoteCameraCapabilities.focus
+              ? 'Tap to focus their camera on that spot'
+              : undefined}
+          >
+            {/* A shared phone screen is tall and full of small text: show all of it */}
+            <RTCView
+              streamURL={toStreamURL(remoteStream)}
+              style={styles.videoStream}
+              objectFit={isRemoteScreenShare ? 'contain' : 'cover'}
+              zOrder={0}
+            />
+          </Pressable>
+        ) : (
           <View style={styles.remoteVideoPlaceholder}>
             <Text style={styles.avatarText}>
               {displayName?.charAt(0)?.toUpperCase() || '?'}
             </Text>
             <Text style={styles.remoteName}>{displayName || 'Connecting...'}</Text>
-            <Text style={styles.connectionStatus}>
-              {!isConnected ? 'Connecting...' : 'Connected'}
+            <Text
+              style={styles.connectionStatus}
+              accessibilityLiveRegion="polite"
+            >
+              {connectionStatus}
             </Text>
           </View>
+        )}
+
+        {isConnected && annotationFrameUri && (
+          <Image
+            source={{ uri: annotationFrameUri }}
+            style={styles.annotationBackdrop}
+            resizeMode="cover"
+            accessible={true}
+            accessibilityLabel="Paused picture from the camera"
+          />
+        )}
+
+        {/* Low-vision users see annotations over their own camera */}
+        {isBlindUser && isConnected && !annotationFrameUri && annotations.length > 0 && localStream && (
+          <RTCView
+            streamURL={toStreamURL(localStream)}
+            style={styles.annotationBackdrop}
+            objectFit="cover"
+            zOrder={0}
+          />
+        )}
+
+        {showCameraTools && isAnnotating ? (
+          <AnnotationCanvas
+            annotations={annotations}
+            size={remoteVideoSize}
+            onAnnotation={sendAnnotation}
+          />
         ) : (
-          // In a real app, this would render the remote video stream
-          <View style={styles.remoteVideoPlaceholder}>
-            <Text style={styles.connectionStatus}>Video stream active</Text>
-          </View>
+          <AnnotationOverlay annotations={annotations} size={remoteVideoSize} />
         )}
       </View>
 
-      {/* Local Video (Picture-in-Picture) */}
-      <View style={styles.localVideo}>
-        <Text style={styles.avatarText}>
-          {user?.name?.charAt(0)?.toUpperCase() || 'Y'}
-        </Text>
+      <TransferCallSheet
+        visible={isTransferSheetVisible}
+        onSubmit={requestTransfer}
+        onCancel={() => setIsTransferSheetVisible(false)}
+      />
+
+      {isConnected && <RemoteParticipantStrip participants={otherParticipants} />}
+
+      <SnapshotViewer
+        imageUri={viewedSnapshotUri}
+        onClose={() => setViewedSnapshotUri(null)}
+      />
+
+      {isReconnecting && (
+        <View style={styles.reconnectingBanner} accessibilityLiveRegion="assertive">
+          <Text style={styles.reconnectingText}>Reconnecting...</Text>
+        </View>
+      )}
+
+      {/* Overlay controls, stacked down each side */}
+      <View style={styles.leftOverlay} pointerEvents="box-none">
+        {/* Accessibility Help Button */}
+        <TouchableOpacity
+          style={styles.accessibilityButton}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="Accessibility help"
+          accessibilityHint="Get help with call controls"
+          onPress={() => {
+            Alert.alert(
+              'Call Controls',
+              'Available controls:\n\n• Mute/Unmute microphone\n• Toggle speaker\n• Turn camera on or off\n• Switch camera\n• End call\n\nVoice commands are also available during calls.',
+              [{ text: 'OK' }]
+            );
+          }}
+        >
+          <Text style={styles.helpText}>?</Text>
+        </TouchableOpacity>
+
+        {isBlindUser && (
+          <TouchableOpacity
+            style={[styles.accessibilityButton, isListening && styles.controlButtonActive]}
+            onPress={handleVoiceCommand}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={isListening ? 'Stop listening' : 'Voice commands'}
+            accessibilityHint="Say a command, such as end call"
+            accessibilityState={{ selected: isListening }}
+          >
+            <Text style={styles.controlButtonText}>{isListening ? '🔴' : '🎙️'}</Text>
+          </TouchableOpacity>
+        )}
+
+        {showCameraTools && (
+          <CameraControlsPanel
+            capabilities={remoteCameraCapabilities}
+            state={remoteCameraState}
+            onTorchChange={setRemoteTorch}
+            onZoomChange={setRemoteZoom}
+          />
+        )}
+
+        {showCameraTools && (
+          <TouchableOpacity
+            style={styles.snapshotButton}
+            onPress={requestSnapshot}
+            disabled={snapshotProgress !== null}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Take a high resolution photo"
+            accessibilityHint="Get a sharp photo from their camera for reading small print"
+          >
+            <Text style={styles.snapshotButtonText} accessibilityLiveRegion="polite">
+              {snapshotProgress
+                ? `📸 Receiving ${Math.round((snapshotProgress.completed / snapshotProgress.total) * 100)}%`
+                : '📸 Snapshot'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {isBlindUser && (snapshotProgress || sentSnapshot) && (
+          <TouchableOpacity
+            style={[styles.snapshotButton, isSnapshotKept && styles.controlButtonActive]}
+            onPress={toggleKeepSnapshot}
+            disabled={!sentSnapshot}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={isSnapshotKept ? "Don't keep photo" : "Keep photo"}
+            accessibilityHint="Choose whether the last photo is saved after the call"
+            accessibilityState={{ checked: isSnapshotKept }}
+          >
+            <Text style={styles.snapshotButtonText}>
+              {snapshotProgress
+                ? `📸 Sending ${Math.round((snapshotProgress.completed / snapshotProgress.total) * 100)}%`
+                : isSnapshotKept ? '📸 Photo kept' : '📸 Keep photo'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {isBlindUser && isConnected && (
+          <TouchableOpacity
+            style={[styles.screenShareButton, isScreenSharing && styles.controlButtonDanger]}
+            onPress={toggleScreenShare}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={isScreenSharing ? 'Stop sharing screen' : 'Share screen'}
+            accessibilityHint={isScreenSharing
+              ? 'Show your volunteer your camera again'
+              : 'Let your volunteer see your screen to help with an app or website'}
+          >
+            <Text style={styles.snapshotButtonText} accessibilityLiveRegion="polite">
+              {isScreenSharing ? '📱 Stop sharing' : '📱 Share screen'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {canInviteHelper && (
+          <TouchableOpacity
+            style={styles.inviteButton}
+            onPress={inviteHelper}
+            disabled={isInvitingHelper}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="Invite another helper"
+            accessibilityHint="Ask a second volunteer to join this call"
+          >
+            <Text style={styles.snapshotButtonText}>
+              {isInvitingHelper ? '➕ Inviting...' : '➕ Invite helper'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {(canTransfer || transfer) && (
+          <TouchableOpacity
+            style={[styles.transferButton, transfer?.status === 'ready' && styles.controlButtonActive]}
+            onPress={transfer ? completeTransfer : () => setIsTransferSheetVisible(true)}
+            disabled={transfer !== null && transfer.status !== 'ready'}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={transfer ? TRANSFER_LABELS[transfer.status] : 'Transfer call'}
+            accessibilityHint={transfer
+              ? 'Leave the call to the new volunteer'
+              : 'Find another volunteer to take over this call'}
+          >
+            <Text style={styles.snapshotButtonText} accessibilityLiveRegion="polite">
+              {transfer ? TRANSFER_LABELS[transfer.status] : '🔀 Transfer'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {showCameraTools && (
+          <View style={styles.annotationToolbar}>
+            <TouchableOpacity
+              style={[styles.annotationButton, isAnnotating && styles.controlButtonActive]}
+              onPress={toggleAnnotating}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={isAnnotating ? 'Stop annotating' : 'Annotate'}
+              accessibilityHint="Point at or draw around things on their video"
+              accessibilityState={{ checked: isAnnotating }}
+            >
+              <Text style={styles.snapshotButtonText}>✏️ {isAnnotating ? 'Done' : 'Annotate'}</Text>
+            </TouchableOpacity>
+            {isAnnotating && (
+              <TouchableOpacity
+                style={[styles.annotationButton, annotationFrameUri !== null && styles.controlButtonActive]}
+                onPress={toggleAnnotationFrame}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={annotationFrameUri ? 'Back to live video' : 'Freeze frame'}
+                accessibilityHint="Pause their camera on one picture so annotations stay in place"
+              >
+                <Text style={styles.snapshotButtonText}>{annotationFrameUri ? '▶️ Live' : '⏸️ Freeze'}</Text>
+              </TouchableOpacity>
+            )}
+            {isAnnotating && annotations.length > 0 && (
+              <TouchableOpacity
+                style={styles.annotationButton}
+                onPress={clearAnnotations}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel="Clear annotations"
+              >
+                <Text style={styles.snapshotButtonText}>🧹 Clear</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
 
-      {/* Accessibility Help Button */}
-      <TouchableOpacity
-        style={styles.accessibilityButton}
-        accessible={true}
-        accessibilityRole="button"
-        accessibilityLabel="Accessibility help"
-        accessibilityHint="Get help with call controls"
-        onPress={() => {
-          Alert.alert(
-            'Call Controls',
-            'Available controls:\n\n• Mute/Unmute microphone\n• Toggle speaker\n• Switch camera\n• End call\n\nVoice commands are also available during calls.',
-            [{ text: 'OK' }]
-          );
-        }}
-      >
-        <Text style={styles.helpText}>?</Text>
-      </TouchableOpacity>
+      <View style={styles.rightOverlay} pointerEvents="box-none">
+        {/* Local Video (Picture-in-Picture) */}
+        <View style={styles.localVideo}>
+          {localStream && isVideoEnabled ? (
+            <RTCView
+              streamURL={toStreamURL(localStream)}
+              style={styles.videoStream}
+              objectFit="cover"
+              mirror={isFrontCamera}
+              zOrder={1}
+              accessible={true}
+              accessibilityLabel="Your camera preview"
+            />
+          ) : (
+            <Text style={styles.avatarText}>
+              {user?.name?.charAt(0)?.toUpperCase() || 'Y'}
+            </Text>
+          )}
+        </View>
+
+        {isConnected && (mediaMode !== 'full' || remoteMediaMode !== 'full') && (
+          <View style={styles.mediaModeBadge}>
+            <Text style={styles.mediaModeText}>
+              {MEDIA_MODE_LABELS[mediaMode !== 'full' ? mediaMode : remoteMediaMode]}
+            </Text>
+          </View>
+        )}
+
+        {showCameraTools && <DirectionPad onCue={sendDirectionCue} />}
+      </View>
 
       {/* Call Controls */}
       <View style={styles.controlsContainer}>
@@ -357,6 +1290,19 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.controlButton, !isVideoEnabled && styles.controlButtonActive]}
+            onPress={toggleVideo}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={isVideoEnabled ? "Turn off camera" : "Turn on camera"}
+            accessibilityHint={isVideoEnabled ? "Stop sending video" : "Start sending video"}
+          >
+            <Text style={styles.controlButtonText}>
+              {isVideoEnabled ? '📷' : '🚫'}
+            </Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.controlButton}
             onPress={toggleCamera}
@@ -375,8 +1321,10 @@ const VideoCallScreen: React.FC<VideoCallScreenProps> = () => {
             onPress={endCall}
             accessible={true}
             accessibilityRole="button"
-            accessibilityLabel="End call"
-            accessibilityHint="End the current video call"
+            accessibilityLabel={isAdditionalHelper ? "Leave call" : "End call"}
+            accessibilityHint={isAdditionalHelper
+              ? "Leave the call; the others stay connected"
+              : "End the current video call"}
           >
             <Text style={styles.controlButtonText}>📞</Text>
           </TouchableOpacity>
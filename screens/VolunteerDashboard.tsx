@@ -12,15 +12,13 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../hooks/useAuth';
+import { useCallState } from '../hooks/useCallState';
+import { useVoiceCommands } from '../hooks/useVoiceCommands';
 import { apiService } from '../services/api';
+import { IncomingCall } from '../services/callState';
 
-interface IncomingCall {
-  id: string;
-  userName: string;
-  userPhoto?: string;
-  helpReason: string;
-  timestamp: string;
-}
+// How often to check for calls offered to us while online
+const INCOMING_POLL_INTERVAL_MS = 3000;
 
 interface Reputation {
   totalCalls: number;
@@ -37,12 +35,48 @@ interface Reward {
   timestamp: string;
 }
 
+// A call offered to this volunteer by the backend (GET /matching/incoming)
+interface IncomingCallOffer {
+  kind: 'call' | 'transfer' | 'helper_invite';
+  roomId: string;
+  callId: string;
+  blindUserName: string | null;
+  helpCategory: string;
+  note: string | null;
+}
+
+const HELP_CATEGORY_LABELS: Record<string, string> = {
+  general: 'something',
+  reading: 'reading',
+  navigation: 'finding their way',
+  tech_help: 'a device or app',
+};
+
+const toIncomingCall = (offer: IncomingCallOffer): IncomingCall => {
+  const category = HELP_CATEGORY_LABELS[offer.helpCategory] || HELP_CATEGORY_LABELS.general;
+  const helpReason = offer.kind === 'transfer'
+    ? `Take over a call, help with ${category}${offer.note ? `: ${offer.note}` : ''}`
+    : offer.kind === 'helper_invite'
+      ? `Join a call as a second helper, help with ${category}`
+      : `Needs help with ${category}`;
+
+  return {
+    id: offer.roomId,
+    callId: offer.callId,
+    userName: offer.blindUserName || 'A SolSight user',
+    helpReason,
+    timestamp: new Date().toISOString(),
+    isTransfer: offer.kind === 'transfer',
+    isHelperInvite: offer.kind === 'helper_invite',
+  };
+};
+
 const VolunteerDashboard = () => {
   const navigation = useNavigation();
   const { user, logout } = useAuth();
   const [isOnline, setIsOnline] = useState(false);
-  const [hasIncomingCall, setHasIncomingCall] = useState(false);
-  const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
+  const { state: callState, send } = useCallState();
+  const incomingCall = callState.phase === 'ringing' ? callState.incomingCall : null;
   const [reputation, setReputation] = useState<Reputation>({
     totalCalls: 0,
     averageRating: 0,
@@ -55,16 +89,40 @@ const VolunteerDashboard = () => {
     loadVolunteerData();
   }, []);
 
+  // While online, ring for calls offered to us. An offer that disappears
+  // while ringing was withdrawn, e.g. the caller gave up
   useEffect(() => {
-    // Simulate incoming call after 5 seconds for demo
-    if (isOnline) {
-      const timer = setTimeout(() => {
-        simulateIncomingCall();
-      }, 5000);
+    if (!isOnline || (callState.phase !== 'idle' && callState.phase !== 'ringing')) return;
+
+    let cancelled = false;
+    const ringingRoomId = callState.phase === 'ringing' ? callState.sessionId : null;
+
+    const checkIncomingCalls = async () => {
+      try {
+        const response = await apiService.getIncomingCalls();
+        const offers: IncomingCallOffer[] = response.data?.offers || [];
+        if (cancelled) return;
+
+        if (ringingRoomId) {
+          if (!offers.some(offer => offer.roomId === ringingRoomId)) {
+            send({ type: 'CANCEL' });
+          }
+        } else if (offers.length > 0) {
+          send({ type: 'INCOMING_CALL', call: toIncomingCall(offers[0]) });
+        }
+      } catch (error) {
+        console.error('Error checking for incoming calls:', error);
+      }
+    };
 
-      return () => clearTimeout(timer);
-    }
-  }, [isOnline]);
+    checkIncomingCalls();
+    const interval = setInterval(checkIncomingCalls, INCOMING_POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isOnline, callState.phase]);
 
   const loadVolunteerData = async () => {
     try {
@@ -109,49 +167,47 @@ const VolunteerDashboard = () => {
     }
   };
 
-  const simulateIncomingCall = () => {
-    const mockCall: IncomingCall = {
-      id: `call_${Date.now()}`,
-      userName: 'Alex Martinez',
-      helpReason: 'Need help reading medication labels',
-      timestamp: new Date().toISOString(),
-    };
-
-    setIncomingCall(mockCall);
-    setHasIncomingCall(true);
-
-    // Announce for accessibility
-    AccessibilityInfo.announceForAccessibility(
-      `Incoming help request from ${mockCall.userName}: ${mockCall.helpReason}`
-    );
-  };
+  const handleAcceptCall = async () => {
+    if (!incomingCall || !send({ type: 'ACCEPT' })) return;
 
-  const handleAcceptCall = () => {
-    if (!incomingCall) return;
-
-    AccessibilityInfo.announceForAccessibility('Accepting call, connecting to user');
-
-    setHasIncomingCall(false);
-    setIncomingCall(null);
+    // Tell the backend first: it may have been taken back, and a transfer
+    // can't be completed until its new volunteer has accepted
+    try {
+      await apiService.acceptMatch(incomingCall.id);
+    } catch (error) {
+      console.error('Error accepting call:', error);
+      send({ type: 'FAILED', error: 'This help request is no longer available' });
+      return;
+    }
 
     // Navigate to video call
     navigation.navigate('VideoCall', {
       isBlindUser: false,
       sessionId: incomingCall.id,
       userName: incomingCall.userName,
+      isInvitedHelper: incomingCall.isHelperInvite === true,
+      isTransferTarget: incomingCall.isTransfer === true,
     });
   };
 
   const handleDeclineCall = () => {
-    AccessibilityInfo.announceForAccessibility('Call declined');
+    if (!incomingCall || !send({ type: 'DECLINE' })) return;
 
-    setHasIncomingCall(false);
-    setIncomingCall(null);
+    // Frees the caller to be offered to someone else
+    apiService.declineMatch(incomingCall.id, 'Volunteer declined').catch(error => {
+      console.error('Error declining call:', error);
+    });
   };
 
   const handleOnlineToggle = async (value: boolean) => {
     try {
       setIsOnline(value);
+      // Going offline turns down any help request being offered
+      if (!value && incomingCall && send({ type: 'CANCEL' })) {
+        apiService.declineMatch(incomingCall.id, 'Volunteer went offline').catch(error => {
+          console.error('Error declining call:', error);
+        });
+      }
 
       // Update availability on backend
       await apiService.updateAvailability(value);
@@ -172,6 +228,23 @@ const VolunteerDashboard = () => {
     }
   };
 
+  const {
+    isListening,
+    isAvailable: isVoiceAvailable,
+    toggleListening,
+  } = useVoiceCommands({
+    actions: { setAvailability: handleOnlineToggle },
+  });
+
+  const handleVoiceCommand = () => {
+    if (!isVoiceAvailable) {
+      Alert.alert('Voice Commands', 'Voice recognition is not available on this device.', [{ text: 'OK' }]);
+      return;
+    }
+
+    toggleListening();
+  };
+
   const handleLogout = () => {
     Alert.alert(
       'Sign Out',
@@ -423,6 +496,17 @@ const VolunteerDashboard = () => {
             Welcome back, {user?.name || 'Volunteer'}! 👋
           </Text>
           <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={handleVoiceCommand}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel={isListening ? 'Stop listening' : 'Voice commands'}
+              accessibilityHint="Use voice commands to control the app"
+              accessibilityState={{ selected: isListening }}
+            >
+              <Text style={{ fontSize: 20, color: '#ffffff' }}>{isListening ? '🔴' : '🎤'}</Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.headerButton}
               onPress={handleViewRewards}
@@ -525,7 +609,7 @@ const VolunteerDashboard = () => {
       </ScrollView>
 
       {/* Incoming Call Modal */}
-      {hasIncomingCall && incomingCall && (
+      {incomingCall && (
         <View style={styles.incomingCallModal}>
           <View style={styles.incomingCallContent}>
             <View style={styles.callerAvatar}>
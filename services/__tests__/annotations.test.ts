@@ -0,0 +1,38 @@
+import {
+  describeAnnotationPosition,
+  isAnnotation,
+  MAX_STROKE_POINTS,
+  simplifyStroke,
+} from '../annotations';
+
+describe('describeAnnotationPosition', () => {
+  it('names the third of the view a pointer is in', () => {
+    expect(describeAnnotationPosition({ id: '1', kind: 'pointer', point: { x: 0.9, y: 0.1 } })).toBe('top right');
+    expect(describeAnnotationPosition({ id: '2', kind: 'pointer', point: { x: 0.5, y: 0.5 } })).toBe('center');
+    expect(describeAnnotationPosition({ id: '3', kind: 'pointer', point: { x: 0.1, y: 0.5 } })).toBe('left');
+  });
+
+  it('uses the middle of a stroke', () => {
+    const stroke = { id: '4', kind: 'stroke' as const, points: [{ x: 0.4, y: 0.8 }, { x: 0.6, y: 0.95 }] };
+    expect(describeAnnotationPosition(stroke)).toBe('bottom');
+  });
+});
+
+describe('isAnnotation', () => {
+  it('rejects points outside the view', () => {
+    expect(isAnnotation({ id: '1', kind: 'pointer', point: { x: 0.5, y: 0.5 } })).toBe(true);
+    expect(isAnnotation({ id: '1', kind: 'pointer', point: { x: 1.5, y: 0.5 } })).toBe(false);
+    expect(isAnnotation({ id: '1', kind: 'stroke', points: [] })).toBe(false);
+  });
+});
+
+describe('simplifyStroke', () => {
+  it('caps the number of points and keeps both ends', () => {
+    const points = Array.from({ length: 500 }, (_, index) => ({ x: index / 499, y: 0.5 }));
+    const simplified = simplifyStroke(points);
+
+    expect(simplified).toHaveLength(MAX_STROKE_POINTS);
+    expect(simplified[0]).toBe(points[0]);
+    expect(simplified[simplified.length - 1]).toBe(points[499]);
+  });
+});
@@ -0,0 +1,37 @@
+import { BandwidthAdapter, VIDEO_ENCODINGS } from '../bandwidthAdaptation';
+import { CallStatsSample } from '../callQuality';
+
+const sample = (availableOutgoingBitrate: number): CallStatsSample => ({
+  timestamp: Date.now(),
+  roundTripTimeMs: 80,
+  jitterMs: 10,
+  audioPacketLossPercent: 0,
+  videoPacketLossPercent: 0,
+  framesPerSecond: 30,
+  frameWidth: 1280,
+  frameHeight: 720,
+  availableOutgoingBitrate,
+});
+
+const feed = (adapter: BandwidthAdapter, bitrate: number, count: number): Array<string | null> =>
+  Array.from({ length: count }, () => adapter.update(sample(bitrate)));
+
+describe('BandwidthAdapter', () => {
+  it('drops to audio only after a couple of bad samples', () => {
+    const adapter = new BandwidthAdapter();
+
+    expect(feed(adapter, 100000, 2)).toEqual([null, 'audio_only']);
+  });
+
+  it('steps back up one mode at a time once the link recovers', () => {
+    const adapter = new BandwidthAdapter();
+    feed(adapter, 100000, 2);
+
+    expect(feed(adapter, 2000000, 8)).toEqual([null, null, null, 'reduced', null, null, null, 'full']);
+  });
+
+  it('keeps some video going in audio only so the link can still be measured', () => {
+    expect(VIDEO_ENCODINGS.audio_only.active).toBe(true);
+    expect(VIDEO_ENCODINGS.audio_only.maxBitrate).toBeLessThan(VIDEO_ENCODINGS.reduced.maxBitrate!);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  CallEvent,
+  CallStateStore,
+  INITIAL_CALL_STATE,
+  describeTransition,
+  transition,
+} from '../callState';
+
+const incomingCall = {
+  id: 'session-1',
+  userName: 'Sam',
+  helpReason: 'Reading a label',
+  timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+const run = (store: CallStateStore, events: CallEvent[]) =>
+  events.map(event => store.send(event));
+
+describe('call state machine', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes a blind user from asking for help through to rating', () => {
+    const store = new CallStateStore();
+    const phases: string[] = [];
+    store.subscribe(state => phases.push(state.phase));
+
+    run(store, [
+      { type: 'REQUEST_HELP' },
+      { type: 'QUEUED', sessionId: 'session-1', estimatedWaitTime: 30 },
+      { type: 'MATCHED', volunteerName: 'Alex' },
+      { type: 'CONNECTED' },
+      { type: 'INTERRUPTED' },
+      { type: 'CONNECTED' },
+      { type: 'HANG_UP' },
+      { type: 'ENDED', reason: 'hung_up' },
+    ]);
+
+    expect(phases).toEqual([
+      'requesting', 'queued', 'connecting', 'connected', 'reconnecting', 'connected', 'ending', 'rating',
+    ]);
+    expect(store.state).toMatchObject({ role: 'blind', sessionId: 'session-1', peerName: 'Alex' });
+
+    expect(store.send({ type: 'RATED' })).toBe(true);
+    expect(store.state).toEqual(INITIAL_CALL_STATE);
+  });
+
+  it('keeps the call record to rate, following a handover', () => {
+    const store = new CallStateStore();
+
+    run(store, [
+      { type: 'REQUEST_HELP' },
+      { type: 'QUEUED', sessionId: 'session-1', callId: 'call-1' },
+      { type: 'MATCHED' },
+      { type: 'CONNECTED' },
+      { type: 'CALL_ID_CHANGED', callId: 'call-2' },
+      { type: 'ENDED', reason: 'remote_ended' },
+    ]);
+
+    expect(store.state).toMatchObject({ phase: 'rating', sessionId: 'session-1', callId: 'call-2' });
+  });
+
+  it('returns a volunteer straight to idle when the call ends', () => {
+    const store = new CallStateStore();
+
+    run(store, [
+      { type: 'INCOMING_CALL', call: incomingCall },
+      { type: 'ACCEPT' },
+      { type: 'CONNECTED' },
+      { type: 'ENDED', reason: 'remote_ended' },
+    ]);
+
+    expect(store.state).toEqual(INITIAL_CALL_STATE);
+  });
+
+  it('skips rating for calls that never connected', () => {
+    const store = new CallStateStore();
+
+    run(store, [
+      { type: 'REQUEST_HELP' },
+      { type: 'MATCHED' },
+      { type: 'HANG_UP' },
+      { type: 'ENDED', reason: 'hung_up' },
+    ]);
+
+    expect(store.state.phase).toBe('idle');
+  });
+
+  it('refuses illegal transitions and leaves the state alone', () => {
+    const store = new CallStateStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    expect(transition(INITIAL_CALL_STATE, { type: 'CONNECTED' })).toBeNull();
+    expect(store.send({ type: 'ACCEPT' })).toBe(false);
+
+    store.send({ type: 'REQUEST_HELP' });
+    // A blind user can't be rung while asking for help
+    expect(store.send({ type: 'INCOMING_CALL', call: incomingCall })).toBe(false);
+    expect(store.state.phase).toBe('requesting');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('resets from any phase and keeps the reason a request failed', () => {
+    const store = new CallStateStore();
+
+    run(store, [{ type: 'REQUEST_HELP' }, { type: 'FAILED', error: 'No volunteers available' }]);
+    expect(store.state).toMatchObject({ phase: 'idle', error: 'No volunteers available' });
+
+    run(store, [{ type: 'INCOMING_CALL', call: incomingCall }, { type: 'ACCEPT' }, { type: 'RESET' }]);
+    expect(store.state).toEqual(INITIAL_CALL_STATE);
+  });
+});
+
+describe('describeTransition', () => {
+  it('tells a blind user they can rate once the call ends', () => {
+    const connected = { ...INITIAL_CALL_STATE, phase: 'connected' as const, role: 'blind' as const, connectedAt: 1 };
+    const event: CallEvent = { type: 'ENDED', reason: 'remote_ended' };
+
+    expect(describeTransition(connected, transition(connected, event)!, event))
+      .toBe('The other person ended the call. You can now rate your volunteer.');
+  });
+
+  it('distinguishes reconnecting from connecting', () => {
+    const reconnecting = { ...INITIAL_CALL_STATE, phase: 'reconnecting' as const };
+    const event: CallEvent = { type: 'CONNECTED' };
+
+    expect(describeTransition(reconnecting, transition(reconnecting, event)!, event)).toBe('Call reconnected');
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  NO_CAMERA_CAPABILITIES,
+  applyCameraControl,
+  getCameraCapabilities,
+  getCameraState,
+} from '../cameraControl';
+
+// A video track reporting the given capabilities and settings
+const videoTrack = (capabilities: object | null, settings: object = {}) => ({
+  kind: 'video',
+  getCapabilities: () => {
+    if (!capabilities) throw new Error('Not implemented');
+    return capabilities;
+  },
+  getSettings: () => settings,
+  applyConstraints: jest.fn(async () => {}),
+}) as unknown as MediaStreamTrack & { applyConstraints: jest.Mock };
+
+const ALL_CAPABILITIES = {
+  torch: true,
+  zoom: { min: 1, max: 4, step: 0.5 },
+  focus: true,
+};
+
+describe('getCameraCapabilities', () => {
+  it('reads torch, zoom and focus from the track capabilities', () => {
+    const track = videoTrack({ torch: true, zoom: { min: 1, max: 4, step: 0.5 }, focusMode: ['single-shot'] });
+
+    expect(getCameraCapabilities(track)).toEqual(ALL_CAPABILITIES);
+  });
+
+  it('offers nothing on react-native-webrtc, which cannot report capabilities', () => {
+    const track = videoTrack(null, { width: 1280, height: 720, frameRate: 30, facingMode: 'environment' });
+
+    expect(getCameraCapabilities(track)).toEqual(NO_CAMERA_CAPABILITIES);
+  });
+
+  it('falls back to the settings the track reports', () => {
+    expect(getCameraCapabilities(videoTrack(null, { torch: false })).torch).toBe(true);
+  });
+
+  it('leaves out a zoom that cannot change', () => {
+    expect(getCameraCapabilities(videoTrack({ zoom: { min: 1, max: 1 } })).zoom).toBeNull();
+  });
+
+  it('offers nothing without a video track', () => {
+    expect(getCameraCapabilities(undefined)).toEqual(NO_CAMERA_CAPABILITIES);
+  });
+});
+
+describe('getCameraState', () => {
+  it('reads the torch and zoom the track is using', () => {
+    expect(getCameraState(videoTrack({}, { torch: true, zoom: 2 }))).toEqual({ torch: true, zoom: 2 });
+    expect(getCameraState(undefined)).toEqual({ torch: false, zoom: null });
+  });
+});
+
+describe('applyCameraControl', () => {
+  it('turns the torch on', async () => {
+    const track = videoTrack({});
+
+    await applyCameraControl(track, { control: 'torch', on: true }, ALL_CAPABILITIES);
+
+    expect(track.applyConstraints).toHaveBeenCalledWith({ advanced: [{ torch: true }] });
+  });
+
+  it('keeps zoom within what the camera supports', async () => {
+    const track = videoTrack({});
+
+    await applyCameraControl(track, { control: 'zoom', level: 10 }, ALL_CAPABILITIES);
+
+    expect(track.applyConstraints).toHaveBeenCalledWith({ advanced: [{ zoom: 4 }] });
+  });
+
+  it('focuses on a point within the picture', async () => {
+    const track = videoTrack({});
+
+    await applyCameraControl(track, { control: 'focus', x: 1.5, y: 0.25 }, ALL_CAPABILITIES);
+
+    expect(track.applyConstraints).toHaveBeenCalledWith({
+      advanced: [{ focusMode: 'single-shot', pointsOfInterest: [{ x: 1, y: 0.25 }] }],
+    });
+  });
+
+  it('rejects controls the camera does not support', async () => {
+    const track = videoTrack(null);
+
+    await expect(applyCameraControl(track, { control: 'torch', on: true }, NO_CAMERA_CAPABILITIES))
+      .rejects.toThrow('Flashlight is not supported');
+    await expect(applyCameraControl(track, { control: 'zoom', level: 2 }, NO_CAMERA_CAPABILITIES))
+      .rejects.toThrow('Zoom is not supported');
+    expect(track.applyConstraints).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import { CallDataChannel } from '../dataChannel';
+import { FakeDataChannel } from '../testing';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A data channel whose send buffer is full until drain() is called
+const openChannel = async () => {
+  const local = new FakeDataChannel('data', 0);
+  const remote = new FakeDataChannel('data', 0);
+  const channel = new CallDataChannel();
+  channel.attach(local as unknown as RTCDataChannel);
+  local.open(remote);
+  remote.open(local);
+  await flush();
+
+  const sent: number[] = [];
+  const send = local.send.bind(local);
+  local.send = (data: string) => {
+    sent.push(JSON.parse(data).payload.index);
+    send(data);
+  };
+
+  return {
+    channel,
+    local,
+    sent,
+    fill: () => { local.bufferedAmount = 2 * 1024 * 1024; },
+    drain: () => {
+      local.bufferedAmount = 0;
+      local.onbufferedamountlow?.();
+    },
+  };
+};
+
+// Three chunks' worth of base64
+const FILE = 'A'.repeat(40 * 1024);
+
+describe('CallDataChannel.sendFile', () => {
+  it('waits for the buffer to drain and reports each chunk sent', async () => {
+    const { channel, sent, fill, drain } = await openChannel();
+    const progress: number[] = [];
+
+    fill();
+    const sending = channel.sendFile(FILE, 'still', 'image/jpeg', (count) => progress.push(count));
+    await flush();
+    expect(progress).toEqual([]);
+
+    drain();
+    await sending;
+    expect(sent).toEqual([0, 1, 2]);
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it('rejects when the channel closes part way', async () => {
+    const { channel, local, sent, fill } = await openChannel();
+    const progress: number[] = [];
+
+    const sending = channel.sendFile(FILE, 'still', 'image/jpeg', (count) => {
+      progress.push(count);
+      fill();
+    });
+    await flush();
+    local.close();
+
+    await expect(sending).rejects.toThrow('Data channel closed');
+    expect(sent).toEqual([0]);
+    expect(progress).toEqual([1]);
+  });
+
+  it('rejects rather than queueing when the channel is not open', async () => {
+    const channel = new CallDataChannel();
+
+    await expect(channel.sendFile(FILE, 'still', 'image/jpeg')).rejects.toThrow('Data channel closed');
+  });
+});
+
+// A channel that receives whatever chunks a test hands it
+const receivingChannel = () => {
+  const fake = new FakeDataChannel('data', 0);
+  const channel = new CallDataChannel();
+  channel.attach(fake as unknown as RTCDataChannel);
+  const files: string[] = [];
+  channel.onFile(file => files.push(file.data));
+
+  return {
+    files,
+    receive: (index: number, total: number, transferId = 'file-1') => fake.onmessage!({
+      data: JSON.stringify({
+        v: 1,
+        id: `${transferId}-${index}`,
+        kind: 'file_chunk',
+        sentAt: Date.now(),
+        payload: { transferId, purpose: 'still', mimeType: 'image/jpeg', index, total, data: `${index}` },
+      }),
+    }),
+  };
+};
+
+describe('CallDataChannel receiving files', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('reassembles the chunks in order', () => {
+    const { files, receive } = receivingChannel();
+
+    receive(1, 2);
+    receive(0, 2);
+
+    expect(files).toEqual(['01']);
+  });
+
+  it('ignores chunks numbered outside the file or too many to hold', () => {
+    const { files, receive } = receivingChannel();
+
+    receive(0, 1e9);
+    receive(-1, 2);
+    receive(2, 2);
+    receive(0.5, 2);
+
+    expect(console.warn).toHaveBeenCalledTimes(4);
+    expect(files).toEqual([]);
+  });
+
+  it('ignores chunks that disagree on the number of chunks', () => {
+    const { files, receive } = receivingChannel();
+
+    receive(0, 2);
+    receive(1, 3);
+    receive(1, 2);
+
+    expect(files).toEqual(['01']);
+  });
+
+  it('drops a file whose remaining chunks never arrive', () => {
+    jest.useFakeTimers();
+    const { files, receive } = receivingChannel();
+
+    receive(0, 2);
+    jest.advanceTimersByTime(30000);
+    receive(1, 2);
+
+    expect(files).toEqual([]);
+  });
+});
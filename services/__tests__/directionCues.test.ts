@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Haptics from 'expo-haptics';
+import {
+  ANNOUNCED_CUE_COUNT,
+  DIRECTION_CUES,
+  directionCuePlayer,
+  getHapticTaps,
+  getVibrationPattern,
+} from '../directionCues';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-av', () => ({
+  Audio: { Sound: { createAsync: jest.fn() } },
+}));
+
+describe('getVibrationPattern', () => {
+  it('keeps the rhythm and lengthens pulses for stronger cues', () => {
+    expect(getVibrationPattern('up', 'medium')).toEqual([0, 120, 150, 400]);
+    expect(getVibrationPattern('up', 'strong')).toEqual([0, 180, 150, 600]);
+    expect(getVibrationPattern('up', 'light')).toEqual([0, 72, 150, 240]);
+  });
+});
+
+jest.mock('expo-haptics', () => ({
+  ImpactFeedbackStyle: { Light: 'light', Medium: 'medium', Heavy: 'heavy' },
+  impactAsync: jest.fn(async () => {}),
+}));
+
+describe('getHapticTaps', () => {
+  it('plays each pulse as a run of taps on iOS', () => {
+    expect(getHapticTaps('right')).toEqual([0, 50, 270, 320]);
+    expect(getHapticTaps('closer')).toEqual([0, 220, 440, 660]);
+    expect(getHapticTaps('left')).toHaveLength(8);
+    expect(getHapticTaps('hold')).toHaveLength(18);
+  });
+
+  it('gives every cue a different rhythm', () => {
+    const rhythms = DIRECTION_CUES.map(cue => getHapticTaps(cue).join(','));
+
+    expect(new Set(rhythms).size).toBe(DIRECTION_CUES.length);
+  });
+});
+
+describe('directionCuePlayer', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await directionCuePlayer.resetAnnouncements();
+  });
+
+  it('announces each cue only the first few times', async () => {
+    for (let i = 0; i < ANNOUNCED_CUE_COUNT; i++) {
+      expect(await directionCuePlayer.takeAnnouncement('left')).toBe('Move left');
+    }
+
+    expect(await directionCuePlayer.takeAnnouncement('left')).toBeNull();
+    expect(await directionCuePlayer.takeAnnouncement('right')).toBe('Move right');
+  });
+
+  it('taps at the chosen intensity on iOS', async () => {
+    jest.useFakeTimers();
+    try {
+      await directionCuePlayer.setPreferences({ intensity: 'strong', earcons: false });
+      await directionCuePlayer.play('right');
+      jest.runAllTimers();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(Haptics.impactAsync).toHaveBeenCalledTimes(4);
+    expect(Haptics.impactAsync).toHaveBeenCalledWith('heavy');
+  });
+
+  it('remembers the chosen intensity', async () => {
+    await directionCuePlayer.setPreferences({ intensity: 'strong', earcons: false });
+
+    const stored = JSON.parse((await AsyncStorage.getItem('direction_cue_preferences'))!);
+    expect(stored).toEqual({ intensity: 'strong', earcons: false });
+    expect(await directionCuePlayer.getPreferences()).toEqual({ intensity: 'strong', earcons: false });
+  });
+});
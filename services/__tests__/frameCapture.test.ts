@@ -0,0 +1,66 @@
+import { PixelRatio } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { captureStill, createViewCapturer, setFrameCapturer } from '../frameCapture';
+
+jest.mock('react-native-view-shot', () => ({
+  captureRef: jest.fn(async () => 'ZnJhbWU='),
+}));
+
+const cameraTrack = { getSettings: () => ({ width: 1280, height: 720 }) } as MediaStreamTrack;
+
+// A FrameCaptureView showing frames of width x height pixels
+const frameView = (width: number, height: number) => ({ viewRef: { current: {} }, width, height });
+
+describe('createViewCapturer', () => {
+  afterEach(() => {
+    setFrameCapturer(null);
+    jest.clearAllMocks();
+  });
+
+  // Tests run as iOS, which sizes snapshots in points
+  const points = (pixels: number) => pixels / PixelRatio.get();
+
+  it('snapshots the frame at the quality and size asked for', async () => {
+    const view = frameView(2560, 1440);
+    setFrameCapturer(createViewCapturer(() => view));
+
+    const data = await captureStill(cameraTrack, { quality: 0.85, maxDimension: 1280 });
+
+    expect(data).toBe('ZnJhbWU=');
+    expect(captureRef).toHaveBeenCalledWith(view.viewRef, expect.objectContaining({
+      format: 'jpg',
+      quality: 0.85,
+      result: 'base64',
+      width: points(1280),
+      height: points(720),
+    }));
+  });
+
+  it('keeps the frame size when it is small enough', async () => {
+    setFrameCapturer(createViewCapturer(() => frameView(640, 480)));
+
+    await captureStill(cameraTrack, { quality: 0.95, maxDimension: 1920 });
+
+    expect(captureRef).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      width: points(640),
+      height: points(480),
+    }));
+  });
+
+  it('keeps frames from a phone held upright upright', async () => {
+    setFrameCapturer(createViewCapturer(() => frameView(720, 1280)));
+
+    await captureStill(cameraTrack, { quality: 0.95 });
+
+    expect(captureRef).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      width: points(720),
+      height: points(1280),
+    }));
+  });
+
+  it('fails until the camera has shown a frame', async () => {
+    setFrameCapturer(createViewCapturer(() => null));
+
+    await expect(captureStill(cameraTrack, { quality: 0.95 })).rejects.toThrow('camera');
+  });
+});
@@ -0,0 +1,44 @@
+import { MAX_MISHEARD_SIMILARITY, PHONETIC_SIMILARITY, editDistance, phoneticKey, wordSimilarity } from '../fuzzyMatch';
+import { CONFIRMED_INTENT_CONFIDENCE, needsConfirmation, parseIntent } from '../voiceIntents';
+
+describe('fuzzy word matching', () => {
+  it('counts single-letter edits', () => {
+    expect(editDistance('wallet', 'walet')).toBe(1);
+    expect(editDistance('call', 'call')).toBe(0);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+
+  it('gives words that sound alike the same key', () => {
+    expect(phoneticKey('app')).toBe(phoneticKey('up'));
+    expect(phoneticKey('phone')).toBe(phoneticKey('fone'));
+    expect(phoneticKey('call')).not.toBe(phoneticKey('all'));
+  });
+
+  it('scores misheard words by how close they are', () => {
+    expect(wordSimilarity('call', 'call')).toBe(1);
+    expect(wordSimilarity('app', 'up')).toBe(PHONETIC_SIMILARITY);
+    expect(wordSimilarity('wallit', 'wallet')).toBe(MAX_MISHEARD_SIMILARITY);
+    expect(wordSimilarity('sitting', 'kitten')).toBeCloseTo(4 / 7);
+    // One letter is too much of a short word to forgive
+    expect(wordSimilarity('cat', 'car')).toBe(0);
+  });
+
+  it('never acts on a word that is only close to a command word', () => {
+    // Unrelated words that share a key with a command word
+    expect(phoneticKey('cool')).toBe(phoneticKey('call'));
+    expect(phoneticKey('scare')).toBe(phoneticKey('score'));
+    expect(wordSimilarity('cool', 'call')).toBeLessThan(CONFIRMED_INTENT_CONFIDENCE);
+    expect(wordSimilarity('kill', 'call')).toBeLessThan(CONFIRMED_INTENT_CONFIDENCE);
+    // One letter off a word this long would otherwise be 0.8
+    expect(wordSimilarity('scare', 'score')).toBeLessThan(CONFIRMED_INTENT_CONFIDENCE);
+
+    ['cool', 'kill it', 'scare'].forEach(utterance => {
+      const intent = parseIntent([utterance]);
+      expect(intent === null || needsConfirmation(intent)).toBe(true);
+    });
+  });
+
+  it('does not count a filler as heard exactly when it stood in for a phrase word', () => {
+    expect(parseIntent(['and call'])?.name).not.toBe('end_call');
+  });
+});
@@ -0,0 +1,102 @@
+import { runPreflightCheck, summarizePreflight, PreflightDependencies } from '../preflight';
+import { FakeApi, FakeMediaDevices, FakeNetwork } from '../testing';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-av', () => ({
+  Audio: { setAudioModeAsync: jest.fn() },
+}));
+
+const OPTIONS = {
+  iceGatheringTimeoutMs: 500,
+  echoDurationMs: 10,
+};
+
+describe('runPreflightCheck', () => {
+  let api: FakeApi;
+  let mediaDevices: FakeMediaDevices;
+  let network: FakeNetwork;
+  let dependencies: PreflightDependencies;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    api = new FakeApi();
+    api.iceServers = [
+      { urls: 'stun:stun.example.test:3478' },
+      { urls: 'turn:turn.example.test:3478', username: 'user', credential: 'secret' },
+    ];
+    mediaDevices = new FakeMediaDevices();
+    network = new FakeNetwork();
+    dependencies = {
+      api,
+      mediaDevices,
+      createPeerConnection: network.createPeerConnection,
+      runEchoTest: async () => ({ peakLevelDb: -20 }),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes on a working phone and network', async () => {
+    const report = await runPreflightCheck(OPTIONS, dependencies);
+
+    expect(report.passed).toBe(true);
+    expect(report.checks.map(check => check.status)).toEqual(['pass', 'pass', 'pass', 'pass']);
+    expect(report.candidateTypes).toEqual(expect.arrayContaining(['host', 'srflx', 'relay']));
+    expect(report.rttMs).not.toBeNull();
+    expect(summarizePreflight(report)).toBe('Setup check passed. Your phone is ready for a call.');
+  });
+
+  it('fails when the microphone permission is denied', async () => {
+    mediaDevices.permissionDenied = true;
+
+    const report = await runPreflightCheck(OPTIONS, dependencies);
+
+    expect(report.passed).toBe(false);
+    expect(report.checks[0]).toMatchObject({ name: 'permissions', status: 'fail' });
+    expect(summarizePreflight(report)).toContain('permission is turned off');
+  });
+
+  it('warns when only the relay gets through', async () => {
+    network.stunReachable = false;
+
+    const report = await runPreflightCheck(OPTIONS, dependencies);
+
+    expect(report.passed).toBe(true);
+    expect(report.checks.find(check => check.name === 'connectivity')?.status).toBe('warn');
+  });
+
+  it('fails when the network blocks STUN and TURN', async () => {
+    network.stunReachable = false;
+    network.turnReachable = false;
+
+    const report = await runPreflightCheck(OPTIONS, dependencies);
+
+    expect(report.passed).toBe(false);
+    expect(report.candidateTypes).toEqual(['host']);
+    expect(summarizePreflight(report)).toContain('blocking video calls');
+  });
+
+  it('fails the echo test when the microphone hears nothing', async () => {
+    dependencies.runEchoTest = async () => ({ peakLevelDb: -90 });
+
+    const report = await runPreflightCheck(OPTIONS, dependencies);
+
+    expect(report.checks.find(check => check.name === 'echo')?.status).toBe('fail');
+  });
+
+  it('skips the echo test for a quick check', async () => {
+    const echo = jest.fn();
+    dependencies.runEchoTest = echo;
+
+    const report = await runPreflightCheck({ ...OPTIONS, echoTest: false }, dependencies);
+
+    expect(echo).not.toHaveBeenCalled();
+    expect(report.checks.map(check => check.name)).toEqual(['permissions', 'connectivity', 'latency']);
+  });
+});
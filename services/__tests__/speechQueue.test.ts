@@ -0,0 +1,97 @@
+import { SpeechEngine, SpeechQueue, Utterance } from '../speechQueue';
+
+// Speaks nothing; each utterance lasts until finish() is called
+class FakeEngine implements SpeechEngine {
+  spoken: string[] = [];
+  stopped = 0;
+  private onDone: (() => void) | null = null;
+
+  speak(utterance: Utterance, settings: unknown, onDone: () => void): void {
+    this.spoken.push(utterance.text);
+    this.onDone = onDone;
+  }
+
+  stop(): void {
+    this.stopped++;
+    this.finish();
+  }
+
+  finish(): void {
+    const onDone = this.onDone;
+    this.onDone = null;
+    onDone?.();
+  }
+}
+
+const createQueue = () => {
+  const engine = new FakeEngine();
+  const screenReader = new FakeEngine();
+  return { queue: new SpeechQueue(engine, screenReader), engine, screenReader };
+};
+
+describe('SpeechQueue', () => {
+  it('speaks one utterance at a time, in order', async () => {
+    const { queue, engine } = createQueue();
+    const first = queue.speak('one');
+    queue.speak('two');
+
+    expect(engine.spoken).toEqual(['one']);
+    engine.finish();
+    await first;
+    expect(engine.spoken).toEqual(['one', 'two']);
+  });
+
+  it('puts more urgent speech ahead of what is waiting', () => {
+    const { queue, engine } = createQueue();
+    queue.speak('response');
+    queue.speak('help listing', { priority: 'low' });
+    queue.speak('second response');
+
+    expect(queue.queued.map(utterance => utterance.text)).toEqual(['second response', 'help listing']);
+    engine.finish();
+    expect(engine.spoken).toEqual(['response', 'second response']);
+  });
+
+  it('cuts off less urgent speech for urgent announcements', async () => {
+    const { queue, engine } = createQueue();
+    const listing = queue.speak('Available commands: ...', { priority: 'low' });
+    queue.speak('Volunteer connected', { priority: 'urgent' });
+
+    await listing;
+    expect(engine.stopped).toBe(1);
+    expect(engine.spoken).toEqual(['Available commands: ...', 'Volunteer connected']);
+    expect(queue.isSpeaking).toBe(true);
+  });
+
+  it('tells subscribers when speaking starts and stops', () => {
+    const { queue, engine } = createQueue();
+    const changes: boolean[] = [];
+    queue.subscribe(isSpeaking => changes.push(isSpeaking));
+
+    queue.speak('one');
+    queue.speak('two');
+    engine.finish();
+    engine.finish();
+
+    expect(changes).toEqual([true, false]);
+  });
+
+  it('drops everything on stop', async () => {
+    const { queue, engine } = createQueue();
+    const spoken = [queue.speak('one'), queue.speak('two')];
+
+    queue.stop();
+    await Promise.all(spoken);
+    expect(engine.spoken).toEqual(['one']);
+    expect(queue.isSpeaking).toBe(false);
+  });
+
+  it('hands speech to the screen reader while one is running', () => {
+    const { queue, engine, screenReader } = createQueue();
+    queue.setScreenReaderEnabled(true);
+    queue.speak('Dashboard');
+
+    expect(screenReader.spoken).toEqual(['Dashboard']);
+    expect(engine.spoken).toEqual([]);
+  });
+});
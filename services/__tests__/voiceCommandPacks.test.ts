@@ -0,0 +1,74 @@
+import { VOICE_COMMAND_PACKS, resolveVoiceLanguage } from '../voiceCommandPacks';
+import { parseConfirmation, parseIntent } from '../voiceIntents';
+
+const INTENTS = [
+  'help', 'dashboard', 'reputation', 'request_help', 'end_call',
+  'available', 'unavailable', 'wallet', 'balance',
+];
+
+const parseIn = (language: string, speech: string) => {
+  const { grammar, lexicon } = VOICE_COMMAND_PACKS[language];
+  return parseIntent([speech], grammar, lexicon);
+};
+
+describe('resolveVoiceLanguage', () => {
+  it('prefers the profile language over the device', () => {
+    const { pack, locale } = resolveVoiceLanguage(['hi', 'es-MX']);
+
+    expect(pack.language).toBe('hi');
+    expect(locale).toBe('hi-IN');
+  });
+
+  it('keeps the region of a full locale', () => {
+    expect(resolveVoiceLanguage([undefined, 'es_MX'])).toMatchObject({
+      pack: { language: 'es' },
+      locale: 'es-MX',
+    });
+  });
+
+  it('accepts language names', () => {
+    expect(resolveVoiceLanguage(['Spanish']).locale).toBe('es-ES');
+  });
+
+  it('falls back to English when there is no pack', () => {
+    const { pack, locale } = resolveVoiceLanguage(['fr-FR', null]);
+
+    expect(pack.language).toBe('en');
+    expect(locale).toBe('en-US');
+  });
+});
+
+describe('voice command packs', () => {
+  it.each(Object.keys(VOICE_COMMAND_PACKS))('%s covers every command', (language) => {
+    const { grammar, descriptions } = VOICE_COMMAND_PACKS[language];
+
+    expect(grammar.map(rule => rule.intent).sort()).toEqual([...INTENTS].sort());
+    expect(Object.keys(descriptions).sort()).toEqual([...INTENTS].sort());
+  });
+
+  it('parses Spanish help requests with their slots', () => {
+    expect(parseIn('es', 'necesito ayuda para leer una etiqueta en inglés')).toMatchObject({
+      name: 'request_help',
+      slots: { category: 'reading', language: 'en' },
+    });
+    expect(parseIn('es', 'no estoy disponible')?.name).toBe('unavailable');
+  });
+
+  it('parses Hindi and Arabic commands', () => {
+    expect(parseIn('hi', 'मेरा वॉलेट बैलेंस')?.name).toBe('balance');
+    expect(parseIn('ar', 'أحتاج مساعدة في قراءة رسالة')).toMatchObject({
+      name: 'request_help',
+      slots: { category: 'reading' },
+    });
+  });
+
+  it('ignores Hindi commands negated after the phrase', () => {
+    expect(parseIn('hi', 'कॉल मत करो')).toBeNull();
+  });
+
+  it('understands yes and no in each language', () => {
+    expect(parseConfirmation(['sí'], VOICE_COMMAND_PACKS.es.lexicon)).toBe(true);
+    expect(parseConfirmation(['रहने दो'], VOICE_COMMAND_PACKS.hi.lexicon)).toBe(false);
+    expect(parseConfirmation(['نعم'], VOICE_COMMAND_PACKS.ar.lexicon)).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  MIN_INTENT_CONFIDENCE,
+  VOICE_GRAMMAR,
+  needsConfirmation,
+  parseConfirmation,
+  parseIntent,
+  rankIntents,
+} from '../voiceIntents';
+
+describe('parseIntent', () => {
+  it('fills the category and language slots of a help request', () => {
+    const intent = parseIntent(['Get help reading a label in Spanish']);
+
+    expect(intent).toMatchObject({
+      name: 'request_help',
+      slots: { category: 'reading', language: 'es' },
+      confidence: 1,
+    });
+  });
+
+  it('ignores negated commands', () => {
+    expect(parseIntent(["don't call anyone"])).toBeNull();
+    expect(parseIntent(['I do not need help'])).toBeNull();
+    expect(parseIntent(["I don't want to call anyone"])).toBeNull();
+    expect(parseIntent(['I do not want to end the call'])).toBeNull();
+  });
+
+  it('only lets a negation reach the end of its clause', () => {
+    expect(parseIntent(["I don't need a volunteer but call someone"])?.name).toBe('request_help');
+    expect(parseIntent(["I can't see, call a volunteer"])?.name).toBe('request_help');
+    expect(parseIntent(['no, call a volunteer'])?.name).toBe('request_help');
+    expect(parseIntent(['not now, help me'])?.name).toBe('request_help');
+    expect(parseIntent(["help me, I can't read this label"])).toMatchObject({
+      name: 'request_help',
+      slots: { category: 'reading' },
+    });
+  });
+
+  it('takes please as the start of the request', () => {
+    expect(parseIntent(["I can't read this please call someone"])?.name).toBe('request_help');
+  });
+
+  it('prefers the most specific phrase', () => {
+    expect(parseIntent(['end call'])?.name).toBe('end_call');
+    expect(parseIntent(["I'm not available"])?.name).toBe('unavailable');
+    expect(parseIntent(['what is my wallet balance'])?.name).toBe('balance');
+  });
+
+  it('leaves out utterances that are mostly about something else', () => {
+    const [candidate] = rankIntents(['call me when my sister gets home from work']);
+
+    expect(candidate.confidence).toBeLessThan(MIN_INTENT_CONFIDENCE);
+    expect(parseIntent(['call me when my sister gets home from work'])).toBeNull();
+  });
+
+  it('uses a later recogniser alternative when the first makes no sense', () => {
+    const intent = parseIntent(['hang gliding', 'hang up']);
+
+    expect(intent).toMatchObject({ name: 'end_call', transcript: 'hang up' });
+    expect(intent!.confidence).toBeLessThan(1);
+  });
+
+  it('only considers the rules it is given', () => {
+    const volunteerRules = VOICE_GRAMMAR.filter(rule => rule.intent !== 'request_help');
+
+    expect(parseIntent(['get help'], volunteerRules)?.name).toBe('help');
+  });
+
+  it('tolerates misheard words, but asks about them first', () => {
+    const intent = parseIntent(['hang app']);
+
+    expect(intent?.name).toBe('end_call');
+    expect(intent!.confidence).toBeLessThan(1);
+    expect(needsConfirmation(intent!)).toBe(true);
+  });
+
+  it('combines the recogniser confidence and asks about middling matches', () => {
+    const intent = parseIntent([{ transcript: 'hang up', confidence: 0.6 }]);
+
+    expect(intent).toMatchObject({ name: 'end_call', confidence: 0.6 });
+    expect(needsConfirmation(intent!)).toBe(true);
+  });
+});
+
+describe('parseConfirmation', () => {
+  it('hears yes, no or neither', () => {
+    expect(parseConfirmation(['yes please'])).toBe(true);
+    expect(parseConfirmation(['no', 'know'])).toBe(false);
+    expect(parseConfirmation(['never mind'])).toBe(false);
+    expect(parseConfirmation(['wallet'])).toBeNull();
+  });
+});
@@ -0,0 +1,395 @@
+import { WebRTCService, WebRTCServiceEvents } from '../webrtc';
+import { setFrameCapturer } from '../frameCapture';
+import {
+  FakeApi,
+  FakeMediaDevices,
+  FakeNetwork,
+  InMemorySignalingHub,
+  InMemorySignalingTransport,
+} from '../testing';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-av', () => ({
+  Audio: { setAudioModeAsync: jest.fn() },
+}));
+
+const ROOM_ID = 'room-1';
+const CALL_ID = 'call-1';
+
+const OPTIONS = {
+  reconnectGracePeriodMs: 300,
+  iceRestartIntervalMs: 20,
+  // Stats sampling isn't under test
+  statsIntervalMs: 60000,
+};
+
+interface Participant {
+  service: WebRTCService;
+  transport: InMemorySignalingTransport;
+  api: FakeApi;
+}
+
+// Resolve with the arguments of the next emission of an event
+const nextEvent = <E extends keyof WebRTCServiceEvents>(
+  service: WebRTCService,
+  event: E,
+  timeoutMs: number = 2000
+): Promise<Parameters<WebRTCServiceEvents[E]>> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, timeoutMs);
+
+    const unsubscribe = service.once(event, ((...args: Parameters<WebRTCServiceEvents[E]>) => {
+      clearTimeout(timer);
+      resolve(args);
+    }) as WebRTCServiceEvents[E]);
+  });
+
+describe('WebRTCService loopback', () => {
+  let hub: InMemorySignalingHub;
+  let network: FakeNetwork;
+  let blind: Participant;
+  let volunteer: Participant;
+  let helper: Participant;
+
+  const createParticipant = (options: Partial<typeof OPTIONS> = {}): Participant => {
+    const transport = hub.createTransport();
+    const api = new FakeApi();
+    const service = new WebRTCService(transport, { ...OPTIONS, ...options }, {
+      api,
+      mediaDevices: new FakeMediaDevices(),
+      createPeerConnection: network.createPeerConnection,
+    });
+    return { service, transport, api };
+  };
+
+  // Both users join the room and the blind user places the call
+  const connectCall = async (): Promise<void> => {
+    await blind.service.initialize('blind-1', 'blind');
+    await volunteer.service.initialize('volunteer-1', 'volunteer');
+
+    await blind.service.joinRoom(ROOM_ID, CALL_ID);
+    const volunteerJoined = nextEvent(blind.service, 'peerJoined');
+    await volunteer.service.joinRoom(ROOM_ID, CALL_ID);
+    await volunteerJoined;
+
+    const connected = Promise.all([
+      nextEvent(blind.service, 'connected'),
+      nextEvent(volunteer.service, 'connected'),
+    ]);
+    await blind.service.startCall();
+    await connected;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    hub = new InMemorySignalingHub();
+    network = new FakeNetwork();
+    blind = createParticipant();
+    volunteer = createParticipant();
+    helper = createParticipant();
+  });
+
+  afterEach(() => {
+    blind.service.cleanup();
+    volunteer.service.cleanup();
+    helper.service.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('connects through offer, answer and ICE candidates', async () => {
+    const remoteStreams = Promise.all([
+      nextEvent(blind.service, 'remoteStream'),
+      nextEvent(volunteer.service, 'remoteStream'),
+    ]);
+
+    await connectCall();
+    const [[blindRemote], [volunteerRemote]] = await remoteStreams;
+
+    expect(hub.messagesOfType('offer').filter(entry => entry.direction === 'in')).toHaveLength(1);
+    expect(hub.messagesOfType('answer').filter(entry => entry.direction === 'in')).toHaveLength(1);
+    expect(hub.messagesOfType('ice_candidate').length).toBeGreaterThan(0);
+
+    expect(blind.service.remotePeer).toBe('volunteer-1');
+    expect(volunteer.service.remotePeer).toBe('blind-1');
+    expect(volunteerRemote).toBe(blind.service.localVideoStream);
+    expect(blindRemote).toBe(volunteer.service.localVideoStream);
+  });
+
+  it('uses the rear camera for the blind user', async () => {
+    await connectCall();
+
+    expect(blind.service.activeCameraFacing).toBe('environment');
+    expect(volunteer.service.activeCameraFacing).toBe('user');
+  });
+
+  it('delivers messages over the call data channel', async () => {
+    await connectCall();
+
+    const received = nextEvent(blind.service, 'dataMessage');
+    await volunteer.service.getDataChannel()!.send('chat', { text: 'Hold it a bit closer' }, { requiresAck: true });
+    const [envelope] = await received;
+
+    expect(envelope.kind).toBe('chat');
+    expect(envelope.payload).toEqual({ text: 'Hold it a bit closer' });
+  });
+
+  it('delivers direction cues to the blind user', async () => {
+    await connectCall();
+
+    const received = nextEvent(blind.service, 'directionCue');
+    volunteer.service.sendDirectionCue('closer');
+    const [cue, fromUserId] = await received;
+
+    expect(cue).toBe('closer');
+    expect(fromUserId).toBe('volunteer-1');
+  });
+
+  it('delivers annotations to the blind user', async () => {
+    await connectCall();
+
+    const received = nextEvent(blind.service, 'annotation');
+    volunteer.service.sendAnnotation({ id: 'a-1', kind: 'pointer', point: { x: 0.8, y: 0.1 } });
+    const [annotation, fromUserId] = await received;
+
+    expect(annotation).toEqual({ id: 'a-1', kind: 'pointer', point: { x: 0.8, y: 0.1 } });
+    expect(fromUserId).toBe('volunteer-1');
+  });
+
+  it('freezes both sides on the same frame for annotating', async () => {
+    setFrameCapturer(async () => 'ZnJhbWU=');
+    await connectCall();
+
+    const frames = Promise.all([
+      nextEvent(blind.service, 'annotationFrame'),
+      nextEvent(volunteer.service, 'annotationFrame'),
+    ]);
+    volunteer.service.freezeAnnotationFrame();
+    const [[blindFrame], [volunteerFrame]] = await frames;
+
+    expect(blindFrame).toBe('data:image/jpeg;base64,ZnJhbWU=');
+    expect(volunteerFrame).toBe(blindFrame);
+
+    const resumed = nextEvent(blind.service, 'annotationFrame');
+    volunteer.service.resumeAnnotationFrame();
+    expect(await resumed).toEqual([null]);
+  });
+
+  it('swaps the camera for the screen and back without renegotiating', async () => {
+    await connectCall();
+    const offersBefore = hub.messagesOfType('offer').length;
+    const sentVideoSurfaces = () => network.connections
+      .filter(connection => connection.connectionState === 'connected')
+      .flatMap(connection => connection.getSenders())
+      .filter(sender => sender.track?.kind === 'video')
+      .map(sender => sender.track.getSettings().displaySurface || 'camera');
+
+    const shared = nextEvent(volunteer.service, 'remoteScreenShareChange');
+    await blind.service.startScreenShare();
+    expect(await shared).toEqual([true, 'blind-1']);
+    expect(blind.service.isScreenSharing).toBe(true);
+    expect(sentVideoSurfaces()).toContain('monitor');
+
+    const stopped = nextEvent(volunteer.service, 'remoteScreenShareChange');
+    await blind.service.stopScreenShare();
+    expect(await stopped).toEqual([false, 'blind-1']);
+    expect(sentVideoSurfaces()).not.toContain('monitor');
+    expect(hub.messagesOfType('offer')).toHaveLength(offersBefore);
+  });
+
+  it('recovers from a network interruption with an ICE restart', async () => {
+    await connectCall();
+    const offersBefore = hub.messagesOfType('offer').length;
+
+    const reconnecting = Promise.all([
+      nextEvent(blind.service, 'reconnecting'),
+      nextEvent(volunteer.service, 'reconnecting'),
+    ]);
+    network.interrupt();
+    await reconnecting;
+
+    expect(blind.service.isReconnecting).toBe(true);
+
+    const reconnected = Promise.all([
+      nextEvent(blind.service, 'connected'),
+      nextEvent(volunteer.service, 'connected'),
+    ]);
+    network.restore();
+    await reconnected;
+
+    expect(blind.service.isReconnecting).toBe(false);
+    expect(volunteer.service.isReconnecting).toBe(false);
+    expect(hub.messagesOfType('offer').length).toBeGreaterThan(offersBefore);
+  });
+
+  it('rejoins the room after the signaling socket drops', async () => {
+    await connectCall();
+
+    const rejoined = nextEvent(volunteer.service, 'peerJoined');
+    blind.transport.drop(10);
+    const [userId] = await rejoined;
+
+    expect(userId).toBe('blind-1');
+    expect(hub.getRoomStatus(ROOM_ID)).toBe('ready');
+  });
+
+  it('tells the other participant and the backend when the call ends', async () => {
+    await connectCall();
+
+    const status = nextEvent(volunteer.service, 'roomStatus');
+    await blind.service.endCall('Call ended by user');
+    const [roomStatus] = await status;
+
+    expect(roomStatus).toBe('ended');
+    expect(blind.api.endedCalls).toEqual([{ callId: CALL_ID, endReason: 'Call ended by user' }]);
+    expect(blind.api.endedMatches).toEqual([{ roomId: ROOM_ID, endReason: 'Call ended by user' }]);
+    expect(blind.service.currentRoom).toBeNull();
+  });
+
+  it('still ends the call on the backend when the room cannot be told', async () => {
+    await connectCall();
+
+    blind.transport.send = () => {
+      throw new Error('Socket dropped');
+    };
+    await blind.service.endCall('Call ended by user');
+
+    expect(blind.api.endedCalls).toEqual([{ callId: CALL_ID, endReason: 'Call ended by user' }]);
+    expect(blind.service.currentRoom).toBeNull();
+  });
+
+  it('files the quality report under the call id', async () => {
+    // Sampling runs on a long interval in these tests; sample this call often
+    blind = createParticipant({ statsIntervalMs: 10 });
+    await connectCall();
+    await nextEvent(blind.service, 'stats');
+    await blind.service.endCall('Call ended by user');
+
+    expect(blind.api.qualityReports.map(({ callId }) => callId)).toEqual([CALL_ID]);
+  });
+
+  it('ends the call when it cannot be recovered within the grace period', async () => {
+    await connectCall();
+
+    const failure = Promise.all([
+      nextEvent(blind.service, 'error'),
+      nextEvent(blind.service, 'disconnected'),
+    ]);
+    network.interrupt();
+    const [[error]] = await failure;
+
+    expect(error.code).toBe('connection_lost');
+
+    // endCall runs after the disconnected event
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(blind.api.endedCalls).toEqual([{ callId: CALL_ID, endReason: 'connection_lost' }]);
+    expect(blind.api.endedMatches).toEqual([{ roomId: ROOM_ID, endReason: 'connection_lost' }]);
+  });
+
+  describe('with a second volunteer', () => {
+    // A second volunteer joins the call in progress
+    const addHelper = async (): Promise<void> => {
+      await helper.service.initialize('volunteer-2', 'volunteer');
+
+      // The helper connects to both of the others
+      const helperConnected = new Promise<void>(resolve => {
+        const peers = new Set<string>();
+        const unsubscribe = helper.service.on('connected', userId => {
+          peers.add(userId);
+          if (peers.size === 2) {
+            unsubscribe();
+            resolve();
+          }
+        });
+      });
+      const connected = Promise.all([
+        nextEvent(blind.service, 'connected'),
+        nextEvent(volunteer.service, 'connected'),
+        helperConnected,
+      ]);
+      await helper.service.joinRoom(ROOM_ID);
+      await connected;
+    };
+
+    it('connects every participant to every other', async () => {
+      await connectCall();
+      await addHelper();
+
+      const ids = (participant: Participant) =>
+        participant.service.participants.map(peer => peer.userId).sort();
+
+      expect(ids(blind)).toEqual(['volunteer-1', 'volunteer-2']);
+      expect(ids(volunteer)).toEqual(['blind-1', 'volunteer-2']);
+      expect(ids(helper)).toEqual(['blind-1', 'volunteer-1']);
+      expect(helper.service.participants.every(peer => peer.isConnected && peer.stream)).toBe(true);
+
+      // Helpers watch the blind user's camera in the main view
+      expect(helper.service.remotePeer).toBe('blind-1');
+      expect(helper.service.remoteVideoStream).toBe(blind.service.localVideoStream);
+    });
+
+    it('keeps the call going when the helper leaves', async () => {
+      await connectCall();
+      await addHelper();
+
+      const left = Promise.all([
+        nextEvent(blind.service, 'peerLeft'),
+        nextEvent(volunteer.service, 'peerLeft'),
+      ]);
+      await helper.service.leaveCall();
+      const [[blindLeft], [volunteerLeft]] = await left;
+
+      expect(blindLeft).toBe('volunteer-2');
+      expect(volunteerLeft).toBe('volunteer-2');
+      expect(blind.service.participants.map(peer => peer.userId)).toEqual(['volunteer-1']);
+      expect(hub.getRoomStatus(ROOM_ID)).toBe('ready');
+      expect(helper.api.endedCalls).toEqual([]);
+      // Frees their place so another helper can be invited
+      expect(helper.api.leftRooms).toEqual([ROOM_ID]);
+    });
+
+    it('hands the call over to another volunteer', async () => {
+      await connectCall();
+      await addHelper();
+
+      const handover = Promise.all([
+        nextEvent(blind.service, 'callHandover'),
+        nextEvent(blind.service, 'peerLeft'),
+      ]);
+      await volunteer.service.handOverCall('volunteer-2', 'call-2');
+      const [[fromUserId, toUserId, callId], [leftUserId]] = await handover;
+
+      expect(fromUserId).toBe('volunteer-1');
+      expect(toUserId).toBe('volunteer-2');
+      expect(callId).toBe('call-2');
+      // The rest of the call is filed under the new volunteer's record
+      expect(blind.service.currentCall).toBe('call-2');
+      expect(leftUserId).toBe('volunteer-1');
+      expect(blind.service.remotePeer).toBe('volunteer-2');
+      expect(volunteer.api.endedCalls).toEqual([]);
+      expect(volunteer.api.leftRooms).toEqual([]);
+    });
+
+    it('turns away a fourth participant', async () => {
+      await connectCall();
+      await addHelper();
+
+      const extra = createParticipant();
+      await extra.service.initialize('volunteer-3', 'volunteer');
+      const failure = nextEvent(extra.service, 'error');
+      await extra.service.joinRoom(ROOM_ID);
+      const [error] = await failure;
+      extra.service.cleanup();
+
+      expect(error.code).toBe('room_full');
+      expect(blind.service.participants).toHaveLength(2);
+    });
+  });
+});
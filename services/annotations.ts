@@ -0,0 +1,91 @@
+// Pointer and freehand annotations a volunteer draws over the blind user's
+// video, in 0-1 coordinates normalized to the video view
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type Annotation =
+  | { id: string; kind: 'pointer'; point: AnnotationPoint }
+  | { id: string; kind: 'stroke'; points: AnnotationPoint[] };
+
+// Enough to keep a stroke's shape while fitting in one control message
+export const MAX_STROKE_POINTS = 64;
+
+// Older annotations are dropped so the overlay stays readable
+export const MAX_ANNOTATIONS = 10;
+
+let annotationCounter = 0;
+export const createAnnotationId = (): string =>
+  `${Date.now().toString(36)}-${(++annotationCounter).toString(36)}`;
+
+const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+
+export const normalizePoint = (
+  x: number,
+  y: number,
+  size: { width: number; height: number }
+): AnnotationPoint => ({
+  x: clamp(x / size.width),
+  y: clamp(y / size.height),
+});
+
+// Keep evenly spaced points, always including the last one
+export const simplifyStroke = (points: AnnotationPoint[]): AnnotationPoint[] => {
+  if (points.length <= MAX_STROKE_POINTS) {
+    return points;
+  }
+
+  const step = (points.length - 1) / (MAX_STROKE_POINTS - 1);
+  return Array.from({ length: MAX_STROKE_POINTS }, (_, index) => points[Math.round(index * step)]);
+};
+
+const isPoint = (value: any): value is AnnotationPoint =>
+  !!value &&
+  Number.isFinite(value.x) && value.x >= 0 && value.x <= 1 &&
+  Number.isFinite(value.y) && value.y >= 0 && value.y <= 1;
+
+// Annotations arrive over the data channel, so check them before drawing
+export const isAnnotation = (value: any): value is Annotation => {
+  if (!value || typeof value.id !== 'string') {
+    return false;
+  }
+
+  switch (value.kind) {
+    case 'pointer':
+      return isPoint(value.point);
+    case 'stroke':
+      return Array.isArray(value.points) &&
+        value.points.length > 0 &&
+        value.points.length <= MAX_STROKE_POINTS &&
+        value.points.every(isPoint);
+    default:
+      return false;
+  }
+};
+
+export const getAnnotationCenter = (annotation: Annotation): AnnotationPoint => {
+  if (annotation.kind === 'pointer') {
+    return annotation.point;
+  }
+
+  const xs = annotation.points.map(point => point.x);
+  const ys = annotation.points.map(point => point.y);
+  return {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2,
+  };
+};
+
+// Which third of the view the annotation is in, e.g. "top right" or "center"
+export const describeAnnotationPosition = (annotation: Annotation): string => {
+  const { x, y } = getAnnotationCenter(annotation);
+  const vertical = y < 1 / 3 ? 'top' : y > 2 / 3 ? 'bottom' : '';
+  const horizontal = x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : '';
+
+  if (!vertical && !horizontal) {
+    return 'center';
+  }
+  return [vertical, horizontal].filter(Boolean).join(' ');
+};
@@ -15,9 +15,14 @@ class ApiService {
     this.baseURL = API_BASE_URL;
   }
 
+  // Get the stored access token (used to authenticate the signaling socket)
+  async getAccessToken() {
+    return AsyncStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
   // Get auth headers
   async getAuthHeaders() {
-    const accessToken = await AsyncStorage.getItem(ACCESS_TOKEN_KEY);
+    const accessToken = await this.getAccessToken();
     const headers = {
       'Content-Type': 'application/json',
     };
@@ -227,6 +232,27 @@ class ApiService {
     return this.request(`/matching/accept/${roomId}`, { method: 'POST' });
   }
 
+  // Bring a second helper into the call, e.g. { language: 'es' }
+  async inviteHelper(roomId, options = {}) {
+    return this.request(`/matching/invite/${roomId}`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  // Warm transfer, e.g. { reason: 'language', language: 'es' }; the call
+  // stays up until completeTransfer once the new volunteer has joined
+  async requestTransfer(roomId, options) {
+    return this.request(`/matching/transfer/${roomId}`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  async completeTransfer(roomId) {
+    return this.request(`/matching/transfer/${roomId}/complete`, { method: 'POST' });
+  }
+
   async declineMatch(roomId, reason) {
     return this.request(`/matching/decline/${roomId}`, {
       method: 'POST',
@@ -234,13 +260,24 @@ class ApiService {
     });
   }
 
-  async endCall(roomId, endReason) {
+  // Leave a call as a helper without ending it for the others
+  async leaveMatchingCall(roomId) {
+    return this.request(`/matching/leave/${roomId}`, { method: 'POST' });
+  }
+
+  // End a matched call for everyone, freeing its volunteers and helpers
+  async endMatchingCall(roomId, endReason) {
     return this.request(`/matching/end/${roomId}`, {
       method: 'POST',
       body: JSON.stringify({ endReason }),
     });
   }
 
+  // Calls offered to this volunteer: new matches, transfers and helper invites
+  async getIncomingCalls() {
+    return this.request('/matching/incoming');
+  }
+
   async getQueueStatus() {
     return this.request('/matching/queue-status');
   }
@@ -275,6 +312,13 @@ class ApiService {
     });
   }
 
+  async submitCallQualityReport(callId, report) {
+    return this.request(`/calls/${callId}/quality`, {
+      method: 'POST',
+      body: JSON.stringify(report),
+    });
+  }
+
   async getCallHistory(limit = 20, offset = 0, status = null, userType = null) {
     const query = new URLSearchParams({
       limit: limit.toString(),
@@ -359,12 +403,18 @@ export const {
   startMatching,
   cancelMatching,
   acceptMatch,
+  inviteHelper,
+  requestTransfer,
+  completeTransfer,
   declineMatch,
-  endCall: endMatchingCall,
+  leaveMatchingCall,
+  endMatchingCall,
+  getIncomingCalls,
   createCall,
   getCall,
   updateCall,
   endCall: endApiCall,
+  submitCallQualityReport,
   getCallHistory,
   getActiveCalls,
   getCallStats,
@@ -0,0 +1,89 @@
+// Chooses how much video a call can afford from live getStats() samples
+import { CallStatsSample } from './callQuality';
+
+export type MediaQualityMode = 'full' | 'reduced' | 'audio_only';
+
+// Encoding applied to the outgoing video sender for each mode. Audio-only
+// still sends a trickle of video: with nothing sent the sender stops getting
+// a bandwidth estimate, and the call could never step back up
+export const VIDEO_ENCODINGS: Record<MediaQualityMode, RTCRtpEncodingParameters> = {
+  full: { active: true, maxBitrate: 1500000, maxFramerate: 30, scaleResolutionDownBy: 1 },
+  reduced: { active: true, maxBitrate: 300000, maxFramerate: 15, scaleResolutionDownBy: 2 },
+  audio_only: { active: true, maxBitrate: 30000, maxFramerate: 1, scaleResolutionDownBy: 8 },
+};
+
+const MODE_ORDER: MediaQualityMode[] = ['audio_only', 'reduced', 'full'];
+
+// Below these the link can't carry the richer mode
+const AUDIO_ONLY_BITRATE = 150000;
+const REDUCED_BITRATE = 600000;
+const AUDIO_ONLY_LOSS_PERCENT = 15;
+const REDUCED_LOSS_PERCENT = 5;
+
+// Degrade after a couple of bad samples, but only upgrade after a sustained
+// run of good ones so the mode doesn't flap on a marginal connection
+const DOWNGRADE_AFTER = 2;
+const UPGRADE_AFTER = 4;
+
+// What the latest sample alone would allow
+const modeForSample = (sample: CallStatsSample): MediaQualityMode => {
+  const bitrate = sample.availableOutgoingBitrate;
+  const loss = Math.max(sample.videoPacketLossPercent || 0, sample.audioPacketLossPercent || 0);
+
+  if ((bitrate !== null && bitrate < AUDIO_ONLY_BITRATE) || loss >= AUDIO_ONLY_LOSS_PERCENT) {
+    return 'audio_only';
+  }
+  if ((bitrate !== null && bitrate < REDUCED_BITRATE) || loss >= REDUCED_LOSS_PERCENT) {
+    return 'reduced';
+  }
+  return 'full';
+};
+
+export class BandwidthAdapter {
+  private mode: MediaQualityMode = 'full';
+  private pendingMode: MediaQualityMode | null = null;
+  private pendingCount: number = 0;
+
+  get currentMode(): MediaQualityMode {
+    return this.mode;
+  }
+
+  // Feed a sample; returns the new mode when it should change, else null
+  update(sample: CallStatsSample): MediaQualityMode | null {
+    const target = modeForSample(sample);
+
+    if (target === this.mode) {
+      this.pendingMode = null;
+      this.pendingCount = 0;
+      return null;
+    }
+
+    if (target !== this.pendingMode) {
+      this.pendingMode = target;
+      this.pendingCount = 0;
+    }
+    this.pendingCount++;
+
+    const isDowngrade = MODE_ORDER.indexOf(target) < MODE_ORDER.indexOf(this.mode);
+    const required = isDowngrade ? DOWNGRADE_AFTER : UPGRADE_AFTER;
+    if (this.pendingCount < required) {
+      return null;
+    }
+
+    // Step up one level at a time; step down straight to what's needed
+    const next = isDowngrade
+      ? target
+      : MODE_ORDER[MODE_ORDER.indexOf(this.mode) + 1];
+
+    this.mode = next;
+    this.pendingMode = null;
+    this.pendingCount = 0;
+    return next;
+  }
+
+  reset(): void {
+    this.mode = 'full';
+    this.pendingMode = null;
+    this.pendingCount = 0;
+  }
+}
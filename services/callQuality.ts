@@ -0,0 +1,227 @@
+// Call quality telemetry derived from RTCPeerConnection.getStats()
+
+export interface CallStatsSample {
+  timestamp: number;
+  roundTripTimeMs: number | null;
+  jitterMs: number | null;
+  audioPacketLossPercent: number | null;
+  videoPacketLossPercent: number | null;
+  framesPerSecond: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  availableOutgoingBitrate: number | null;
+}
+
+// Same shape the admin CallHistory screen renders (0-100 each)
+export interface CallQualityScores {
+  videoQuality: number;
+  audioQuality: number;
+  connectionStability: number;
+}
+
+export interface CallQualityReport extends CallQualityScores {
+  sampleCount: number;
+  durationSeconds: number;
+  reconnectCount: number;
+  averages: {
+    roundTripTimeMs: number | null;
+    jitterMs: number | null;
+    audioPacketLossPercent: number | null;
+    videoPacketLossPercent: number | null;
+    framesPerSecond: number | null;
+    frameWidth: number | null;
+    frameHeight: number | null;
+    availableOutgoingBitrate: number | null;
+  };
+}
+
+// Cumulative packet counters from the previous sample, so loss is measured
+// per interval instead of over the whole call
+export interface PacketCounters {
+  audio: { received: number; lost: number };
+  video: { received: number; lost: number };
+}
+
+const lossPercent = (
+  current: { received: number; lost: number },
+  previous: { received: number; lost: number } | undefined
+): number | null => {
+  const received = current.received - (previous?.received || 0);
+  const lost = current.lost - (previous?.lost || 0);
+  const total = received + lost;
+
+  if (total <= 0) return null;
+  return Math.max(0, (lost / total) * 100);
+};
+
+// Pull the metrics we care about out of a getStats() report
+export const parseStatsReport = (
+  report: RTCStatsReport,
+  previousCounters?: PacketCounters
+): { sample: CallStatsSample; counters: PacketCounters } => {
+  const sample: CallStatsSample = {
+    timestamp: Date.now(),
+    roundTripTimeMs: null,
+    jitterMs: null,
+    audioPacketLossPercent: null,
+    videoPacketLossPercent: null,
+    framesPerSecond: null,
+    frameWidth: null,
+    frameHeight: null,
+    availableOutgoingBitrate: null,
+  };
+  const counters: PacketCounters = {
+    audio: { received: 0, lost: 0 },
+    video: { received: 0, lost: 0 },
+  };
+
+  report.forEach((stat: any) => {
+    switch (stat.type) {
+      case 'candidate-pair':
+        if (stat.nominated && stat.state === 'succeeded') {
+          if (typeof stat.currentRoundTripTime === 'number') {
+            sample.roundTripTimeMs = stat.currentRoundTripTime * 1000;
+          }
+          if (typeof stat.availableOutgoingBitrate === 'number') {
+            sample.availableOutgoingBitrate = stat.availableOutgoingBitrate;
+          }
+        }
+        break;
+
+      case 'remote-inbound-rtp':
+        // Fallback RTT from RTCP when the candidate pair doesn't report one
+        if (sample.roundTripTimeMs === null && typeof stat.roundTripTime === 'number') {
+          sample.roundTripTimeMs = stat.roundTripTime * 1000;
+        }
+        break;
+
+      case 'inbound-rtp': {
+        const kind = stat.kind || stat.mediaType;
+        if (kind !== 'audio' && kind !== 'video') break;
+
+        counters[kind].received += stat.packetsReceived || 0;
+        counters[kind].lost += stat.packetsLost || 0;
+
+        if (kind === 'audio' && typeof stat.jitter === 'number') {
+          sample.jitterMs = stat.jitter * 1000;
+        }
+
+        if (kind === 'video') {
+          if (typeof stat.framesPerSecond === 'number') {
+            sample.framesPerSecond = stat.framesPerSecond;
+          }
+          if (typeof stat.frameWidth === 'number') {
+            sample.frameWidth = stat.frameWidth;
+            sample.frameHeight = stat.frameHeight ?? null;
+          }
+        }
+        break;
+      }
+    }
+  });
+
+  sample.audioPacketLossPercent = lossPercent(counters.audio, previousCounters?.audio);
+  sample.videoPacketLossPercent = lossPercent(counters.video, previousCounters?.video);
+
+  return { sample, counters };
+};
+
+const worst = (
+  values: Array<number | null>,
+  pick: (...values: number[]) => number
+): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? pick(...present) : null;
+};
+
+// Combine simultaneous samples from each peer of a group call into one. The
+// same camera feeds every peer, so the weakest link decides the media mode
+export const combineStatsSamples = (samples: CallStatsSample[]): CallStatsSample => {
+  if (samples.length === 1) return samples[0];
+
+  const lowest = samples.reduce<CallStatsSample | null>((current, sample) =>
+    current === null || (sample.frameHeight ?? Infinity) < (current.frameHeight ?? Infinity)
+      ? sample
+      : current, null);
+
+  return {
+    timestamp: Math.max(...samples.map(s => s.timestamp)),
+    roundTripTimeMs: worst(samples.map(s => s.roundTripTimeMs), Math.max),
+    jitterMs: worst(samples.map(s => s.jitterMs), Math.max),
+    audioPacketLossPercent: worst(samples.map(s => s.audioPacketLossPercent), Math.max),
+    videoPacketLossPercent: worst(samples.map(s => s.videoPacketLossPercent), Math.max),
+    framesPerSecond: worst(samples.map(s => s.framesPerSecond), Math.min),
+    frameWidth: lowest?.frameWidth ?? null,
+    frameHeight: lowest?.frameHeight ?? null,
+    availableOutgoingBitrate: worst(samples.map(s => s.availableOutgoingBitrate), Math.min),
+  };
+};
+
+const average = (values: Array<number | null>): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  return present.reduce((sum, value) => sum + value, 0) / present.length;
+};
+
+const clampScore = (score: number): number => Math.round(Math.max(0, Math.min(100, score)));
+
+// A sample is "stable" when the link was usable for a live video call
+const isStableSample = (sample: CallStatsSample): boolean =>
+  (sample.roundTripTimeMs === null || sample.roundTripTimeMs < 500) &&
+  (sample.audioPacketLossPercent === null || sample.audioPacketLossPercent < 5) &&
+  (sample.videoPacketLossPercent === null || sample.videoPacketLossPercent < 5);
+
+// Reduce a call's samples to the 0-100 scores stored on the call record
+export const summarizeCallQuality = (
+  samples: CallStatsSample[],
+  reconnectCount: number = 0
+): CallQualityReport => {
+  const averages = {
+    roundTripTimeMs: average(samples.map(s => s.roundTripTimeMs)),
+    jitterMs: average(samples.map(s => s.jitterMs)),
+    audioPacketLossPercent: average(samples.map(s => s.audioPacketLossPercent)),
+    videoPacketLossPercent: average(samples.map(s => s.videoPacketLossPercent)),
+    framesPerSecond: average(samples.map(s => s.framesPerSecond)),
+    frameWidth: average(samples.map(s => s.frameWidth)),
+    frameHeight: average(samples.map(s => s.frameHeight)),
+    availableOutgoingBitrate: average(samples.map(s => s.availableOutgoingBitrate)),
+  };
+
+  const rtt = averages.roundTripTimeMs || 0;
+  const jitter = averages.jitterMs || 0;
+  const audioLoss = averages.audioPacketLossPercent || 0;
+  const videoLoss = averages.videoPacketLossPercent || 0;
+
+  // Audio degrades with loss first, then jitter and conversational delay
+  const audioQuality = 100
+    - Math.min(audioLoss * 5, 50)
+    - Math.min(Math.max(jitter - 30, 0) * 0.5, 25)
+    - Math.min(Math.max(rtt - 300, 0) / 20, 25);
+
+  // Video: resolution (720p is full marks), smoothness and loss
+  const resolutionScore = Math.min((averages.frameHeight || 0) / 720, 1) * 40;
+  const frameRateScore = Math.min((averages.framesPerSecond || 0) / 30, 1) * 30;
+  const lossScore = (1 - Math.min(videoLoss / 10, 1)) * 30;
+  const videoQuality = averages.frameHeight === null
+    ? 0
+    : resolutionScore + frameRateScore + lossScore;
+
+  const stableRatio = samples.length > 0
+    ? samples.filter(isStableSample).length / samples.length
+    : 0;
+  const connectionStability = stableRatio * 100 - reconnectCount * 10;
+
+  const durationSeconds = samples.length > 1
+    ? Math.round((samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000)
+    : 0;
+
+  return {
+    videoQuality: clampScore(videoQuality),
+    audioQuality: clampScore(samples.length > 0 ? audioQuality : 0),
+    connectionStability: clampScore(connectionStability),
+    sampleCount: samples.length,
+    durationSeconds,
+    reconnectCount,
+    averages,
+  };
+};
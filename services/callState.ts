@@ -0,0 +1,257 @@
+import { TypedEventEmitter, Unsubscribe } from './eventEmitter';
+
+// The one place the app's call status lives. Dashboards, the call screen,
+// voice commands and announcements all read it from here, and it only
+// changes through the transitions below
+
+export type CallPhase =
+  | 'idle'
+  // The blind user asked for help; matching is starting
+  | 'requesting'
+  // Waiting in the queue for a volunteer to accept
+  | 'queued'
+  // A volunteer is being asked to take a call
+  | 'ringing'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'ending'
+  // The call is over and the blind user can rate their volunteer
+  | 'rating';
+
+export type CallRole = 'blind' | 'volunteer';
+
+export interface IncomingCall {
+  id: string;
+  // The backend's record of the call, when the offer came from it
+  callId?: string;
+  userName: string;
+  userPhoto?: string;
+  helpReason: string;
+  timestamp: string;
+  // Invited by the volunteer already on the call, to join as a second helper
+  isHelperInvite?: boolean;
+  // Asked to take over the call from the volunteer on it (warm transfer)
+  isTransfer?: boolean;
+}
+
+// Why a call ended, for telling the user
+export type CallEndReason =
+  | 'hung_up'
+  // An additional helper left; the call goes on for the others
+  | 'left'
+  // A volunteer passed the call on to another in a warm transfer
+  | 'handed_over'
+  | 'remote_ended'
+  | 'connection_lost';
+
+export interface CallState {
+  phase: CallPhase;
+  role: CallRole | null;
+  sessionId: string | null;
+  // The backend's record of the call, which the end of the call, ratings and
+  // quality reports are filed against. A handover starts a new one
+  callId: string | null;
+  // The person on the other end, once known
+  peerName: string | null;
+  incomingCall: IncomingCall | null;
+  estimatedWaitTime: number | null;
+  connectedAt: number | null;
+  // Why the last call attempt failed, spoken and shown to the user
+  error: string | null;
+}
+
+export type CallEvent =
+  | { type: 'REQUEST_HELP' }
+  | { type: 'QUEUED'; sessionId: string; callId?: string; estimatedWaitTime?: number }
+  | { type: 'MATCHED'; volunteerName?: string }
+  | { type: 'INCOMING_CALL'; call: IncomingCall }
+  | { type: 'ACCEPT' }
+  | { type: 'DECLINE' }
+  // The caller gave up waiting, or the volunteer stopped being asked
+  | { type: 'CANCEL' }
+  | { type: 'CONNECTED' }
+  | { type: 'INTERRUPTED' }
+  // The call was handed over to another volunteer, under a new record
+  | { type: 'CALL_ID_CHANGED'; callId: string }
+  | { type: 'HANG_UP' }
+  | { type: 'ENDED'; reason: CallEndReason }
+  | { type: 'FAILED'; error: string }
+  | { type: 'RATED' }
+  // Back to idle from anywhere, e.g. on sign out
+  | { type: 'RESET' };
+
+export type CallEventType = CallEvent['type'];
+
+export const INITIAL_CALL_STATE: CallState = {
+  phase: 'idle',
+  role: null,
+  sessionId: null,
+  callId: null,
+  peerName: null,
+  incomingCall: null,
+  estimatedWaitTime: null,
+  connectedAt: null,
+  error: null,
+};
+
+// Which events each phase accepts; everything else is an illegal transition
+const ALLOWED_EVENTS: Record<CallPhase, CallEventType[]> = {
+  idle: ['REQUEST_HELP', 'INCOMING_CALL'],
+  requesting: ['QUEUED', 'MATCHED', 'CANCEL', 'FAILED'],
+  queued: ['MATCHED', 'CANCEL', 'FAILED'],
+  ringing: ['ACCEPT', 'DECLINE', 'CANCEL'],
+  connecting: ['CONNECTED', 'CALL_ID_CHANGED', 'HANG_UP', 'ENDED', 'FAILED'],
+  connected: ['INTERRUPTED', 'CALL_ID_CHANGED', 'HANG_UP', 'ENDED'],
+  reconnecting: ['CONNECTED', 'CALL_ID_CHANGED', 'HANG_UP', 'ENDED', 'FAILED'],
+  ending: ['ENDED'],
+  rating: ['RATED'],
+};
+
+export const canTransition = (state: CallState, type: CallEventType): boolean =>
+  type === 'RESET' || ALLOWED_EVENTS[state.phase].includes(type);
+
+// The call screen is up from connecting until the call has ended
+export const isInCall = (phase: CallPhase): boolean =>
+  phase === 'connecting' || phase === 'connected' || phase === 'reconnecting' || phase === 'ending';
+
+// The next state, or null if the event isn't allowed in the current phase
+export const transition = (state: CallState, event: CallEvent): CallState | null => {
+  if (!canTransition(state, event.type)) {
+    return null;
+  }
+
+  switch (event.type) {
+    case 'REQUEST_HELP':
+      return { ...INITIAL_CALL_STATE, phase: 'requesting', role: 'blind' };
+
+    case 'QUEUED':
+      return {
+        ...state,
+        phase: 'queued',
+        sessionId: event.sessionId,
+        callId: event.callId ?? null,
+        estimatedWaitTime: event.estimatedWaitTime ?? null,
+      };
+
+    case 'MATCHED':
+      return { ...state, phase: 'connecting', peerName: event.volunteerName || null };
+
+    case 'INCOMING_CALL':
+      return {
+        ...INITIAL_CALL_STATE,
+        phase: 'ringing',
+        role: 'volunteer',
+        sessionId: event.call.id,
+        callId: event.call.callId ?? null,
+        peerName: event.call.userName,
+        incomingCall: event.call,
+      };
+
+    case 'ACCEPT':
+      return { ...state, phase: 'connecting' };
+
+    case 'DECLINE':
+    case 'CANCEL':
+    case 'RATED':
+    case 'RESET':
+      return INITIAL_CALL_STATE;
+
+    case 'CONNECTED':
+      return { ...state, phase: 'connected', connectedAt: state.connectedAt ?? Date.now() };
+
+    case 'INTERRUPTED':
+      return { ...state, phase: 'reconnecting' };
+
+    case 'CALL_ID_CHANGED':
+      return { ...state, callId: event.callId };
+
+    case 'HANG_UP':
+      return { ...state, phase: 'ending' };
+
+    case 'ENDED':
+      // Only blind users rate, and only calls that actually happened
+      return state.role === 'blind' && state.connectedAt !== null
+        ? { ...state, phase: 'rating' }
+        : INITIAL_CALL_STATE;
+
+    case 'FAILED':
+      return { ...INITIAL_CALL_STATE, error: event.error };
+  }
+};
+
+const END_ANNOUNCEMENTS: Record<CallEndReason, string> = {
+  hung_up: 'Call ended',
+  left: 'You left the call',
+  handed_over: 'Call handed over',
+  remote_ended: 'The other person ended the call',
+  connection_lost: 'Call ended. The connection could not be restored.',
+};
+
+// What to announce for a transition, if anything
+export const describeTransition = (
+  previous: CallState,
+  next: CallState,
+  event: CallEvent
+): string | null => {
+  switch (event.type) {
+    case 'REQUEST_HELP':
+      return 'Requesting help from volunteers';
+    case 'MATCHED':
+      return 'Volunteer found, connecting to video call';
+    case 'INCOMING_CALL':
+      return `Incoming help request from ${event.call.userName}: ${event.call.helpReason}`;
+    case 'ACCEPT':
+      return 'Accepting call, connecting to user';
+    case 'DECLINE':
+      return 'Call declined';
+    case 'CANCEL':
+      return previous.phase === 'ringing' ? 'The help request was withdrawn' : 'Help request cancelled';
+    case 'CONNECTED':
+      return previous.phase === 'reconnecting' ? 'Call reconnected' : 'Call connected successfully';
+    case 'INTERRUPTED':
+      return 'Connection interrupted. Reconnecting, please stay on the call.';
+    case 'ENDED':
+      return next.phase === 'rating'
+        ? `${END_ANNOUNCEMENTS[event.reason]}. You can now rate your volunteer.`
+        : END_ANNOUNCEMENTS[event.reason];
+    case 'FAILED':
+      return event.error;
+    default:
+      return null;
+  }
+};
+
+export interface CallStateEvents {
+  change: (state: CallState, previous: CallState, event: CallEvent) => void;
+}
+
+export class CallStateStore {
+  private current: CallState = INITIAL_CALL_STATE;
+  private events = new TypedEventEmitter<CallStateEvents>();
+
+  get state(): CallState {
+    return this.current;
+  }
+
+  // Apply an event; returns false, leaving the state alone, if it isn't
+  // allowed in the current phase
+  send(event: CallEvent): boolean {
+    const next = transition(this.current, event);
+    if (!next) {
+      console.warn(`Ignoring call event ${event.type} while ${this.current.phase}`);
+      return false;
+    }
+
+    const previous = this.current;
+    this.current = next;
+    this.events.emit('change', next, previous, event);
+    return true;
+  }
+
+  subscribe(listener: CallStateEvents['change']): Unsubscribe {
+    return this.events.on('change', listener);
+  }
+}
+
+export const callStateStore = new CallStateStore();
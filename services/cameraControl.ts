@@ -0,0 +1,126 @@
+// Remote camera controls (torch, zoom, focus) applied to a local video track
+// through applyConstraints, where the track says it supports them.
+//
+// react-native-webrtc doesn't: its getCapabilities() throws, getSettings()
+// only reports size, frame rate, facing mode and device, and applyConstraints()
+// doesn't pass torch or zoom on to the camera. So on phones no control is
+// offered and volunteers don't see the camera tools; that needs a native
+// camera path first
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// What the blind user's camera supports, so the volunteer only sees
+// controls that will actually work
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: ZoomRange | null;
+  focus: boolean;
+}
+
+export interface CameraState {
+  torch: boolean;
+  zoom: number | null;
+}
+
+export type CameraControlRequest =
+  | { control: 'torch'; on: boolean }
+  | { control: 'zoom'; level: number }
+  // Normalized 0-1 coordinates in the volunteer's view of the video
+  | { control: 'focus'; x: number; y: number };
+
+export const NO_CAMERA_CAPABILITIES: CameraCapabilities = {
+  torch: false,
+  zoom: null,
+  focus: false,
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
+// getCapabilities() isn't implemented everywhere (react-native-webrtc throws),
+// so fall back to the settings the track reports; with neither, nothing is
+// supported
+export const getCameraCapabilities = (track: MediaStreamTrack | undefined): CameraCapabilities => {
+  if (!track || track.kind !== 'video') {
+    return NO_CAMERA_CAPABILITIES;
+  }
+
+  let capabilities: any = {};
+  try {
+    capabilities = track.getCapabilities?.() || {};
+  } catch (error) {
+    capabilities = {};
+  }
+
+  let settings: any = {};
+  try {
+    settings = track.getSettings?.() || {};
+  } catch (error) {
+    settings = {};
+  }
+
+  const zoom = capabilities.zoom && typeof capabilities.zoom.max === 'number'
+    ? {
+      min: capabilities.zoom.min ?? 1,
+      max: capabilities.zoom.max,
+      step: capabilities.zoom.step || 0.1,
+    }
+    : null;
+
+  return {
+    torch: capabilities.torch === true || typeof settings.torch === 'boolean',
+    zoom: zoom && zoom.max > zoom.min ? zoom : null,
+    focus: Array.isArray(capabilities.focusMode)
+      ? capabilities.focusMode.includes('single-shot') || capabilities.focusMode.includes('manual')
+      : 'pointsOfInterest' in settings,
+  };
+};
+
+export const getCameraState = (track: MediaStreamTrack | undefined): CameraState => {
+  let settings: any = {};
+  try {
+    settings = track?.getSettings?.() || {};
+  } catch (error) {
+    settings = {};
+  }
+
+  return {
+    torch: settings.torch === true,
+    zoom: typeof settings.zoom === 'number' ? settings.zoom : null,
+  };
+};
+
+// Apply a volunteer's request to the track; unsupported requests are rejected
+export const applyCameraControl = async (
+  track: MediaStreamTrack,
+  request: CameraControlRequest,
+  capabilities: CameraCapabilities
+): Promise<void> => {
+  let constraint: Record<string, any>;
+
+  switch (request.control) {
+    case 'torch':
+      if (!capabilities.torch) throw new Error('Flashlight is not supported');
+      constraint = { torch: request.on };
+      break;
+
+    case 'zoom':
+      if (!capabilities.zoom) throw new Error('Zoom is not supported');
+      constraint = { zoom: clamp(request.level, capabilities.zoom.min, capabilities.zoom.max) };
+      break;
+
+    case 'focus':
+      if (!capabilities.focus) throw new Error('Focus is not supported');
+      constraint = {
+        focusMode: 'single-shot',
+        pointsOfInterest: [{ x: clamp(request.x, 0, 1), y: clamp(request.y, 0, 1) }],
+      };
+      break;
+  }
+
+  await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+};
@@ -0,0 +1,72 @@
+// Choosing which physical camera a call captures from
+
+export type CameraFacing = 'user' | 'environment';
+
+// react-native-webrtc's enumerateDevices() adds a facing field
+interface VideoInputDevice {
+  deviceId: string;
+  label: string;
+  kind: string;
+  facing?: string;
+}
+
+// Lower is better. Ultra-wide lenses distort and focus poorly up close, and
+// telephoto lenses need the phone held far away, so the plain wide lens is
+// preferred for reading labels and documents
+const lensPenalty = (label: string): number => {
+  const normalized = label.toLowerCase();
+  if (normalized.includes('ultra')) return 3;
+  if (normalized.includes('telephoto')) return 2;
+  // Virtual multi-lens cameras switch lenses by themselves mid-call
+  if (normalized.includes('dual') || normalized.includes('triple')) return 1;
+  return 0;
+};
+
+const matchesFacing = (device: VideoInputDevice, facing: CameraFacing): boolean =>
+  facing === 'user'
+    ? device.facing === 'front' || device.facing === 'user'
+    : device.facing === 'environment' || device.facing === 'back';
+
+// Pick the best camera for the requested facing. Android reports bare device
+// numbers as labels, where enumeration order (main camera first) decides
+export const chooseCameraDevice = (
+  devices: VideoInputDevice[],
+  facing: CameraFacing
+): string | null => {
+  const candidates = devices
+    .map((device, index) => ({ device, index }))
+    .filter(({ device }) => device.kind === 'videoinput' && matchesFacing(device, facing))
+    .sort((a, b) =>
+      lensPenalty(a.device.label) - lensPenalty(b.device.label) || a.index - b.index);
+
+  return candidates.length > 0 ? candidates[0].device.deviceId : null;
+};
+
+export const findCameraDevice = async (
+  mediaDevices: Pick<MediaDevices, 'enumerateDevices'>,
+  facing: CameraFacing
+): Promise<string | null> => {
+  try {
+    const devices = await mediaDevices.enumerateDevices();
+    return chooseCameraDevice(devices as VideoInputDevice[], facing);
+  } catch (error) {
+    console.warn('Failed to enumerate cameras:', error);
+    return null;
+  }
+};
+
+// What the track is actually capturing from, falling back to what was asked for
+export const getTrackFacing = (
+  track: MediaStreamTrack | undefined,
+  requested: CameraFacing
+): CameraFacing => {
+  try {
+    const facingMode = track?.getSettings?.().facingMode;
+    if (facingMode === 'user' || facingMode === 'environment') {
+      return facingMode;
+    }
+  } catch (error) {
+    // Fall through to the requested facing
+  }
+  return requested;
+};
@@ -0,0 +1,404 @@
+// Typed, versioned messaging over the call's RTCDataChannel
+
+export const DATA_CHANNEL_PROTOCOL_VERSION = 1;
+
+export interface ChatPayload {
+  text: string;
+}
+
+export interface ControlPayload {
+  command: string;
+  params?: Record<string, any>;
+}
+
+export interface AckPayload {
+  messageId: string;
+}
+
+export interface FileChunkPayload {
+  transferId: string;
+  // What the file is for, e.g. 'still' frames in low-bandwidth mode
+  purpose: string;
+  mimeType: string;
+  index: number;
+  total: number;
+  data: string;
+}
+
+export interface DataMessagePayloads {
+  chat: ChatPayload;
+  control: ControlPayload;
+  ack: AckPayload;
+  file_chunk: FileChunkPayload;
+}
+
+export type DataMessageKind = keyof DataMessagePayloads;
+
+export interface DataMessageEnvelope<K extends DataMessageKind = DataMessageKind> {
+  v: number;
+  id: string;
+  kind: K;
+  payload: DataMessagePayloads[K];
+  sentAt: number;
+  requiresAck?: boolean;
+}
+
+export type DataMessageHandler<K extends DataMessageKind> = (
+  payload: DataMessagePayloads[K],
+  envelope: DataMessageEnvelope<K>
+) => void;
+
+// A fully reassembled file received over the channel
+export interface ReceivedFile {
+  transferId: string;
+  purpose: string;
+  mimeType: string;
+  // base64 encoded contents
+  data: string;
+}
+
+export interface FileProgress {
+  transferId: string;
+  purpose: string;
+  received: number;
+  total: number;
+}
+
+export interface SendOptions {
+  requiresAck?: boolean;
+  ackTimeoutMs?: number;
+}
+
+const KINDS: DataMessageKind[] = ['chat', 'control', 'ack', 'file_chunk'];
+
+// Keep messages well under the SCTP message size limit
+const FILE_CHUNK_SIZE = 16 * 1024;
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+const MAX_OUTBOX_SIZE = 1000;
+// The most chunks a received file may have (16 MB of base64), and how long
+// a part-received file is kept without a new chunk before it's dropped
+const MAX_FILE_CHUNKS = 1024;
+const INCOMING_FILE_TIMEOUT_MS = 30000;
+
+let messageCounter = 0;
+const createMessageId = (): string => `${Date.now().toString(36)}-${(++messageCounter).toString(36)}`;
+
+const isEnvelope = (value: any): value is DataMessageEnvelope =>
+  value !== null &&
+  typeof value === 'object' &&
+  typeof value.v === 'number' &&
+  typeof value.id === 'string' &&
+  KINDS.includes(value.kind) &&
+  typeof value.payload === 'object' &&
+  value.payload !== null;
+
+// Chunk numbers come from the other peer, so they're checked before anything
+// is allocated for them
+const isFileChunk = (payload: any): payload is FileChunkPayload =>
+  typeof payload.transferId === 'string' &&
+  typeof payload.data === 'string' &&
+  Number.isInteger(payload.index) &&
+  Number.isInteger(payload.total) &&
+  payload.index >= 0 &&
+  payload.index < payload.total &&
+  payload.total <= MAX_FILE_CHUNKS;
+
+export class CallDataChannel {
+  private channel: RTCDataChannel | null = null;
+  private outbox: string[] = [];
+  private handlers: Map<DataMessageKind, Set<DataMessageHandler<any>>> = new Map();
+  private fileHandlers: Set<(file: ReceivedFile) => void> = new Set();
+  private progressHandlers: Set<(progress: FileProgress) => void> = new Set();
+  private pendingAcks: Map<string, {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }> = new Map();
+  private incomingFiles: Map<string, {
+    chunks: string[];
+    received: number;
+    // Drops the file if the rest of it doesn't arrive
+    timer: ReturnType<typeof setTimeout>;
+  }> = new Map();
+  // File sends waiting for the send buffer to drain
+  private bufferWaiters: Set<{ resolve: () => void; reject: (error: Error) => void }> = new Set();
+
+  get isOpen(): boolean {
+    return this.channel?.readyState === 'open';
+  }
+
+  // Attach a (re)created RTCDataChannel; anything queued is sent once it opens.
+  // onClosed fires if the channel closes while still attached
+  attach(channel: RTCDataChannel, onClosed?: () => void): void {
+    this.detach();
+    this.channel = channel;
+    channel.bufferedAmountLowThreshold = MAX_BUFFERED_AMOUNT / 4;
+
+    channel.onopen = () => {
+      console.log('Data channel open');
+      this.flushOutbox();
+    };
+
+    channel.onclose = () => {
+      console.log('Data channel closed');
+      // Queue from here on until a replacement channel is attached
+      this.channel = null;
+      this.rejectBufferWaiters();
+      onClosed?.();
+    };
+
+    channel.onmessage = (event) => {
+      this.handleRawMessage(event.data);
+    };
+
+    if (channel.readyState === 'open') {
+      this.flushOutbox();
+    }
+  }
+
+  detach(): void {
+    if (this.channel) {
+      this.channel.onopen = null;
+      this.channel.onclose = null;
+      this.channel.onmessage = null;
+      this.channel.onbufferedamountlow = null;
+      if (this.channel.readyState !== 'closed') {
+        this.channel.close();
+      }
+      this.channel = null;
+    }
+    this.rejectBufferWaiters();
+  }
+
+  // Send a typed message; with requiresAck the promise settles on the peer's ack
+  send<K extends DataMessageKind>(
+    kind: K,
+    payload: DataMessagePayloads[K],
+    options: SendOptions = {}
+  ): Promise<void> {
+    const envelope: DataMessageEnvelope<K> = {
+      v: DATA_CHANNEL_PROTOCOL_VERSION,
+      id: createMessageId(),
+      kind,
+      payload,
+      sentAt: Date.now(),
+      requiresAck: options.requiresAck || undefined,
+    };
+
+    const acknowledged = options.requiresAck
+      ? new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          this.pendingAcks.delete(envelope.id);
+          reject(new Error(`No acknowledgement for ${kind} message`));
+        }, options.ackTimeoutMs || 10000);
+        this.pendingAcks.set(envelope.id, { resolve, reject, timer });
+      })
+      : Promise.resolve();
+
+    this.sendRaw(JSON.stringify(envelope));
+    return acknowledged;
+  }
+
+  subscribe<K extends DataMessageKind>(kind: K, handler: DataMessageHandler<K>): () => void {
+    const handlers = this.handlers.get(kind) || new Set();
+    handlers.add(handler);
+    this.handlers.set(kind, handlers);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  // Send base64 data as a sequence of file_chunk messages. Files aren't
+  // queued: this rejects if the channel isn't open or closes part way, and
+  // progress counts chunks handed to the open channel
+  async sendFile(
+    data: string,
+    purpose: string,
+    mimeType: string,
+    onProgress?: (sent: number, total: number) => void
+  ): Promise<string> {
+    const transferId = createMessageId();
+    const total = Math.max(1, Math.ceil(data.length / FILE_CHUNK_SIZE));
+
+    for (let index = 0; index < total; index++) {
+      await this.waitForBufferSpace();
+      if (!this.isOpen) {
+        throw new Error('Data channel closed');
+      }
+
+      this.send('file_chunk', {
+        transferId,
+        purpose,
+        mimeType,
+        index,
+        total,
+        data: data.slice(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE),
+      });
+      onProgress?.(index + 1, total);
+    }
+
+    return transferId;
+  }
+
+  onFile(handler: (file: ReceivedFile) => void): () => void {
+    this.fileHandlers.add(handler);
+    return () => {
+      this.fileHandlers.delete(handler);
+    };
+  }
+
+  onFileProgress(handler: (progress: FileProgress) => void): () => void {
+    this.progressHandlers.add(handler);
+    return () => {
+      this.progressHandlers.delete(handler);
+    };
+  }
+
+  // Drop queued messages and channel state at the end of a call; subscribers
+  // are kept so screens can stay subscribed across calls
+  reset(): void {
+    this.detach();
+    this.outbox = [];
+    this.incomingFiles.forEach(({ timer }) => clearTimeout(timer));
+    this.incomingFiles.clear();
+    this.pendingAcks.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error('Data channel closed'));
+    });
+    this.pendingAcks.clear();
+  }
+
+  private sendRaw(serialized: string): void {
+    if (this.channel && this.channel.readyState === 'open') {
+      this.channel.send(serialized);
+      return;
+    }
+
+    // Queue until the channel (re)opens
+    this.outbox.push(serialized);
+    if (this.outbox.length > MAX_OUTBOX_SIZE) {
+      this.outbox.shift();
+      console.warn('Data channel outbox full, dropping oldest message');
+    }
+  }
+
+  private flushOutbox(): void {
+    const queued = this.outbox;
+    this.outbox = [];
+    queued.forEach(serialized => this.sendRaw(serialized));
+  }
+
+  // Resolves once the open channel has room for more, rejects if it closes
+  private waitForBufferSpace(): Promise<void> {
+    const channel = this.channel;
+    if (!channel || channel.readyState !== 'open') {
+      return Promise.reject(new Error('Data channel closed'));
+    }
+    if (channel.bufferedAmount < MAX_BUFFERED_AMOUNT) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.bufferWaiters.add({ resolve, reject });
+      channel.onbufferedamountlow = () => {
+        channel.onbufferedamountlow = null;
+        const waiters = this.bufferWaiters;
+        this.bufferWaiters = new Set();
+        waiters.forEach(waiter => waiter.resolve());
+      };
+    });
+  }
+
+  private rejectBufferWaiters(): void {
+    const waiters = this.bufferWaiters;
+    this.bufferWaiters = new Set();
+    waiters.forEach(waiter => waiter.reject(new Error('Data channel closed')));
+  }
+
+  private handleRawMessage(raw: string): void {
+    let envelope: any;
+    try {
+      envelope = JSON.parse(raw);
+    } catch (error) {
+      console.warn('Ignoring malformed data channel message');
+      return;
+    }
+
+    if (!isEnvelope(envelope) || (envelope.kind === 'file_chunk' && !isFileChunk(envelope.payload))) {
+      console.warn('Ignoring unknown data channel message');
+      return;
+    }
+
+    // Newer peers may send messages this build doesn't understand
+    if (envelope.v > DATA_CHANNEL_PROTOCOL_VERSION) {
+      console.warn(`Ignoring data channel message with protocol v${envelope.v}`);
+      return;
+    }
+
+    if (envelope.kind === 'ack') {
+      const pending = this.pendingAcks.get((envelope.payload as AckPayload).messageId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingAcks.delete((envelope.payload as AckPayload).messageId);
+        pending.resolve();
+      }
+    }
+
+    if (envelope.requiresAck) {
+      this.send('ack', { messageId: envelope.id });
+    }
+
+    if (envelope.kind === 'file_chunk') {
+      this.handleFileChunk(envelope.payload as FileChunkPayload);
+    }
+
+    this.handlers.get(envelope.kind)?.forEach(handler => {
+      try {
+        handler(envelope.payload, envelope);
+      } catch (error) {
+        console.error(`Data channel ${envelope.kind} handler failed:`, error);
+      }
+    });
+  }
+
+  private handleFileChunk(chunk: FileChunkPayload): void {
+    const transfer = this.incomingFiles.get(chunk.transferId) ||
+      { chunks: new Array(chunk.total), received: 0, timer: null };
+
+    if (transfer.chunks.length !== chunk.total) {
+      console.warn('Ignoring file chunk that disagrees on the number of chunks');
+      return;
+    }
+
+    if (transfer.chunks[chunk.index] === undefined) {
+      transfer.chunks[chunk.index] = chunk.data;
+      transfer.received++;
+    }
+    clearTimeout(transfer.timer);
+    transfer.timer = setTimeout(() => {
+      console.warn('Dropping a file that stopped arriving:', chunk.transferId);
+      this.incomingFiles.delete(chunk.transferId);
+    }, INCOMING_FILE_TIMEOUT_MS);
+    this.incomingFiles.set(chunk.transferId, transfer);
+
+    this.progressHandlers.forEach(handler => handler({
+      transferId: chunk.transferId,
+      purpose: chunk.purpose,
+      received: transfer.received,
+      total: chunk.total,
+    }));
+
+    if (transfer.received === chunk.total) {
+      clearTimeout(transfer.timer);
+      this.incomingFiles.delete(chunk.transferId);
+      const file: ReceivedFile = {
+        transferId: chunk.transferId,
+        purpose: chunk.purpose,
+        mimeType: chunk.mimeType,
+        data: transfer.chunks.join(''),
+      };
+      this.fileHandlers.forEach(handler => handler(file));
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Platform, Vibration } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio } from 'expo-av';
+import * as Haptics from 'expo-haptics';
+
+// Direction cues a volunteer sends to guide the blind user's camera, felt as
+// vibration patterns and optionally heard as short earcons
+
+const PREFERENCES_KEY = 'direction_cue_preferences';
+const ANNOUNCEMENTS_KEY = 'direction_cue_announcements';
+
+// Each cue is spoken this many times before the pattern has to stand alone
+export const ANNOUNCED_CUE_COUNT = 3;
+
+export type DirectionCue = 'left' | 'right' | 'up' | 'down' | 'closer' | 'farther' | 'hold';
+
+export const DIRECTION_CUES: DirectionCue[] = ['left', 'right', 'up', 'down', 'closer', 'farther', 'hold'];
+
+export type CueIntensity = 'light' | 'medium' | 'strong';
+
+export interface DirectionCuePreferences {
+  intensity: CueIntensity;
+  earcons: boolean;
+}
+
+export const DEFAULT_CUE_PREFERENCES: DirectionCuePreferences = {
+  intensity: 'medium',
+  earcons: true,
+};
+
+export const DIRECTION_CUE_LABELS: Record<DirectionCue, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  up: 'Tilt up',
+  down: 'Tilt down',
+  closer: 'Move closer',
+  farther: 'Move back',
+  hold: 'Hold still',
+};
+
+// How each pattern feels, for the practice screen
+export const DIRECTION_CUE_DESCRIPTIONS: Record<DirectionCue, string> = {
+  left: 'One long buzz',
+  right: 'Two short buzzes',
+  up: 'Short, then long',
+  down: 'Long, then short',
+  closer: 'Four quick taps',
+  farther: 'Two long buzzes',
+  hold: 'One very long buzz',
+};
+
+// Vibration lengths in milliseconds at medium intensity
+const CUE_PULSES: Record<DirectionCue, number[]> = {
+  left: [400],
+  right: [120, 120],
+  up: [120, 400],
+  down: [400, 120],
+  closer: [70, 70, 70, 70],
+  farther: [400, 400],
+  hold: [900],
+};
+
+// Gaps stay the same at every intensity so the rhythm is still recognizable
+const PULSE_GAP_MS = 150;
+
+// React Native's Vibration API has no amplitude control, so on Android
+// intensity is felt through longer pulses and a louder earcon
+const INTENSITY_SCALE: Record<CueIntensity, number> = {
+  light: 0.6,
+  medium: 1,
+  strong: 1.5,
+};
+
+// iOS plays every Vibration pulse as the same fixed buzz whatever its length,
+// which leaves left, farther and hold feeling alike. There each pulse is a
+// run of haptic taps instead, one per tick of its length, and intensity sets
+// how heavy the taps are
+const HAPTIC_TICK_MS = 50;
+
+const HAPTIC_STYLE: Record<CueIntensity, Haptics.ImpactFeedbackStyle> = {
+  light: Haptics.ImpactFeedbackStyle.Light,
+  medium: Haptics.ImpactFeedbackStyle.Medium,
+  strong: Haptics.ImpactFeedbackStyle.Heavy,
+};
+
+const EARCON_VOLUME: Record<CueIntensity, number> = {
+  light: 0.4,
+  medium: 0.7,
+  strong: 1,
+};
+
+const EARCONS: Record<DirectionCue, number> = {
+  left: require('../assets/earcons/left.wav'),
+  right: require('../assets/earcons/right.wav'),
+  up: require('../assets/earcons/up.wav'),
+  down: require('../assets/earcons/down.wav'),
+  closer: require('../assets/earcons/closer.wav'),
+  farther: require('../assets/earcons/farther.wav'),
+  hold: require('../assets/earcons/hold.wav'),
+};
+
+export const isDirectionCue = (value: unknown): value is DirectionCue =>
+  DIRECTION_CUES.includes(value as DirectionCue);
+
+// In Vibration.vibrate's [wait, vibrate, wait, vibrate, ...] format, for Android
+export const getVibrationPattern = (cue: DirectionCue, intensity: CueIntensity): number[] => {
+  const scale = INTENSITY_SCALE[intensity];
+  const pattern = [0];
+
+  CUE_PULSES[cue].forEach((pulse, index) => {
+    if (index > 0) {
+      pattern.push(PULSE_GAP_MS);
+    }
+    pattern.push(Math.round(pulse * scale));
+  });
+
+  return pattern;
+};
+
+// When to tap, in milliseconds from the start of the cue, for iOS. The
+// rhythm is the same at every intensity
+export const getHapticTaps = (cue: DirectionCue): number[] => {
+  const taps: number[] = [];
+  let start = 0;
+
+  CUE_PULSES[cue].forEach(pulse => {
+    const count = Math.max(1, Math.round(pulse / HAPTIC_TICK_MS));
+    for (let tick = 0; tick < count; tick++) {
+      taps.push(start + tick * HAPTIC_TICK_MS);
+    }
+    start += pulse + PULSE_GAP_MS;
+  });
+
+  return taps;
+};
+
+const playEarcon = async (cue: DirectionCue, volume: number): Promise<void> => {
+  const { sound } = await Audio.Sound.createAsync(EARCONS[cue], { shouldPlay: true, volume });
+  sound.setOnPlaybackStatusUpdate(status => {
+    if (status.isLoaded && status.didJustFinish) {
+      sound.unloadAsync();
+    }
+  });
+};
+
+class DirectionCuePlayer {
+  private preferences: DirectionCuePreferences | null = null;
+  private announcedCounts: Partial<Record<DirectionCue, number>> | null = null;
+  private hapticTimers: ReturnType<typeof setTimeout>[] = [];
+
+  async getPreferences(): Promise<DirectionCuePreferences> {
+    if (!this.preferences) {
+      const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+      this.preferences = { ...DEFAULT_CUE_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) };
+    }
+    return this.preferences!;
+  }
+
+  async setPreferences(changes: Partial<DirectionCuePreferences>): Promise<DirectionCuePreferences> {
+    const preferences = { ...(await this.getPreferences()), ...changes };
+    this.preferences = preferences;
+    await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+    return preferences;
+  }
+
+  // Vibrate, and play the earcon if the user wants one. A failed earcon
+  // never stops the vibration
+  async play(cue: DirectionCue): Promise<void> {
+    const { intensity, earcons } = await this.getPreferences();
+
+    if (Platform.OS === 'ios') {
+      this.playHaptics(cue, intensity);
+    } else {
+      Vibration.cancel();
+      Vibration.vibrate(getVibrationPattern(cue, intensity));
+    }
+
+    if (earcons) {
+      try {
+        await playEarcon(cue, EARCON_VOLUME[intensity]);
+      } catch (error) {
+        console.warn('Failed to play earcon:', error);
+      }
+    }
+  }
+
+  // The label to speak with this cue, or null once the user has heard it
+  // ANNOUNCED_CUE_COUNT times
+  async takeAnnouncement(cue: DirectionCue): Promise<string | null> {
+    const counts = await this.getAnnouncedCounts();
+    const count = counts[cue] || 0;
+    if (count >= ANNOUNCED_CUE_COUNT) {
+      return null;
+    }
+
+    counts[cue] = count + 1;
+    await AsyncStorage.setItem(ANNOUNCEMENTS_KEY, JSON.stringify(counts));
+    return DIRECTION_CUE_LABELS[cue];
+  }
+
+  // Start announcing every cue again, e.g. after a long break
+  async resetAnnouncements(): Promise<void> {
+    this.announcedCounts = {};
+    await AsyncStorage.removeItem(ANNOUNCEMENTS_KEY);
+  }
+
+  // A new cue cuts off what's left of the previous one
+  private playHaptics(cue: DirectionCue, intensity: CueIntensity): void {
+    this.hapticTimers.forEach(timer => clearTimeout(timer));
+    this.hapticTimers = getHapticTaps(cue).map(at => setTimeout(() => {
+      Haptics.impactAsync(HAPTIC_STYLE[intensity]).catch(error => {
+        console.warn('Failed to play haptic:', error);
+      });
+    }, at));
+  }
+
+  private async getAnnouncedCounts(): Promise<Partial<Record<DirectionCue, number>>> {
+    if (!this.announcedCounts) {
+      const stored = await AsyncStorage.getItem(ANNOUNCEMENTS_KEY);
+      this.announcedCounts = stored ? JSON.parse(stored) : {};
+    }
+    return this.announcedCounts!;
+  }
+}
+
+export const directionCuePlayer = new DirectionCuePlayer();
@@ -0,0 +1,52 @@
+// Strongly typed event emitter where every subscription returns its own
+// disposer, so independent subscribers never remove each other's listeners
+
+export type Unsubscribe = () => void;
+
+export type EventListenerMap<Events> = {
+  [E in keyof Events]: (...args: any[]) => void;
+};
+
+export class TypedEventEmitter<Events extends EventListenerMap<Events>> {
+  private listeners: { [E in keyof Events]?: Set<Events[E]> } = {};
+
+  on<E extends keyof Events>(event: E, listener: Events[E]): Unsubscribe {
+    const listeners = this.listeners[event] || new Set<Events[E]>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  once<E extends keyof Events>(event: E, listener: Events[E]): Unsubscribe {
+    const unsubscribe = this.on(event, ((...args: Parameters<Events[E]>) => {
+      unsubscribe();
+      listener(...args);
+    }) as Events[E]);
+    return unsubscribe;
+  }
+
+  emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>): void {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+
+    // Copy first: listeners may unsubscribe while being notified
+    Array.from(listeners).forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Listener for "${String(event)}" failed:`, error);
+      }
+    });
+  }
+
+  listenerCount<E extends keyof Events>(event: E): number {
+    return this.listeners[event]?.size || 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
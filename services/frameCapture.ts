@@ -0,0 +1,106 @@
+import { RefObject } from 'react';
+import { PixelRatio, Platform } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+
+// Still frame capture from a live camera track, as base64 JPEG
+
+export interface CaptureOptions {
+  // JPEG quality between 0 and 1
+  quality: number;
+  // Downscale so the longest edge is at most this many pixels
+  maxDimension?: number;
+}
+
+export type FrameCapturer = (
+  track: MediaStreamTrack,
+  options: CaptureOptions
+) => Promise<string>;
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataURL = reader.result as string;
+      resolve(dataURL.slice(dataURL.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Fit width x height within maxDimension on the longest edge, keeping the
+// aspect ratio; never scales up
+export const scaleToFit = (
+  width: number,
+  height: number,
+  maxDimension?: number
+): { width: number; height: number } => {
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// W3C ImageCapture, where the platform provides it
+const imageCaptureCapturer: FrameCapturer = async (track, { quality, maxDimension }) => {
+  const ImageCaptureClass = (globalThis as any).ImageCapture;
+  const OffscreenCanvasClass = (globalThis as any).OffscreenCanvas;
+  if (!ImageCaptureClass || !OffscreenCanvasClass) {
+    throw new Error('Still capture is not supported on this device');
+  }
+
+  const imageCapture = new ImageCaptureClass(track);
+  const photo = await createImageBitmap(await imageCapture.takePhoto());
+
+  // Re-encode the full-resolution photo at the size and quality asked for
+  const { width, height } = scaleToFit(photo.width, photo.height, maxDimension);
+  const canvas = new OffscreenCanvasClass(width, height);
+  canvas.getContext('2d').drawImage(photo, 0, 0, width, height);
+  photo.close();
+
+  const blob: Blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  return blobToBase64(blob);
+};
+
+// A view rendering the camera frame for frame at its own resolution (see
+// FrameCaptureView), and that resolution in pixels
+export interface FrameView {
+  viewRef: RefObject<unknown>;
+  width: number;
+  height: number;
+}
+
+// A camera frame snapshotted from a FrameView, for React Native where there
+// is no ImageCapture. The view shows the frames as the camera delivers them,
+// upright and unscaled, so the photo is only ever scaled down to maxDimension
+export const createViewCapturer = (getFrameView: () => FrameView | null): FrameCapturer =>
+  async (track, { quality, maxDimension }) => {
+    const frameView = getFrameView();
+    if (!frameView) {
+      throw new Error('The camera is not ready to take a photo');
+    }
+
+    const { width, height } = scaleToFit(frameView.width, frameView.height, maxDimension);
+    // iOS sizes snapshots in points, Android in pixels
+    const unit = Platform.OS === 'ios' ? PixelRatio.get() : 1;
+
+    return captureRef(frameView.viewRef, {
+      format: 'jpg',
+      quality,
+      result: 'base64',
+      // The camera renders through a GL surface on Android
+      handleGLSurfaceViewOnAndroid: true,
+      width: width / unit,
+      height: height / unit,
+    });
+  };
+
+let activeCapturer: FrameCapturer = imageCaptureCapturer;
+
+// Native builds register a capturer backed by their camera module or a
+// FrameView; null goes back to ImageCapture
+export const setFrameCapturer = (capturer: FrameCapturer | null): void => {
+  activeCapturer = capturer ?? imageCaptureCapturer;
+};
+
+export const captureStill = (
+  track: MediaStreamTrack,
+  options: CaptureOptions
+): Promise<string> => activeCapturer(track, options);
@@ -0,0 +1,83 @@
+// Word similarity that tolerates speech recogniser mistakes: near-misses in
+// spelling ("walet") through edit distance, and words that sound alike but
+// are spelled differently ("hang app" for "hang up") through a phonetic key
+
+// The most a word other than the one expected can score. Plenty of unrelated
+// words are close to a command word ("cool" and "call", "scare" and
+// "score"), so it's kept below what voice commands act on without asking
+export const MAX_MISHEARD_SIMILARITY = 0.7;
+
+// Similarity given to words that sound the same but are spelled differently
+export const PHONETIC_SIMILARITY = MAX_MISHEARD_SIMILARITY;
+
+// Misspellings are only forgiven in words this long; in shorter words one
+// letter is too much of the word
+const MIN_FUZZY_LENGTH = 4;
+
+// Levenshtein distance: the fewest single-letter edits from one word to the other
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Spellings that sound alike, rewritten to one form before encoding
+const SOUND_REWRITES: Array<[RegExp, string]> = [
+  [/ph/g, 'f'],
+  [/ck/g, 'k'],
+  [/q/g, 'k'],
+  [/x/g, 'ks'],
+  [/c(?=[eiy])/g, 's'],
+  [/c/g, 'k'],
+  [/z/g, 's'],
+  [/dg/g, 'j'],
+  [/^kn/, 'n'],
+  [/^wr/, 'r'],
+  [/gh/g, ''],
+];
+
+// A simplified Metaphone-style key: consonant sounds in order, with any
+// leading vowel as 'a' and repeated sounds collapsed, so "up" and "app"
+// share the key "ap"
+export const phoneticKey = (word: string): string => {
+  let spelled = word.toLowerCase().replace(/[^a-z]/g, '');
+  SOUND_REWRITES.forEach(([pattern, replacement]) => {
+    spelled = spelled.replace(pattern, replacement);
+  });
+
+  if (!spelled) {
+    return '';
+  }
+
+  const first = /[aeiouy]/.test(spelled[0]) ? 'a' : spelled[0];
+  const consonants = spelled.slice(1).replace(/[aeiouyhw]/g, '');
+  return (first + consonants).replace(/(.)\1+/g, '$1');
+};
+
+// 0-1: how likely the recogniser heard `heard` when `expected` was said
+export const wordSimilarity = (heard: string, expected: string): number => {
+  if (heard === expected) {
+    return 1;
+  }
+
+  const longest = Math.max(heard.length, expected.length);
+  const spelling = Math.min(heard.length, expected.length) >= MIN_FUZZY_LENGTH
+    ? 1 - editDistance(heard, expected) / longest
+    : 0;
+  const key = phoneticKey(heard);
+  const sound = key.length >= 2 && key === phoneticKey(expected) ? PHONETIC_SIMILARITY : 0;
+
+  return Math.min(Math.max(spelling, sound), MAX_MISHEARD_SIMILARITY);
+};
@@ -0,0 +1,7 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+
+// Attached to the app's NavigationContainer, so code outside a screen (such
+// as voice commands) can navigate
+export const navigationRef = createNavigationContainerRef<any>();
+
+export default navigationRef;
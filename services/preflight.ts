@@ -0,0 +1,329 @@
+// Pre-call device and network check, so a blind user learns about a denied
+// microphone or a network that blocks calls before a volunteer is waiting
+
+import { Audio } from 'expo-av';
+import { apiService } from './api';
+import { MediaDevicesProvider, WebRTCApi } from './webrtc';
+
+export type PreflightCheckName = 'permissions' | 'connectivity' | 'latency' | 'echo';
+
+// 'warn' means calls should work, but not as well as they could
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheckResult {
+  name: PreflightCheckName;
+  status: PreflightStatus;
+  // One short sentence, spoken as part of the summary
+  detail: string;
+}
+
+export interface PreflightReport {
+  passed: boolean;
+  checks: PreflightCheckResult[];
+  candidateTypes: IceCandidateType[];
+  rttMs: number | null;
+}
+
+export type IceCandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface PreflightOptions {
+  // The echo test needs the user to speak, so quick checks skip it
+  echoTest?: boolean;
+  iceGatheringTimeoutMs?: number;
+  latencySamples?: number;
+  echoDurationMs?: number;
+  // Called as each check starts, e.g. to tell the user to speak. The check
+  // waits for it, so the instruction isn't picked up by the echo test
+  onCheckStart?: (name: PreflightCheckName) => void | Promise<void>;
+}
+
+export interface EchoTestResult {
+  // Loudest level heard while recording, in dBFS
+  peakLevelDb: number;
+}
+
+export type PreflightApi = Pick<WebRTCApi, 'getICEServers'> & {
+  healthCheck(): Promise<unknown>;
+};
+
+export interface PreflightDependencies {
+  api?: PreflightApi;
+  mediaDevices?: MediaDevicesProvider;
+  createPeerConnection?: (configuration: RTCConfiguration) => RTCPeerConnection;
+  runEchoTest?: (durationMs: number) => Promise<EchoTestResult>;
+}
+
+// Round trips above these make conversation awkward / unusable
+const RTT_WARN_MS = 300;
+const RTT_FAIL_MS = 1000;
+
+// Quieter than this means the microphone heard nothing
+const ECHO_SILENCE_DB = -45;
+
+const CHECK_LABELS: Record<PreflightCheckName, string> = {
+  permissions: 'Camera and microphone',
+  connectivity: 'Network',
+  latency: 'Connection speed',
+  echo: 'Microphone and speaker',
+};
+
+const parseCandidateType = (candidate: string): IceCandidateType | null => {
+  const match = / typ (host|srflx|prflx|relay)/.exec(candidate);
+  return match ? (match[1] as IceCandidateType) : null;
+};
+
+const hasServerType = (iceServers: RTCIceServer[], scheme: 'stun' | 'turn'): boolean =>
+  iceServers.some(server => {
+    const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+    return urls.some(url => url.startsWith(`${scheme}:`) || url.startsWith(`${scheme}s:`));
+  });
+
+// Gather candidates against the call's ICE servers without connecting to
+// anyone: server reflexive candidates prove STUN works, relay ones prove TURN
+export const gatherIceCandidateTypes = async (
+  connection: RTCPeerConnection,
+  timeoutMs: number
+): Promise<IceCandidateType[]> => {
+  const types = new Set<IceCandidateType>();
+
+  const gathered = new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, timeoutMs);
+    connection.onicecandidate = (event) => {
+      if (!event.candidate) {
+        clearTimeout(timer);
+        resolve();
+        return;
+      }
+
+      const type = parseCandidateType(event.candidate.candidate || '');
+      if (type) {
+        types.add(type);
+      }
+    };
+  });
+
+  // Gathering only starts once there is something to negotiate
+  connection.createDataChannel('preflight');
+  const offer = await connection.createOffer();
+  await connection.setLocalDescription(offer);
+
+  await gathered;
+  return Array.from(types);
+};
+
+// Record a few seconds from the microphone and play it straight back, so the
+// user hears whether both work
+export const runAudioEchoTest = async (durationMs: number): Promise<EchoTestResult> => {
+  let peakLevelDb = -160;
+
+  await Audio.setAudioModeAsync({
+    allowsRecordingIOS: true,
+    playsInSilentModeIOS: true,
+  });
+
+  const recording = new Audio.Recording();
+  await recording.prepareToRecordAsync({
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+    isMeteringEnabled: true,
+  });
+  recording.setProgressUpdateInterval(100);
+  recording.setOnRecordingStatusUpdate(status => {
+    if (status.metering !== undefined) {
+      peakLevelDb = Math.max(peakLevelDb, status.metering);
+    }
+  });
+
+  await recording.startAsync();
+  await new Promise(resolve => setTimeout(resolve, durationMs));
+  await recording.stopAndUnloadAsync();
+
+  const uri = recording.getURI();
+  if (uri) {
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+    const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true });
+
+    await new Promise<void>(resolve => {
+      // Don't hang if playback never reports finishing
+      const timer = setTimeout(resolve, durationMs + 2000);
+      sound.setOnPlaybackStatusUpdate(status => {
+        if (status.isLoaded && status.didJustFinish) {
+          clearTimeout(timer);
+          resolve();
+        }
+      });
+    });
+    await sound.unloadAsync();
+  }
+
+  return { peakLevelDb };
+};
+
+const checkPermissions = async (mediaDevices: MediaDevicesProvider): Promise<PreflightCheckResult> => {
+  try {
+    const stream = await mediaDevices.getUserMedia({ audio: true, video: true });
+    // Release the devices so the echo test and the call can use them
+    stream.getTracks().forEach(track => track.stop());
+    return { name: 'permissions', status: 'pass', detail: 'Camera and microphone are allowed.' };
+  } catch (error) {
+    const denied = error instanceof Error && error.name === 'NotAllowedError';
+    return {
+      name: 'permissions',
+      status: 'fail',
+      detail: denied
+        ? 'Camera or microphone permission is turned off. Turn it on in your phone settings.'
+        : 'The camera or microphone could not be started.',
+    };
+  }
+};
+
+const checkConnectivity = (
+  types: IceCandidateType[],
+  iceServers: RTCIceServer[]
+): PreflightCheckResult => {
+  const stunWorks = types.includes('srflx') || types.includes('prflx');
+  const turnWorks = types.includes('relay');
+
+  if (stunWorks && (turnWorks || !hasServerType(iceServers, 'turn'))) {
+    return { name: 'connectivity', status: 'pass', detail: 'Your network allows video calls.' };
+  }
+
+  if (stunWorks) {
+    return {
+      name: 'connectivity',
+      status: 'warn',
+      detail: 'Calls should work, but the backup relay server could not be reached.',
+    };
+  }
+
+  if (turnWorks) {
+    // Only the relay got through, typically because UDP is blocked
+    return {
+      name: 'connectivity',
+      status: 'warn',
+      detail: 'Your network is restrictive. Calls will work through a relay but may be slower.',
+    };
+  }
+
+  return {
+    name: 'connectivity',
+    status: 'fail',
+    detail: 'Your network is blocking video calls. Try another Wi-Fi network or mobile data.',
+  };
+};
+
+// Median time for a round trip to the backend
+const measureRoundTrip = async (api: PreflightApi, samples: number): Promise<number | null> => {
+  const times: number[] = [];
+
+  for (let i = 0; i < samples; i++) {
+    const startedAt = Date.now();
+    try {
+      await api.healthCheck();
+      times.push(Date.now() - startedAt);
+    } catch (error) {
+      console.warn('Preflight latency sample failed:', error);
+    }
+  }
+
+  if (times.length === 0) return null;
+  times.sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+};
+
+const checkLatency = (rttMs: number | null): PreflightCheckResult => {
+  if (rttMs === null) {
+    return { name: 'latency', status: 'fail', detail: 'The SolSight service could not be reached.' };
+  }
+  if (rttMs > RTT_FAIL_MS) {
+    return { name: 'latency', status: 'fail', detail: 'Your connection is too slow for a video call.' };
+  }
+  if (rttMs > RTT_WARN_MS) {
+    return { name: 'latency', status: 'warn', detail: 'Your connection is slow, so video may be low quality.' };
+  }
+  return { name: 'latency', status: 'pass', detail: 'Your connection is fast enough.' };
+};
+
+const checkEcho = async (
+  runEchoTest: (durationMs: number) => Promise<EchoTestResult>,
+  durationMs: number
+): Promise<PreflightCheckResult> => {
+  try {
+    const { peakLevelDb } = await runEchoTest(durationMs);
+    return peakLevelDb > ECHO_SILENCE_DB
+      ? { name: 'echo', status: 'pass', detail: 'Your microphone picked up your voice.' }
+      : { name: 'echo', status: 'fail', detail: 'Your microphone did not pick up any sound.' };
+  } catch (error) {
+    console.warn('Echo test failed:', error);
+    return { name: 'echo', status: 'fail', detail: 'The microphone test could not be run.' };
+  }
+};
+
+// Run every check in turn; later checks still run after a failure so the
+// user hears about every problem at once
+export const runPreflightCheck = async (
+  options: PreflightOptions = {},
+  dependencies: PreflightDependencies = {}
+): Promise<PreflightReport> => {
+  const {
+    echoTest = true,
+    iceGatheringTimeoutMs = 5000,
+    latencySamples = 3,
+    echoDurationMs = 3000,
+    onCheckStart,
+  } = options;
+  const api = dependencies.api || apiService;
+  const mediaDevices = dependencies.mediaDevices || navigator.mediaDevices;
+  const createPeerConnection = dependencies.createPeerConnection ||
+    ((configuration: RTCConfiguration) => new RTCPeerConnection(configuration));
+
+  const checks: PreflightCheckResult[] = [];
+
+  await onCheckStart?.('permissions');
+  checks.push(await checkPermissions(mediaDevices));
+
+  await onCheckStart?.('connectivity');
+  let candidateTypes: IceCandidateType[] = [];
+  let iceServers: RTCIceServer[] = [];
+  try {
+    iceServers = (await api.getICEServers()).data.iceServers;
+    const connection = createPeerConnection({ iceServers });
+    try {
+      candidateTypes = await gatherIceCandidateTypes(connection, iceGatheringTimeoutMs);
+    } finally {
+      connection.close();
+    }
+  } catch (error) {
+    console.warn('Preflight ICE gathering failed:', error);
+  }
+  checks.push(checkConnectivity(candidateTypes, iceServers));
+
+  await onCheckStart?.('latency');
+  const rttMs = await measureRoundTrip(api, latencySamples);
+  checks.push(checkLatency(rttMs));
+
+  if (echoTest) {
+    await onCheckStart?.('echo');
+    checks.push(await checkEcho(dependencies.runEchoTest || runAudioEchoTest, echoDurationMs));
+  }
+
+  return {
+    passed: checks.every(check => check.status !== 'fail'),
+    checks,
+    candidateTypes,
+    rttMs,
+  };
+};
+
+// Short enough to listen to: the verdict, then only what needs attention
+export const summarizePreflight = (report: PreflightReport): string => {
+  const problems = report.checks.filter(check => check.status !== 'pass');
+
+  if (problems.length === 0) {
+    return 'Setup check passed. Your phone is ready for a call.';
+  }
+
+  const details = problems.map(check => `${CHECK_LABELS[check.name]}: ${check.detail}`).join(' ');
+  return report.passed
+    ? `Setup check passed with warnings. ${details}`
+    : `Setup check failed. ${details}`;
+};
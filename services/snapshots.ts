@@ -0,0 +1,68 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// High-resolution snapshots taken during a call. They live in memory only
+// and are discarded when the call ends, unless the blind user chose to keep them
+
+const SAVED_SNAPSHOTS_KEY = 'saved_snapshots';
+
+export interface Snapshot {
+  id: string;
+  // base64 encoded image
+  data: string;
+  mimeType: string;
+  capturedAt: number;
+  keep: boolean;
+}
+
+export type SavedSnapshot = Omit<Snapshot, 'keep'>;
+
+export const snapshotUri = (snapshot: Pick<Snapshot, 'data' | 'mimeType'>): string =>
+  `data:${snapshot.mimeType};base64,${snapshot.data}`;
+
+class SnapshotStore {
+  private snapshots: Map<string, Snapshot> = new Map();
+
+  add(id: string, data: string, mimeType: string): Snapshot {
+    const snapshot: Snapshot = { id, data, mimeType, capturedAt: Date.now(), keep: false };
+    this.snapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  get(id: string): Snapshot | undefined {
+    return this.snapshots.get(id);
+  }
+
+  setKeep(id: string, keep: boolean): void {
+    const snapshot = this.snapshots.get(id);
+    if (snapshot) {
+      snapshot.keep = keep;
+    }
+  }
+
+  // Persist the snapshots marked to keep and drop everything else
+  async finishCall(): Promise<void> {
+    const kept = Array.from(this.snapshots.values()).filter(snapshot => snapshot.keep);
+    this.snapshots.clear();
+
+    if (kept.length === 0) return;
+
+    const saved = await this.getSavedSnapshots();
+    const additions: SavedSnapshot[] = kept.map(({ keep, ...snapshot }) => snapshot);
+    await AsyncStorage.setItem(SAVED_SNAPSHOTS_KEY, JSON.stringify([...saved, ...additions]));
+  }
+
+  async getSavedSnapshots(): Promise<SavedSnapshot[]> {
+    const stored = await AsyncStorage.getItem(SAVED_SNAPSHOTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  async deleteSavedSnapshot(id: string): Promise<void> {
+    const saved = await this.getSavedSnapshots();
+    await AsyncStorage.setItem(
+      SAVED_SNAPSHOTS_KEY,
+      JSON.stringify(saved.filter(snapshot => snapshot.id !== id))
+    );
+  }
+}
+
+export const snapshotStore = new SnapshotStore();
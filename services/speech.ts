@@ -0,0 +1,160 @@
+import { AccessibilityInfo } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import { Unsubscribe } from './eventEmitter';
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  SpeechEngine,
+  SpeechOptions,
+  SpeechQueue,
+  SpeechSettings,
+} from './speechQueue';
+
+// Text-to-speech for the whole app: voice command responses, call status and
+// anything else said out loud, spoken in the user's chosen voice and speed
+
+const SETTINGS_KEY = 'speech_settings';
+
+export interface SpeechVoice {
+  identifier: string;
+  name: string;
+  language: string;
+}
+
+const textToSpeechEngine: SpeechEngine = {
+  speak: ({ text, locale }, { rate, pitch, voice }, onDone) => {
+    Speech.speak(text, {
+      language: locale,
+      rate,
+      pitch,
+      voice: voice || undefined,
+      onDone,
+      onStopped: onDone,
+      onError: error => {
+        console.warn('Text-to-speech failed:', error);
+        onDone();
+      },
+    });
+  },
+  stop: () => {
+    Speech.stop();
+  },
+};
+
+// How long a screen reader may take to read text, at a slow pace
+const SCREEN_READER_MIN_MS = 1000;
+const SCREEN_READER_MS_PER_CHARACTER = 70;
+
+// Calls onDone for what the screen reader is reading, if anything
+let finishAnnouncement: (() => void) | null = null;
+
+// VoiceOver and TalkBack read our text in their own voice and settings, and
+// queue it behind what they're already saying unless it's urgent. VoiceOver
+// says when it has finished; TalkBack doesn't, so there the reading time is
+// estimated instead. Either way the next utterance, or listening for an
+// answer, waits until the text has been read
+const screenReaderEngine: SpeechEngine = {
+  speak: ({ text, priority }, settings, onDone) => {
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      if (finishAnnouncement === finish) finishAnnouncement = null;
+      subscription.remove();
+      clearTimeout(fallback);
+      onDone();
+    };
+
+    const subscription = AccessibilityInfo.addEventListener('announcementFinished', ({ announcement }) => {
+      if (announcement === text) finish();
+    });
+    const fallback = setTimeout(finish, SCREEN_READER_MIN_MS + text.length * SCREEN_READER_MS_PER_CHARACTER);
+    finishAnnouncement = finish;
+
+    AccessibilityInfo.announceForAccessibilityWithOptions(text, { queue: priority !== 'urgent' });
+  },
+  // The screen reader can't be silenced, but an urgent announcement cuts in
+  stop: () => {
+    finishAnnouncement?.();
+  },
+};
+
+class SpeechService {
+  private queue = new SpeechQueue(textToSpeechEngine, screenReaderEngine);
+  private settings: SpeechSettings | null = null;
+  private ready: Promise<void> | null = null;
+
+  get isSpeaking(): boolean {
+    return this.queue.isSpeaking;
+  }
+
+  // Queue text to be said; resolves once it has been, or was cut off
+  async speak(text: string, options: SpeechOptions = {}): Promise<void> {
+    await this.prepare();
+    return this.queue.speak(text, options);
+  }
+
+  // Stop talking, e.g. before listening to the user, and drop what's queued
+  stop(): void {
+    this.queue.stop();
+  }
+
+  // Told when speaking starts and stops, e.g. to turn call audio down meanwhile
+  subscribe(listener: (isSpeaking: boolean) => void): Unsubscribe {
+    return this.queue.subscribe(listener);
+  }
+
+  async getSettings(): Promise<SpeechSettings> {
+    if (!this.settings) {
+      try {
+        const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+        this.settings = { ...DEFAULT_SPEECH_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+      } catch (error) {
+        console.warn('Failed to load speech settings:', error);
+        this.settings = DEFAULT_SPEECH_SETTINGS;
+      }
+    }
+    return this.settings!;
+  }
+
+  async setSettings(changes: Partial<SpeechSettings>): Promise<SpeechSettings> {
+    const settings = { ...(await this.getSettings()), ...changes };
+    this.settings = settings;
+    this.queue.setSettings(settings);
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  // Voices the user can choose from, only those for the locale's language
+  // when one is given
+  async getVoices(locale?: string): Promise<SpeechVoice[]> {
+    const language = locale?.split('-')[0].toLowerCase();
+    const voices = await Speech.getAvailableVoicesAsync();
+
+    return voices
+      .filter(voice => !language || voice.language.toLowerCase().startsWith(language))
+      .map(({ identifier, name, language }) => ({ identifier, name, language }));
+  }
+
+  // Load the user's settings and start following the screen reader, once
+  private prepare(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        AccessibilityInfo.addEventListener('screenReaderChanged', enabled => {
+          this.queue.setScreenReaderEnabled(enabled);
+        });
+
+        try {
+          this.queue.setScreenReaderEnabled(await AccessibilityInfo.isScreenReaderEnabled());
+        } catch (error) {
+          console.warn('Could not check for a screen reader:', error);
+        }
+
+        this.queue.setSettings(await this.getSettings());
+      })();
+    }
+    return this.ready;
+  }
+}
+
+export const speechService = new SpeechService();
@@ -0,0 +1,173 @@
+import { TypedEventEmitter, Unsubscribe } from './eventEmitter';
+
+// Everything the app says out loud goes through one queue, so responses are
+// spoken one at a time instead of over each other. What does the speaking is
+// pluggable: text-to-speech normally, the screen reader when one is running
+
+// Urgent is for call status, which cuts off anything less urgent being said;
+// low is for long listings that can wait
+export type SpeechPriority = 'urgent' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  urgent: 0,
+  normal: 1,
+  low: 2,
+};
+
+export interface SpeechSettings {
+  // 1 is the engine's normal speed and pitch
+  rate: number;
+  pitch: number;
+  // Identifier of the voice to use, or null for the locale's default
+  voice: string | null;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  rate: 1,
+  pitch: 1,
+  voice: null,
+};
+
+export interface SpeechOptions {
+  priority?: SpeechPriority;
+  // The language the text is in, e.g. 'es-MX'
+  locale?: string;
+}
+
+export interface Utterance {
+  text: string;
+  priority: SpeechPriority;
+  locale?: string;
+}
+
+export interface SpeechEngine {
+  // Must call onDone exactly once, when the text has been spoken, stopped
+  // or failed
+  speak(utterance: Utterance, settings: SpeechSettings, onDone: () => void): void;
+  stop(): void;
+}
+
+interface QueuedUtterance extends Utterance {
+  resolve: () => void;
+}
+
+export interface SpeechQueueEvents {
+  // Speaking started or the queue ran dry, e.g. to duck call audio meanwhile
+  speakingChange: (isSpeaking: boolean) => void;
+}
+
+export class SpeechQueue {
+  private engine: SpeechEngine;
+  private screenReader: SpeechEngine;
+  private pending: QueuedUtterance[] = [];
+  private current: { utterance: QueuedUtterance; engine: SpeechEngine } | null = null;
+  private settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS;
+  private useScreenReader: boolean = false;
+  private speaking: boolean = false;
+  private events = new TypedEventEmitter<SpeechQueueEvents>();
+
+  constructor(engine: SpeechEngine, screenReader: SpeechEngine) {
+    this.engine = engine;
+    this.screenReader = screenReader;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  get queued(): Utterance[] {
+    return this.pending.map(({ text, priority, locale }) => ({ text, priority, locale }));
+  }
+
+  setSettings(settings: SpeechSettings): void {
+    this.settings = settings;
+  }
+
+  // With a screen reader running our speech is handed to it, so its own
+  // announcements and ours take turns
+  setScreenReaderEnabled(enabled: boolean): void {
+    this.useScreenReader = enabled;
+  }
+
+  // Resolves once the text has been said, or dropped by an interruption
+  speak(text: string, { priority = 'normal', locale }: SpeechOptions = {}): Promise<void> {
+    return new Promise(resolve => {
+      const utterance: QueuedUtterance = { text, priority, locale, resolve };
+
+      // Behind everything as or more urgent, ahead of the rest
+      const index = this.pending.findIndex(queued => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[priority]);
+      if (index === -1) {
+        this.pending.push(utterance);
+      } else {
+        this.pending.splice(index, 0, utterance);
+      }
+
+      if (this.current && PRIORITY_RANK[priority] < PRIORITY_RANK[this.current.utterance.priority]) {
+        // Cut off, not resumed: half a help listing is no use after the news
+        this.finishCurrent(true);
+      }
+
+      if (!this.current) {
+        this.next();
+      }
+    });
+  }
+
+  // Stop talking and forget everything still waiting
+  stop(): void {
+    const dropped = this.pending;
+    this.pending = [];
+    dropped.forEach(utterance => utterance.resolve());
+
+    this.finishCurrent(true);
+    this.setSpeaking(false);
+  }
+
+  subscribe(listener: SpeechQueueEvents['speakingChange']): Unsubscribe {
+    return this.events.on('speakingChange', listener);
+  }
+
+  private next(): void {
+    const utterance = this.pending.shift();
+    if (!utterance) {
+      this.setSpeaking(false);
+      return;
+    }
+
+    const engine = this.useScreenReader ? this.screenReader : this.engine;
+    const current = { utterance, engine };
+    this.current = current;
+    this.setSpeaking(true);
+
+    try {
+      engine.speak(utterance, this.settings, () => {
+        // An interrupted utterance may report finishing after the next began
+        if (this.current !== current) return;
+        this.finishCurrent(false);
+        this.next();
+      });
+    } catch (error) {
+      console.error('Failed to speak:', error);
+      if (this.current !== current) return;
+      this.finishCurrent(false);
+      this.next();
+    }
+  }
+
+  private finishCurrent(interrupt: boolean): void {
+    const current = this.current;
+    if (!current) return;
+
+    this.current = null;
+    if (interrupt) {
+      current.engine.stop();
+    }
+    current.utterance.resolve();
+  }
+
+  private setSpeaking(isSpeaking: boolean): void {
+    if (this.speaking === isSpeaking) return;
+    this.speaking = isSpeaking;
+    this.events.emit('speakingChange', isSpeaking);
+  }
+}
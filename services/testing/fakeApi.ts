@@ -0,0 +1,62 @@
+// Records the backend calls a WebRTCService makes instead of sending them
+
+import { WebRTCApi } from '../webrtc';
+
+export interface EndedCall {
+  callId: string;
+  endReason?: string;
+}
+
+export interface EndedMatch {
+  roomId: string;
+  endReason?: string;
+}
+
+export class FakeApi implements WebRTCApi {
+  readonly endedCalls: EndedCall[] = [];
+  readonly endedMatches: EndedMatch[] = [];
+  readonly leftRooms: string[] = [];
+  readonly qualityReports: Array<{ callId: string; report: object }> = [];
+  iceServers: RTCIceServer[] = [{ urls: 'stun:stun.example.test:3478' }];
+
+  async getICEServers(): Promise<{ data: { iceServers: RTCIceServer[] } }> {
+    return { data: { iceServers: this.iceServers } };
+  }
+
+  async healthCheck(): Promise<{ success: boolean }> {
+    return { success: true };
+  }
+
+  getWebSocketURL(): string {
+    return 'ws://signaling.test/ws';
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    return 'test-token';
+  }
+
+  async endCall(
+    callId: string,
+    rating: number | null,
+    feedbackText: string | null,
+    endReason?: string
+  ): Promise<{ success: boolean }> {
+    this.endedCalls.push({ callId, endReason });
+    return { success: true };
+  }
+
+  async endMatchingCall(roomId: string, endReason?: string): Promise<{ success: boolean }> {
+    this.endedMatches.push({ roomId, endReason });
+    return { success: true };
+  }
+
+  async leaveMatchingCall(roomId: string): Promise<{ success: boolean }> {
+    this.leftRooms.push(roomId);
+    return { success: true };
+  }
+
+  async submitCallQualityReport(callId: string, report: object): Promise<{ success: boolean }> {
+    this.qualityReports.push({ callId, report });
+    return { success: true };
+  }
+}
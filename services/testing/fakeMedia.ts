@@ -0,0 +1,166 @@
+// Fake camera/microphone for running WebRTCService outside a device
+
+import { MediaDevicesProvider } from '../webrtc';
+
+let trackCounter = 0;
+let streamCounter = 0;
+
+export class FakeMediaStreamTrack {
+  readonly id: string;
+  readonly kind: 'audio' | 'video';
+  readonly label: string;
+  enabled: boolean = true;
+  readyState: 'live' | 'ended' = 'live';
+  onended: (() => void) | null = null;
+  // Playback volume of a remote audio track
+  volume: number = 1;
+  private settings: Record<string, any>;
+  private capabilities: Record<string, any>;
+
+  constructor(
+    kind: 'audio' | 'video',
+    settings: Record<string, any> = {},
+    capabilities: Record<string, any> = {}
+  ) {
+    this.id = `track-${++trackCounter}`;
+    this.kind = kind;
+    this.label = `Fake ${kind}`;
+    this.settings = settings;
+    this.capabilities = capabilities;
+  }
+
+  stop(): void {
+    this.readyState = 'ended';
+  }
+
+  _setVolume(volume: number): void {
+    this.volume = volume;
+  }
+
+  getSettings(): Record<string, any> {
+    return { ...this.settings };
+  }
+
+  getCapabilities(): Record<string, any> {
+    return { ...this.capabilities };
+  }
+
+  getConstraints(): Record<string, any> {
+    return {};
+  }
+
+  async applyConstraints(constraints: Record<string, any> = {}): Promise<void> {
+    const { advanced, ...basic } = constraints;
+    this.settings = { ...this.settings, ...basic };
+    (advanced || []).forEach((set: Record<string, any>) => {
+      this.settings = { ...this.settings, ...set };
+    });
+  }
+}
+
+export class FakeMediaStream {
+  readonly id: string;
+  private tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks: FakeMediaStreamTrack[] = []) {
+    this.id = `stream-${++streamCounter}`;
+    this.tracks = tracks;
+  }
+
+  getTracks(): FakeMediaStreamTrack[] {
+    return [...this.tracks];
+  }
+
+  getAudioTracks(): FakeMediaStreamTrack[] {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+
+  getVideoTracks(): FakeMediaStreamTrack[] {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+
+  addTrack(track: FakeMediaStreamTrack): void {
+    this.tracks.push(track);
+  }
+
+  // RTCView renders react-native-webrtc streams from this URL
+  toURL(): string {
+    return this.id;
+  }
+}
+
+export interface FakeCamera {
+  deviceId: string;
+  label: string;
+  facing: 'front' | 'environment';
+}
+
+export const DEFAULT_FAKE_CAMERAS: FakeCamera[] = [
+  { deviceId: 'front', label: 'Front Camera', facing: 'front' },
+  { deviceId: 'back-ultra-wide', label: 'Back Ultra Wide Camera', facing: 'environment' },
+  { deviceId: 'back', label: 'Back Camera', facing: 'environment' },
+];
+
+export class FakeMediaDevices implements MediaDevicesProvider {
+  readonly requests: MediaStreamConstraints[] = [];
+  // Reject getUserMedia like a user who declined the permission prompt
+  permissionDenied: boolean = false;
+  private cameras: FakeCamera[];
+
+  constructor(cameras: FakeCamera[] = DEFAULT_FAKE_CAMERAS) {
+    this.cameras = cameras;
+  }
+
+  async getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream> {
+    this.requests.push(constraints);
+
+    if (this.permissionDenied) {
+      const error = new Error('Permission denied');
+      error.name = 'NotAllowedError';
+      throw error;
+    }
+
+    const tracks: FakeMediaStreamTrack[] = [];
+    if (constraints.audio) {
+      tracks.push(new FakeMediaStreamTrack('audio'));
+    }
+    if (constraints.video) {
+      const video = typeof constraints.video === 'object' ? constraints.video as Record<string, any> : {};
+      const camera = this.cameras.find(candidate => candidate.deviceId === video.deviceId);
+      tracks.push(new FakeMediaStreamTrack('video', {
+        deviceId: camera?.deviceId,
+        facingMode: camera
+          ? (camera.facing === 'front' ? 'user' : 'environment')
+          : video.facingMode,
+        width: 1280,
+        height: 720,
+      }));
+    }
+
+    return new FakeMediaStream(tracks) as unknown as MediaStream;
+  }
+
+  // A portrait phone screen
+  async getDisplayMedia(): Promise<MediaStream> {
+    if (this.permissionDenied) {
+      const error = new Error('Permission denied');
+      error.name = 'NotAllowedError';
+      throw error;
+    }
+
+    const track = new FakeMediaStreamTrack('video', {
+      displaySurface: 'monitor',
+      width: 1080,
+      height: 2340,
+    });
+    return new FakeMediaStream([track]) as unknown as MediaStream;
+  }
+
+    async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+    const devices = [
+      ...this.cameras.map(camera => ({ ...camera, kind: 'videoinput', groupId: '' })),
+      { deviceId: 'audio-1', label: 'Audio', kind: 'audioinput', groupId: '' },
+    ];
+    return devices as unknown as MediaDeviceInfo[];
+  }
+}
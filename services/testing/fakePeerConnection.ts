@@ -0,0 +1,400 @@
+// In-process RTCPeerConnection pairs. Two fake peer connections "connect" once
+// they have exchanged offer/answer and ICE candidates over real signaling,
+// then deliver each other's tracks and pre-negotiated data channels.
+
+let peerCounter = 0;
+
+const nextTick = (callback: () => void) => setTimeout(callback, 0);
+
+// Fake SDP just identifies the peer and its ICE generation
+const describe = (peerId: string, iceGeneration: number): string =>
+  `fake-sdp peer=${peerId} ice=${iceGeneration}`;
+
+const parseDescription = (sdp: string | undefined): { peerId: string; iceGeneration: number } | null => {
+  const match = /peer=(\S+) ice=(\d+)/.exec(sdp || '');
+  return match ? { peerId: match[1], iceGeneration: Number(match[2]) } : null;
+};
+
+const invalidState = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'InvalidStateError';
+  return error;
+};
+
+export class FakeDataChannel {
+  readonly label: string;
+  readonly id: number;
+  readyState: RTCDataChannelState = 'connecting';
+  bufferedAmount: number = 0;
+  bufferedAmountLowThreshold: number = 0;
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onbufferedamountlow: (() => void) | null = null;
+  partner: FakeDataChannel | null = null;
+
+  constructor(label: string, id: number) {
+    this.label = label;
+    this.id = id;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') {
+      throw invalidState('Data channel is not open');
+    }
+
+    const partner = this.partner;
+    nextTick(() => {
+      if (partner?.readyState === 'open') {
+        partner.onmessage?.({ data });
+      }
+    });
+  }
+
+  open(partner: FakeDataChannel): void {
+    this.partner = partner;
+    this.readyState = 'open';
+    nextTick(() => this.onopen?.());
+  }
+
+  close(): void {
+    if (this.readyState === 'closed') return;
+
+    this.readyState = 'closed';
+    nextTick(() => this.onclose?.());
+
+    // Closing one end of an SCTP stream closes the other
+    const partner = this.partner;
+    this.partner = null;
+    partner?.close();
+  }
+}
+
+class FakeRtpSender {
+  track: any;
+  readonly stream: any;
+  private encodings: RTCRtpEncodingParameters[] = [{}];
+
+  constructor(track: any, stream: any) {
+    this.track = track;
+    this.stream = stream;
+  }
+
+  getParameters(): { encodings: RTCRtpEncodingParameters[] } {
+    return { encodings: this.encodings.map(encoding => ({ ...encoding })) };
+  }
+
+  async setParameters(parameters: { encodings: RTCRtpEncodingParameters[] }): Promise<void> {
+    this.encodings = parameters.encodings;
+  }
+
+  // The remote side keeps its receiver; only what it carries changes
+  async replaceTrack(track: any): Promise<void> {
+    this.track = track;
+  }
+}
+
+export class FakePeerConnection {
+  readonly id: string;
+  readonly configuration: RTCConfiguration;
+  signalingState: RTCSignalingState = 'stable';
+  connectionState: RTCPeerConnectionState = 'new';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+
+  onicecandidate: ((event: { candidate: RTCIceCandidateInit | null }) => void) | null = null;
+  onnegotiationneeded: (() => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  ontrack: ((event: { track: any; streams: any[] }) => void) | null = null;
+
+  private network: FakeNetwork;
+  private senders: FakeRtpSender[] = [];
+  private deliveredTracks: Set<string> = new Set();
+  private dataChannels: Map<number, FakeDataChannel> = new Map();
+  private remotePeerId: string | null = null;
+  private iceGeneration: number = 0;
+  private remoteIceGeneration: number = -1;
+  private candidatesReceived: number = 0;
+  private stableLocalDescription: RTCSessionDescriptionInit | null = null;
+
+  constructor(network: FakeNetwork, configuration: RTCConfiguration) {
+    this.id = `peer-${++peerCounter}`;
+    this.network = network;
+    this.configuration = configuration;
+  }
+
+  get remotePeer(): FakePeerConnection | undefined {
+    return this.remotePeerId ? this.network.getPeer(this.remotePeerId) : undefined;
+  }
+
+  addTrack(track: any, stream: any): FakeRtpSender {
+    const sender = new FakeRtpSender(track, stream);
+    this.senders.push(sender);
+    return sender;
+  }
+
+  getSenders(): FakeRtpSender[] {
+    return [...this.senders];
+  }
+
+  createDataChannel(label: string, options: RTCDataChannelInit = {}): FakeDataChannel {
+    const channel = new FakeDataChannel(label, options.id ?? this.dataChannels.size);
+    this.dataChannels.set(channel.id, channel);
+    this.pairDataChannels();
+    return channel;
+  }
+
+  async createOffer(options: RTCOfferOptions = {}): Promise<RTCSessionDescriptionInit> {
+    if (options.iceRestart) {
+      this.iceGeneration++;
+    }
+    return { type: 'offer', sdp: describe(this.id, this.iceGeneration) };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    if (this.signalingState !== 'have-remote-offer') {
+      throw invalidState('createAnswer called without a remote offer');
+    }
+    // Answering an ICE restart restarts ICE on this side too
+    if (this.remoteIceGeneration > 0) {
+      this.iceGeneration = Math.max(this.iceGeneration, this.remoteIceGeneration);
+    }
+    return { type: 'answer', sdp: describe(this.id, this.iceGeneration) };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.assertOpen();
+
+    switch (description.type) {
+      case 'rollback':
+        if (this.signalingState !== 'have-local-offer') {
+          throw invalidState('Nothing to roll back');
+        }
+        this.signalingState = 'stable';
+        this.localDescription = this.stableLocalDescription;
+        return;
+
+      case 'offer':
+        if (this.signalingState !== 'stable' && this.signalingState !== 'have-local-offer') {
+          throw invalidState(`Cannot set local offer in ${this.signalingState}`);
+        }
+        this.localDescription = description;
+        this.signalingState = 'have-local-offer';
+        break;
+
+      case 'answer':
+        if (this.signalingState !== 'have-remote-offer') {
+          throw invalidState(`Cannot set local answer in ${this.signalingState}`);
+        }
+        this.localDescription = description;
+        this.stableLocalDescription = description;
+        this.signalingState = 'stable';
+        break;
+    }
+
+    this.gatherCandidates();
+    this.maybeConnect();
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.assertOpen();
+
+    const parsed = parseDescription(description.sdp);
+    if (!parsed) {
+      throw new Error('Malformed session description');
+    }
+
+    if (description.type === 'offer') {
+      if (this.signalingState !== 'stable') {
+        throw invalidState(`Cannot set remote offer in ${this.signalingState}`);
+      }
+      this.signalingState = 'have-remote-offer';
+    } else if (description.type === 'answer') {
+      if (this.signalingState !== 'have-local-offer') {
+        throw invalidState(`Cannot set remote answer in ${this.signalingState}`);
+      }
+      this.stableLocalDescription = this.localDescription;
+      this.signalingState = 'stable';
+    }
+
+    // New ICE credentials invalidate the candidates gathered so far
+    if (parsed.iceGeneration !== this.remoteIceGeneration) {
+      this.candidatesReceived = 0;
+    }
+    this.remotePeerId = parsed.peerId;
+    this.remoteIceGeneration = parsed.iceGeneration;
+    this.remoteDescription = description;
+
+    this.maybeConnect();
+  }
+
+  async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    this.assertOpen();
+
+    if (!this.remoteDescription) {
+      throw invalidState('addIceCandidate called without a remote description');
+    }
+    if (!candidate?.candidate) return;
+
+    this.candidatesReceived++;
+    this.maybeConnect();
+  }
+
+  async getStats(): Promise<Map<string, any>> {
+    return new Map();
+  }
+
+  restartIce(): void {
+    this.iceGeneration++;
+  }
+
+  close(): void {
+    if (this.signalingState === 'closed') return;
+
+    const remote = this.remotePeer;
+    this.signalingState = 'closed';
+    this.connectionState = 'closed';
+    this.dataChannels.forEach(channel => channel.close());
+
+    // The other side only notices through lost connectivity
+    remote?.setConnectionState('disconnected');
+  }
+
+  // Called by the network when the link drops or comes back
+  setConnectionState(state: RTCPeerConnectionState): void {
+    if (this.connectionState === state || this.connectionState === 'closed') return;
+
+    this.connectionState = state;
+    nextTick(() => {
+      // Closed connections don't fire events
+      if (this.signalingState !== 'closed') {
+        this.onconnectionstatechange?.();
+      }
+    });
+  }
+
+  private assertOpen(): void {
+    if (this.signalingState === 'closed') {
+      throw invalidState('Peer connection is closed');
+    }
+  }
+
+  // A host candidate, plus server reflexive and relay candidates for the
+  // STUN and TURN servers the network lets through
+  private gatherCandidates(): void {
+    const generation = this.iceGeneration;
+    const candidates = [`candidate:1 1 udp 2122260223 10.0.0.1 5000${generation} typ host`];
+    if (this.network.stunReachable && this.hasIceServer('stun')) {
+      candidates.push(`candidate:2 1 udp 1686052607 203.0.113.1 6000${generation} typ srflx`);
+    }
+    if (this.network.turnReachable && this.hasIceServer('turn')) {
+      candidates.push(`candidate:3 1 udp 41885439 198.51.100.1 7000${generation} typ relay`);
+    }
+
+    nextTick(() => {
+      if (this.signalingState === 'closed') return;
+      candidates.forEach(candidate => {
+        this.onicecandidate?.({ candidate: { candidate, sdpMid: '0', sdpMLineIndex: 0 } });
+      });
+      this.onicecandidate?.({ candidate: null });
+    });
+  }
+
+  private hasIceServer(scheme: 'stun' | 'turn'): boolean {
+    return (this.configuration.iceServers || []).some(server => {
+      const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+      return urls.some(url => url.startsWith(`${scheme}:`));
+    });
+  }
+
+  // Both sides have completed negotiation and have candidates for the
+  // current ICE generation: the link comes up if the network allows it
+  private maybeConnect(): void {
+    const remote = this.remotePeer;
+    if (!remote || !this.network.isUp) return;
+    if (!this.isReadyToConnect() || !remote.isReadyToConnect() || remote.remotePeerId !== this.id) return;
+
+    this.establish();
+    remote.establish();
+  }
+
+  private isReadyToConnect(): boolean {
+    return this.signalingState === 'stable' &&
+      this.localDescription !== null &&
+      this.remoteDescription !== null &&
+      this.candidatesReceived > 0;
+  }
+
+  private establish(): void {
+    const remote = this.remotePeer;
+    if (!remote) return;
+
+    // Tracks are reported before the connection, as on a real device
+    remote.senders.forEach(sender => {
+      if (this.deliveredTracks.has(sender.track.id)) return;
+      this.deliveredTracks.add(sender.track.id);
+      nextTick(() => this.ontrack?.({ track: sender.track, streams: [sender.stream] }));
+    });
+
+    this.setConnectionState('connected');
+
+    this.pairDataChannels();
+  }
+
+  private pairDataChannels(): void {
+    const remote = this.remotePeer;
+    if (!remote || this.connectionState !== 'connected') return;
+
+    this.dataChannels.forEach((channel, id) => {
+      const partner = remote.dataChannels.get(id);
+      if (channel.readyState === 'connecting' && partner?.readyState === 'connecting') {
+        channel.open(partner);
+        partner.open(channel);
+      }
+    });
+  }
+}
+
+// Shared "network" the fake peer connections live on. Interrupting it drops
+// every connected peer, as a Wi-Fi to cellular handover would
+export class FakeNetwork {
+  private peers: Map<string, FakePeerConnection> = new Map();
+  private up: boolean = true;
+  // Whether STUN / TURN servers answer, e.g. false for a network blocking UDP
+  stunReachable: boolean = true;
+  turnReachable: boolean = true;
+
+  get isUp(): boolean {
+    return this.up;
+  }
+
+  getPeer(id: string): FakePeerConnection | undefined {
+    return this.peers.get(id);
+  }
+
+  // Every connection created so far, e.g. to inspect what they send
+  get connections(): FakePeerConnection[] {
+    return Array.from(this.peers.values());
+  }
+
+  // Pass as WebRTCServiceDependencies.createPeerConnection
+  createPeerConnection = (configuration: RTCConfiguration): RTCPeerConnection => {
+    const peer = new FakePeerConnection(this, configuration);
+    this.peers.set(peer.id, peer);
+    return peer as unknown as RTCPeerConnection;
+  };
+
+  interrupt(): void {
+    this.up = false;
+    this.peers.forEach(peer => {
+      if (peer.connectionState === 'connected') {
+        peer.setConnectionState('disconnected');
+      }
+    });
+  }
+
+  // Links come back once ICE is restarted, as on a real network change
+  restore(): void {
+    this.up = true;
+  }
+}
@@ -0,0 +1,411 @@
+// In-process stand-in for the backend signaling server. Routing mirrors
+// backend/src/services/webrtc.js closely enough to exercise the client's
+// join, offer/answer/ICE and call status handling without a socket
+
+import { SignalingTransport, SignalingTransportEvents, WebRTCMessage } from '../webrtc';
+import {
+  MAX_ROOM_PARTICIPANTS,
+  MIN_PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION,
+  SIGNALING_ERROR_CODES,
+  SignalingErrorCode,
+  SignalingParticipant,
+  SignalingUserType,
+  validateClientMessage,
+} from '../../shared/signaling';
+
+interface HubConnection {
+  id: number;
+  transport: InMemorySignalingTransport;
+  userId: string | null;
+  userType: SignalingUserType | null;
+  roomId: string | null;
+}
+
+interface HubRoom {
+  id: string;
+  status: string;
+  participants: Map<string, SignalingParticipant & { connectionId: number }>;
+}
+
+export interface LoggedSignalingMessage {
+  direction: 'in' | 'out';
+  connectionId: number;
+  message: WebRTCMessage;
+}
+
+export class InMemorySignalingHub {
+  readonly log: LoggedSignalingMessage[] = [];
+  private connections: Map<number, HubConnection> = new Map();
+  private rooms: Map<string, HubRoom> = new Map();
+  private connectionCounter: number = 0;
+
+  // Create a transport to hand to a WebRTCService
+  createTransport(): InMemorySignalingTransport {
+    return new InMemorySignalingTransport(this);
+  }
+
+  // Messages of a type seen so far, in either direction
+  messagesOfType(type: string): LoggedSignalingMessage[] {
+    return this.log.filter(entry => entry.message.type === type);
+  }
+
+  getRoomStatus(roomId: string): string | null {
+    return this.rooms.get(roomId)?.status ?? null;
+  }
+
+  connect(transport: InMemorySignalingTransport): number {
+    const connectionId = ++this.connectionCounter;
+    this.connections.set(connectionId, {
+      id: connectionId,
+      transport,
+      userId: null,
+      userType: null,
+      roomId: null,
+    });
+
+    this.sendMessage(connectionId, {
+      type: 'connected',
+      data: {
+        connectionId,
+        serverTime: Date.now(),
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+      },
+    });
+
+    return connectionId;
+  }
+
+  disconnect(connectionId: number): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    this.connections.delete(connectionId);
+
+    const room = connection.roomId ? this.rooms.get(connection.roomId) : undefined;
+    if (room && connection.userId) {
+      room.participants.delete(connection.userId);
+      this.broadcastToRoom(room.id, {
+        type: 'user_disconnected',
+        data: {
+          userId: connection.userId,
+          userType: connection.userType,
+          reason: 'Connection lost',
+          participants: this.listParticipants(room),
+        },
+      }, connectionId);
+      this.closeRoomIfEmpty(room);
+    }
+  }
+
+  receive(connectionId: number, raw: WebRTCMessage): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    this.log.push({ direction: 'in', connectionId, message: raw });
+
+    const result = validateClientMessage(raw);
+    if (result.valid === false) {
+      this.sendError(connectionId, result.error, result.code);
+      return;
+    }
+
+    const message = result.message;
+
+    switch (message.type) {
+      case 'join_room': {
+        const { roomId, userId, userType } = message.data;
+        const protocolVersion = negotiateProtocolVersion(message.data.protocolVersion);
+        if (protocolVersion === null) {
+          this.sendError(
+            connectionId,
+            `Signaling protocol v${message.data.protocolVersion} is not supported, minimum is v${MIN_PROTOCOL_VERSION}`,
+            SIGNALING_ERROR_CODES.UNSUPPORTED_PROTOCOL
+          );
+          return;
+        }
+
+        const existingRoom = this.rooms.get(roomId);
+        if (existingRoom && !existingRoom.participants.has(userId) &&
+            existingRoom.participants.size >= MAX_ROOM_PARTICIPANTS) {
+          this.sendError(
+            connectionId,
+            `Room is full (${MAX_ROOM_PARTICIPANTS} participants)`,
+            SIGNALING_ERROR_CODES.ROOM_FULL
+          );
+          return;
+        }
+
+        if (connection.roomId) {
+          this.leaveRoom(connection);
+        }
+
+        let room = this.rooms.get(roomId);
+        if (!room) {
+          room = { id: roomId, status: 'waiting', participants: new Map() };
+          this.rooms.set(roomId, room);
+        }
+
+        room.participants.set(userId, {
+          connectionId,
+          userId,
+          userType,
+          joinedAt: Date.now(),
+          isReady: false,
+        });
+        connection.userId = userId;
+        connection.userType = userType;
+        connection.roomId = roomId;
+
+        if (room.participants.size >= 2 && room.status === 'waiting') {
+          room.status = 'ready';
+        }
+
+        this.broadcastToRoom(roomId, {
+          type: 'user_joined',
+          data: {
+            userId,
+            userType,
+            roomStatus: room.status,
+            participants: this.listParticipants(room),
+          },
+        }, connectionId);
+
+        this.sendMessage(connectionId, {
+          type: 'room_joined',
+          data: {
+            roomId,
+            roomStatus: room.status,
+            protocolVersion,
+            participants: this.listParticipants(room),
+          },
+        });
+        break;
+      }
+
+      case 'leave_room':
+        this.leaveRoom(connection);
+        break;
+
+      case 'offer':
+        this.forward(connection, message.data.targetUserId, 'offer', {
+          offer: message.data.offer,
+          fromUserId: connection.userId,
+          fromUserType: connection.userType,
+        });
+        break;
+
+      case 'answer':
+        this.forward(connection, message.data.targetUserId, 'answer', {
+          answer: message.data.answer,
+          fromUserId: connection.userId,
+          fromUserType: connection.userType,
+        });
+        break;
+
+      case 'ice_candidate':
+        this.forward(connection, message.data.targetUserId, 'ice_candidate', {
+          candidate: message.data.candidate,
+          fromUserId: connection.userId,
+        });
+        break;
+
+      case 'call_status': {
+        const room = connection.roomId ? this.rooms.get(connection.roomId) : undefined;
+        if (!room) {
+          this.sendError(connectionId, 'Failed to update call status: Not in a room');
+          return;
+        }
+
+        room.status = message.data.status;
+        this.broadcastToRoom(room.id, {
+          type: 'call_status',
+          data: {
+            status: message.data.status,
+            reason: message.data.reason,
+            updatedBy: connection.userId,
+          },
+        }, connectionId);
+        break;
+      }
+
+      case 'ping':
+        this.sendMessage(connectionId, { type: 'pong', data: { timestamp: Date.now() } });
+        break;
+    }
+  }
+
+  private leaveRoom(connection: HubConnection): void {
+    const room = connection.roomId ? this.rooms.get(connection.roomId) : undefined;
+    connection.roomId = null;
+    if (!room || !connection.userId) return;
+
+    room.participants.delete(connection.userId);
+    this.broadcastToRoom(room.id, {
+      type: 'user_left',
+      data: {
+        userId: connection.userId,
+        remainingParticipants: room.participants.size,
+        participants: this.listParticipants(room),
+      },
+    }, connection.id);
+    this.closeRoomIfEmpty(room);
+
+    this.sendMessage(connection.id, { type: 'room_left', data: { roomId: room.id } });
+  }
+
+  private closeRoomIfEmpty(room: HubRoom): void {
+    if (room.participants.size === 0) {
+      this.rooms.delete(room.id);
+    } else if (room.participants.size < 2) {
+      room.status = 'waiting';
+    }
+  }
+
+  private forward(connection: HubConnection, targetUserId: string, type: string, data: object): void {
+    const room = connection.roomId ? this.rooms.get(connection.roomId) : undefined;
+    const target = room?.participants.get(targetUserId);
+
+    if (!target) {
+      this.sendError(connection.id, `Failed to send ${type}: Target user in room not found`);
+      return;
+    }
+
+    this.sendMessage(target.connectionId, { type, data });
+  }
+
+  private listParticipants(room: HubRoom): SignalingParticipant[] {
+    return Array.from(room.participants.values()).map(({ userId, userType, joinedAt, isReady }) => ({
+      userId,
+      userType,
+      joinedAt,
+      isReady,
+    }));
+  }
+
+  private broadcastToRoom(roomId: string, message: WebRTCMessage, excludeConnectionId: number | null = null): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    room.participants.forEach(participant => {
+      if (participant.connectionId !== excludeConnectionId) {
+        this.sendMessage(participant.connectionId, message);
+      }
+    });
+  }
+
+  private sendError(
+    connectionId: number,
+    error: string,
+    code: SignalingErrorCode = SIGNALING_ERROR_CODES.REQUEST_FAILED
+  ): void {
+    this.sendMessage(connectionId, { type: 'error', data: { error, code, timestamp: Date.now() } });
+  }
+
+  private sendMessage(connectionId: number, message: WebRTCMessage): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    this.log.push({ direction: 'out', connectionId, message });
+    connection.transport.deliver(message);
+  }
+}
+
+// SignalingTransport backed by an InMemorySignalingHub. Messages are
+// serialized and delivered asynchronously, like over a real socket
+export class InMemorySignalingTransport implements SignalingTransport {
+  private hub: InMemorySignalingHub;
+  private events: SignalingTransportEvents | null = null;
+  private connectionId: number | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(hub: InMemorySignalingHub) {
+    this.hub = hub;
+  }
+
+  get isOpen(): boolean {
+    return this.connectionId !== null;
+  }
+
+  async connect(
+    url: string,
+    getAccessToken: () => Promise<string | null>,
+    events: SignalingTransportEvents
+  ): Promise<void> {
+    this.events = events;
+    this.open(false);
+  }
+
+  send(message: WebRTCMessage): void {
+    if (this.connectionId === null) {
+      throw new Error('Signaling socket is not open');
+    }
+
+    const connectionId = this.connectionId;
+    const serialized = JSON.stringify(message);
+    setTimeout(() => this.hub.receive(connectionId, JSON.parse(serialized)), 0);
+  }
+
+  // Closing on purpose doesn't report onClose, as with the WebSocket transport
+  disconnect(): void {
+    this.clearReconnectTimer();
+    this.close();
+    this.events = null;
+  }
+
+  // Simulate the server going away for good
+  fail(): void {
+    const events = this.events;
+    this.disconnect();
+    events?.onClose();
+  }
+
+  // Simulate the socket dropping; the server forgets the connection and the
+  // transport reconnects on its own after reconnectAfterMs
+  drop(reconnectAfterMs: number = 0): void {
+    if (this.connectionId === null) return;
+
+    this.close();
+    this.events?.onReconnecting(1);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.events) {
+        this.open(true);
+      }
+    }, reconnectAfterMs);
+  }
+
+  deliver(message: WebRTCMessage): void {
+    const serialized = JSON.stringify(message);
+    setTimeout(() => {
+      if (this.connectionId !== null) {
+        this.events?.onMessage(JSON.parse(serialized));
+      }
+    }, 0);
+  }
+
+  private open(isReconnect: boolean): void {
+    this.connectionId = this.hub.connect(this);
+    this.events?.onOpen(isReconnect);
+  }
+
+  // Messages already sent still reach the server, as a WebSocket flushes
+  // its buffer before the close frame
+  private close(): void {
+    if (this.connectionId === null) return;
+
+    const connectionId = this.connectionId;
+    this.connectionId = null;
+    setTimeout(() => this.hub.disconnect(connectionId), 0);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
@@ -0,0 +1,15 @@
+// Test doubles for running WebRTCService in-process, e.g. two services
+// (blind and volunteer) calling each other in Jest
+
+export { FakeApi } from './fakeApi';
+export type { EndedCall, EndedMatch } from './fakeApi';
+export {
+  DEFAULT_FAKE_CAMERAS,
+  FakeMediaDevices,
+  FakeMediaStream,
+  FakeMediaStreamTrack,
+} from './fakeMedia';
+export type { FakeCamera } from './fakeMedia';
+export { FakeDataChannel, FakeNetwork, FakePeerConnection } from './fakePeerConnection';
+export { InMemorySignalingHub, InMemorySignalingTransport } from './inMemorySignaling';
+export type { LoggedSignalingMessage } from './inMemorySignaling';
@@ -0,0 +1,136 @@
+import { VoiceCommandPack } from './types';
+
+const ar: VoiceCommandPack = {
+  language: 'ar',
+  locale: 'ar-SA',
+  grammar: [
+    {
+      intent: 'help',
+      phrases: ['الأوامر', 'قائمة الأوامر', 'ماذا أقول', 'ماذا يمكنني أن أقول'],
+    },
+    {
+      intent: 'dashboard',
+      phrases: ['الرئيسية', 'الصفحة الرئيسية', 'لوحة التحكم'],
+    },
+    {
+      intent: 'reputation',
+      phrases: ['السمعة', 'سمعتي', 'التقييم', 'نقاطي'],
+    },
+    {
+      intent: 'request_help',
+      phrases: ['مساعدة', 'أحتاج مساعدة', 'أريد مساعدة', 'ساعدني', 'اتصل', 'اتصل بمتطوع', 'ابدأ مكالمة'],
+      slots: ['category', 'language'],
+    },
+    {
+      intent: 'end_call',
+      phrases: ['إنهاء المكالمة', 'أنه المكالمة', 'اقطع المكالمة', 'أغلق الخط'],
+    },
+    {
+      intent: 'available',
+      phrases: ['متاح', 'متاحة', 'أنا متاح', 'متصل'],
+    },
+    {
+      intent: 'unavailable',
+      phrases: ['غير متاح', 'غير متاحة', 'مشغول', 'مشغولة', 'غير متصل'],
+    },
+    {
+      intent: 'wallet',
+      phrases: ['المحفظة', 'محفظتي', 'المكافآت', 'الأرباح'],
+    },
+    {
+      intent: 'balance',
+      phrases: ['الرصيد', 'رصيدي', 'كم لدي', 'رصيد المحفظة', 'كم ربحت'],
+    },
+  ],
+  lexicon: {
+    negations: ['لا', 'لن', 'لم', 'ليس', 'مش', 'غير'],
+    clauseBreaks: ['لكن', 'ولكن', 'أو', 'ثم', 'بل'],
+    fillers: [
+      'من', 'في', 'على', 'إلى', 'الى', 'أنا', 'انا', 'لي', 'مع', 'هذا', 'هذه', 'أريد', 'اريد',
+      'لو', 'سمحت', 'فضلك', 'و', 'يا', 'شخص', 'أحد', 'يتحدث', 'اللغة', 'الآن',
+    ],
+    yes: ['نعم', 'أيوه', 'ايوه', 'أجل', 'صحيح', 'حسنا', 'تمام', 'طيب'],
+    no: ['لا', 'كلا', 'إلغاء', 'خطأ'],
+    categoryWords: {
+      قراءة: 'reading',
+      اقرأ: 'reading',
+      ملصق: 'reading',
+      الملصق: 'reading',
+      رسالة: 'reading',
+      بريد: 'reading',
+      نص: 'reading',
+      لافتة: 'reading',
+      مستند: 'reading',
+      تعليمات: 'reading',
+      دواء: 'reading',
+      الدواء: 'reading',
+      طريق: 'navigation',
+      الطريق: 'navigation',
+      اتجاهات: 'navigation',
+      ضائع: 'navigation',
+      ضائعة: 'navigation',
+      العثور: 'navigation',
+      هاتف: 'tech_help',
+      الهاتف: 'tech_help',
+      جوال: 'tech_help',
+      كمبيوتر: 'tech_help',
+      الكمبيوتر: 'tech_help',
+      حاسوب: 'tech_help',
+      شاشة: 'tech_help',
+      الشاشة: 'tech_help',
+      تطبيق: 'tech_help',
+      التطبيق: 'tech_help',
+      موقع: 'tech_help',
+      طابعة: 'tech_help',
+    },
+    languageWords: {
+      الإنجليزية: 'en',
+      الانجليزية: 'en',
+      بالإنجليزية: 'en',
+      الإسبانية: 'es',
+      بالإسبانية: 'es',
+      العربية: 'ar',
+      بالعربية: 'ar',
+      الهندية: 'hi',
+      بالهندية: 'hi',
+      الفرنسية: 'fr',
+      الألمانية: 'de',
+      الصينية: 'zh',
+    },
+  },
+  descriptions: {
+    help: 'الاستماع إلى الأوامر الصوتية',
+    dashboard: 'الذهاب إلى الصفحة الرئيسية',
+    reputation: 'الاستماع إلى سمعتك',
+    request_help: 'الاتصال بمتطوع',
+    end_call: 'إنهاء المكالمة',
+    available: 'جعل حالتك متاحًا',
+    unavailable: 'جعل حالتك غير متاح',
+    wallet: 'فتح المحفظة',
+    balance: 'الاستماع إلى رصيد المحفظة',
+  },
+  responses: {
+    listening: 'أستمع الآن. قل الأمر.',
+    notUnderstood: 'عذرًا، لم أفهم. قل الأوامر لسماع قائمة الأوامر.',
+    commandFailed: 'عذرًا، تعذر تنفيذ الأمر',
+    confirmationDeclined: 'حسنًا، لا بأس',
+    confirm: phrase => `هل تقصد ${phrase}؟ قل نعم أو لا.`,
+    commandList: commands => `الأوامر المتاحة: ${commands
+      .map(({ phrase, description }) => `قل ${phrase} من أجل ${description}`)
+      .join('، ')}`,
+    appLoading: 'التطبيق ما زال قيد التحميل. حاول مرة أخرى بعد قليل.',
+    dashboard: 'الصفحة الرئيسية',
+    reputation: score => `سمعتك ${score}`,
+    reputationUnavailable: 'السمعة غير متاحة',
+    alreadyRequestingHelp: 'لديك مكالمة أو طلب مساعدة قيد التنفيذ بالفعل',
+    requestHelpFromDashboard: 'اذهب إلى الصفحة الرئيسية لطلب المساعدة',
+    notOnCall: 'أنت لست في مكالمة',
+    nowAvailable: 'أنت الآن متصل ومتاح للمساعدة',
+    nowUnavailable: 'أنت الآن غير متصل',
+    wallet: 'المحفظة',
+    balance: amount => `رصيد محفظتك ${amount} رمز`,
+    balanceUnavailable: 'تعذر تحميل رصيد محفظتك',
+  },
+};
+
+export default ar;
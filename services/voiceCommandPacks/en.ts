@@ -0,0 +1,44 @@
+import { ENGLISH_LEXICON, VOICE_GRAMMAR } from '../voiceIntents';
+import { VoiceCommandPack } from './types';
+
+const en: VoiceCommandPack = {
+  language: 'en',
+  locale: 'en-US',
+  grammar: VOICE_GRAMMAR,
+  lexicon: ENGLISH_LEXICON,
+  descriptions: {
+    help: 'List available voice commands',
+    dashboard: 'Navigate to dashboard',
+    reputation: 'Read reputation score',
+    request_help: 'Start a volunteer call',
+    end_call: 'End current call',
+    available: 'Set availability status',
+    unavailable: 'Set unavailable status',
+    wallet: 'Navigate to wallet',
+    balance: 'Read wallet balance',
+  },
+  responses: {
+    listening: 'Listening. Say your command.',
+    notUnderstood: 'Sorry, I did not understand. Say help to hear the commands.',
+    commandFailed: 'Sorry, that command could not be completed',
+    confirmationDeclined: 'Okay, never mind',
+    confirm: phrase => `Did you mean ${phrase}? Say yes or no.`,
+    commandList: commands => `Available commands: ${commands
+      .map(({ phrase, description }) => `say ${phrase} to ${description.toLowerCase()}`)
+      .join(', ')}`,
+    appLoading: 'The app is still loading. Please try again in a moment.',
+    dashboard: 'Dashboard',
+    reputation: score => `Your reputation score is ${score}`,
+    reputationUnavailable: 'Reputation score not available',
+    alreadyRequestingHelp: 'You already have a call or help request in progress',
+    requestHelpFromDashboard: 'Go to your dashboard to request help',
+    notOnCall: 'You are not on a call',
+    nowAvailable: 'You are now online and available to help',
+    nowUnavailable: 'You are now offline',
+    wallet: 'Wallet',
+    balance: amount => `Your wallet balance is ${amount} tokens`,
+    balanceUnavailable: 'Your wallet balance could not be loaded',
+  },
+};
+
+export default en;
@@ -0,0 +1,140 @@
+import { VoiceCommandPack } from './types';
+
+const es: VoiceCommandPack = {
+  language: 'es',
+  locale: 'es-ES',
+  grammar: [
+    {
+      intent: 'help',
+      phrases: ['ayuda', 'comandos', 'qué puedo decir'],
+    },
+    {
+      intent: 'dashboard',
+      phrases: ['inicio', 'panel', 'ir al inicio', 'pantalla principal'],
+    },
+    {
+      intent: 'reputation',
+      phrases: ['reputación', 'puntuación', 'mi reputación', 'cuál es mi reputación'],
+    },
+    {
+      intent: 'request_help',
+      phrases: [
+        'necesito ayuda', 'pedir ayuda', 'ayúdame', 'llamar', 'llamar a un voluntario',
+        'llama a un voluntario', 'buscar un voluntario', 'iniciar llamada',
+      ],
+      slots: ['category', 'language'],
+    },
+    {
+      intent: 'end_call',
+      phrases: ['terminar llamada', 'terminar la llamada', 'colgar', 'cuelga', 'finalizar llamada', 'cortar la llamada'],
+    },
+    {
+      intent: 'available',
+      phrases: ['disponible', 'estoy disponible', 'conectarme', 'listo para ayudar'],
+    },
+    {
+      intent: 'unavailable',
+      phrases: ['no disponible', 'no estoy disponible', 'ocupado', 'ocupada', 'desconectarme'],
+    },
+    {
+      intent: 'wallet',
+      phrases: ['cartera', 'billetera', 'recompensas', 'ganancias', 'abrir cartera'],
+    },
+    {
+      intent: 'balance',
+      phrases: ['saldo', 'cuánto tengo', 'saldo de la cartera', 'cuánto he ganado'],
+    },
+  ],
+  lexicon: {
+    negations: ['no', 'nunca', 'jamás', 'tampoco'],
+    clauseBreaks: ['pero', 'y', 'o', 'entonces', 'sino', 'luego'],
+    fillers: [
+      'a', 'al', 'el', 'la', 'los', 'las', 'un', 'una', 'de', 'del', 'en', 'con', 'por', 'para',
+      'favor', 'mi', 'me', 'yo', 'que', 'quiero', 'puedes', 'podrías', 'ahora', 'alguien', 'este',
+      'esta', 'esto', 'y', 'hola', 'oye', 'gracias', 'habla', 'hable', 'idioma', 'estoy',
+    ],
+    yes: ['sí', 'si', 'claro', 'correcto', 'vale', 'exacto', 'dale'],
+    no: ['no', 'cancelar', 'incorrecto', 'olvídalo'],
+    categoryWords: {
+      leer: 'reading',
+      leyendo: 'reading',
+      etiqueta: 'reading',
+      etiquetas: 'reading',
+      carta: 'reading',
+      correo: 'reading',
+      texto: 'reading',
+      menú: 'reading',
+      letrero: 'reading',
+      documento: 'reading',
+      instrucciones: 'reading',
+      medicamento: 'reading',
+      encontrar: 'navigation',
+      dirección: 'navigation',
+      direcciones: 'navigation',
+      camino: 'navigation',
+      perdido: 'navigation',
+      perdida: 'navigation',
+      ubicar: 'navigation',
+      navegar: 'navigation',
+      teléfono: 'tech_help',
+      móvil: 'tech_help',
+      celular: 'tech_help',
+      computadora: 'tech_help',
+      ordenador: 'tech_help',
+      pantalla: 'tech_help',
+      aplicación: 'tech_help',
+      app: 'tech_help',
+      página: 'tech_help',
+      impresora: 'tech_help',
+    },
+    languageWords: {
+      inglés: 'en',
+      español: 'es',
+      francés: 'fr',
+      alemán: 'de',
+      italiano: 'it',
+      portugués: 'pt',
+      chino: 'zh',
+      árabe: 'ar',
+      hindi: 'hi',
+      ruso: 'ru',
+      japonés: 'ja',
+      coreano: 'ko',
+    },
+  },
+  descriptions: {
+    help: 'Escuchar los comandos de voz',
+    dashboard: 'Ir al inicio',
+    reputation: 'Escuchar tu reputación',
+    request_help: 'Llamar a un voluntario',
+    end_call: 'Terminar la llamada',
+    available: 'Ponerte disponible',
+    unavailable: 'Ponerte no disponible',
+    wallet: 'Abrir la cartera',
+    balance: 'Escuchar el saldo de la cartera',
+  },
+  responses: {
+    listening: 'Escuchando. Di tu comando.',
+    notUnderstood: 'Perdón, no te entendí. Di ayuda para escuchar los comandos.',
+    commandFailed: 'Perdón, no se pudo completar el comando',
+    confirmationDeclined: 'De acuerdo, no pasa nada',
+    confirm: phrase => `¿Quisiste decir ${phrase}? Di sí o no.`,
+    commandList: commands => `Comandos disponibles: ${commands
+      .map(({ phrase, description }) => `di ${phrase} para ${description.toLowerCase()}`)
+      .join(', ')}`,
+    appLoading: 'La aplicación todavía se está cargando. Inténtalo de nuevo en un momento.',
+    dashboard: 'Inicio',
+    reputation: score => `Tu reputación es ${score}`,
+    reputationUnavailable: 'La reputación no está disponible',
+    alreadyRequestingHelp: 'Ya tienes una llamada o una solicitud de ayuda en curso',
+    requestHelpFromDashboard: 'Ve al inicio para pedir ayuda',
+    notOnCall: 'No estás en una llamada',
+    nowAvailable: 'Ahora estás conectado y disponible para ayudar',
+    nowUnavailable: 'Ahora estás desconectado',
+    wallet: 'Cartera',
+    balance: amount => `El saldo de tu cartera es de ${amount} tokens`,
+    balanceUnavailable: 'No se pudo cargar el saldo de tu cartera',
+  },
+};
+
+export default es;
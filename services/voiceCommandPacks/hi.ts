@@ -0,0 +1,131 @@
+import { VoiceCommandPack } from './types';
+
+const hi: VoiceCommandPack = {
+  language: 'hi',
+  locale: 'hi-IN',
+  grammar: [
+    {
+      intent: 'help',
+      phrases: ['कमांड', 'कमांड बताओ', 'मैं क्या बोल सकता हूँ', 'मैं क्या बोलूं'],
+    },
+    {
+      intent: 'dashboard',
+      phrases: ['होम', 'डैशबोर्ड', 'मुख्य स्क्रीन'],
+    },
+    {
+      intent: 'reputation',
+      phrases: ['प्रतिष्ठा', 'स्कोर', 'मेरा स्कोर', 'मेरी प्रतिष्ठा'],
+    },
+    {
+      intent: 'request_help',
+      phrases: ['मदद', 'मदद चाहिए', 'मदद करो', 'कॉल', 'कॉल करो', 'स्वयंसेवक को कॉल करो', 'स्वयंसेवक बुलाओ'],
+      slots: ['category', 'language'],
+    },
+    {
+      intent: 'end_call',
+      phrases: ['कॉल खत्म करो', 'कॉल काटो', 'कॉल बंद करो', 'फोन रखो'],
+    },
+    {
+      intent: 'available',
+      phrases: ['उपलब्ध', 'मैं उपलब्ध हूँ', 'ऑनलाइन'],
+    },
+    {
+      intent: 'unavailable',
+      phrases: ['उपलब्ध नहीं', 'अनुपलब्ध', 'व्यस्त', 'ऑफलाइन'],
+    },
+    {
+      intent: 'wallet',
+      phrases: ['वॉलेट', 'इनाम', 'कमाई', 'वॉलेट खोलो'],
+    },
+    {
+      intent: 'balance',
+      phrases: ['बैलेंस', 'कितना है', 'वॉलेट बैलेंस', 'मैंने कितना कमाया'],
+    },
+  ],
+  lexicon: {
+    // "Call mat karo": the negation comes after what it negates
+    negations: ['नहीं', 'मत', 'ना', 'न'],
+    negationFollows: true,
+    clauseBreaks: ['लेकिन', 'मगर', 'और', 'या', 'फिर'],
+    fillers: [
+      'मुझे', 'मैं', 'मेरा', 'मेरी', 'मेरे', 'को', 'का', 'की', 'के', 'से', 'में', 'पर', 'है', 'हैं',
+      'हूँ', 'हूं', 'करो', 'करें', 'कीजिए', 'दो', 'दीजिए', 'कृपया', 'प्लीज़', 'एक', 'कोई', 'यह', 'ये',
+      'और', 'भाषा', 'बोलने', 'वाला', 'वाले', 'चाहिए', 'अभी',
+    ],
+    yes: ['हाँ', 'हां', 'हा', 'ठीक है', 'बिल्कुल', 'सही'],
+    no: ['नहीं', 'ना', 'रहने दो', 'गलत', 'रद्द'],
+    categoryWords: {
+      पढ़ना: 'reading',
+      पढ़ने: 'reading',
+      पढ़ो: 'reading',
+      लेबल: 'reading',
+      चिट्ठी: 'reading',
+      पत्र: 'reading',
+      मेनू: 'reading',
+      दवा: 'reading',
+      दवाई: 'reading',
+      निर्देश: 'reading',
+      रास्ता: 'navigation',
+      रास्ते: 'navigation',
+      ढूंढना: 'navigation',
+      ढूंढने: 'navigation',
+      खोजना: 'navigation',
+      दिशा: 'navigation',
+      फोन: 'tech_help',
+      फ़ोन: 'tech_help',
+      कंप्यूटर: 'tech_help',
+      लैपटॉप: 'tech_help',
+      स्क्रीन: 'tech_help',
+      ऐप: 'tech_help',
+      वेबसाइट: 'tech_help',
+      प्रिंटर: 'tech_help',
+    },
+    languageWords: {
+      अंग्रेज़ी: 'en',
+      अंग्रेजी: 'en',
+      स्पेनिश: 'es',
+      हिंदी: 'hi',
+      हिन्दी: 'hi',
+      अरबी: 'ar',
+      उर्दू: 'ur',
+      फ्रेंच: 'fr',
+      जर्मन: 'de',
+      चीनी: 'zh',
+    },
+  },
+  descriptions: {
+    help: 'आवाज़ वाले कमांड सुनें',
+    dashboard: 'होम स्क्रीन पर जाएं',
+    reputation: 'अपनी प्रतिष्ठा सुनें',
+    request_help: 'स्वयंसेवक को कॉल करें',
+    end_call: 'कॉल खत्म करें',
+    available: 'खुद को उपलब्ध करें',
+    unavailable: 'खुद को अनुपलब्ध करें',
+    wallet: 'वॉलेट खोलें',
+    balance: 'वॉलेट बैलेंस सुनें',
+  },
+  responses: {
+    listening: 'सुन रहा हूँ। अपना कमांड बोलें।',
+    notUnderstood: 'माफ़ कीजिए, मैं समझ नहीं पाया। कमांड सुनने के लिए कमांड बोलें।',
+    commandFailed: 'माफ़ कीजिए, यह कमांड पूरा नहीं हो सका',
+    confirmationDeclined: 'ठीक है, रहने देते हैं',
+    confirm: phrase => `क्या आपका मतलब ${phrase} था? हाँ या नहीं बोलें।`,
+    commandList: commands => `उपलब्ध कमांड: ${commands
+      .map(({ phrase, description }) => `${description} के लिए ${phrase} बोलें`)
+      .join(', ')}`,
+    appLoading: 'ऐप अभी लोड हो रहा है। कृपया थोड़ी देर बाद कोशिश करें।',
+    dashboard: 'होम',
+    reputation: score => `आपकी प्रतिष्ठा ${score} है`,
+    reputationUnavailable: 'प्रतिष्ठा उपलब्ध नहीं है',
+    alreadyRequestingHelp: 'आपकी एक कॉल या मदद का अनुरोध पहले से चल रहा है',
+    requestHelpFromDashboard: 'मदद मांगने के लिए होम स्क्रीन पर जाएं',
+    notOnCall: 'आप किसी कॉल पर नहीं हैं',
+    nowAvailable: 'अब आप ऑनलाइन हैं और मदद के लिए उपलब्ध हैं',
+    nowUnavailable: 'अब आप ऑफलाइन हैं',
+    wallet: 'वॉलेट',
+    balance: amount => `आपका वॉलेट बैलेंस ${amount} टोकन है`,
+    balanceUnavailable: 'आपका वॉलेट बैलेंस लोड नहीं हो सका',
+  },
+};
+
+export default hi;
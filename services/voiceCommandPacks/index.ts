@@ -0,0 +1,65 @@
+import ar from './ar';
+import en from './en';
+import es from './es';
+import hi from './hi';
+import { VoiceCommandPack } from './types';
+
+export * from './types';
+
+// Languages with voice commands, by ISO 639-1 code. Adding a language is a
+// new pack file listed here
+export const VOICE_COMMAND_PACKS: Record<string, VoiceCommandPack> = { ar, en, es, hi };
+
+export const DEFAULT_VOICE_LANGUAGE = 'en';
+
+// Profiles may hold a language name rather than a code
+const LANGUAGE_NAMES: Record<string, string> = {
+  arabic: 'ar',
+  english: 'en',
+  hindi: 'hi',
+  spanish: 'es',
+};
+
+export interface VoiceLanguage {
+  pack: VoiceCommandPack;
+  // The full locale to recognise and speak in, e.g. 'es-MX'
+  locale: string;
+}
+
+// 'es-MX', 'es_MX', 'es' or 'Spanish' to a language code and, when given, a locale
+const parseLanguagePreference = (preference: string): { language: string; locale: string | null } => {
+  const normalized = preference.trim().replace('_', '-');
+  const lower = normalized.toLowerCase();
+  if (LANGUAGE_NAMES[lower]) {
+    return { language: LANGUAGE_NAMES[lower], locale: null };
+  }
+
+  const [language, region] = lower.split('-');
+  return { language, locale: region ? `${language}-${region.toUpperCase()}` : null };
+};
+
+// The device's own locale, as set in its language settings
+export const getDeviceLocale = (): string | null => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale || null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// The first preference we have a pack for, most important first (e.g. the
+// user's profile, then the device). English when there's none
+export const resolveVoiceLanguage = (preferences: Array<string | null | undefined>): VoiceLanguage => {
+  for (const preference of preferences) {
+    if (!preference) continue;
+
+    const { language, locale } = parseLanguagePreference(preference);
+    const pack = VOICE_COMMAND_PACKS[language];
+    if (pack) {
+      return { pack, locale: locale || pack.locale };
+    }
+  }
+
+  const pack = VOICE_COMMAND_PACKS[DEFAULT_VOICE_LANGUAGE];
+  return { pack, locale: pack.locale };
+};
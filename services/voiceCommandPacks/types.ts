@@ -0,0 +1,37 @@
+import { IntentRule, VoiceIntentName, VoiceLexicon } from '../voiceIntents';
+
+// Everything voice commands say back, in the pack's language
+export interface VoiceResponses {
+  listening: string;
+  notUnderstood: string;
+  commandFailed: string;
+  confirmationDeclined: string;
+  confirm: (phrase: string) => string;
+  // One entry per command: what to say, and what it does
+  commandList: (commands: Array<{ phrase: string; description: string }>) => string;
+  appLoading: string;
+  dashboard: string;
+  reputation: (score: number) => string;
+  reputationUnavailable: string;
+  alreadyRequestingHelp: string;
+  requestHelpFromDashboard: string;
+  notOnCall: string;
+  nowAvailable: string;
+  nowUnavailable: string;
+  wallet: string;
+  balance: (amount: string) => string;
+  balanceUnavailable: string;
+}
+
+// Voice commands in one language: what users can say, and what they hear back
+export interface VoiceCommandPack {
+  // ISO 639-1 code, e.g. 'es'
+  language: string;
+  // The speech recogniser and text-to-speech locale used unless the user's
+  // own locale is more specific, e.g. 'es-ES'
+  locale: string;
+  grammar: IntentRule[];
+  lexicon: VoiceLexicon;
+  descriptions: Record<VoiceIntentName, string>;
+  responses: VoiceResponses;
+}
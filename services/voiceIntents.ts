@@ -0,0 +1,449 @@
+import { wordSimilarity } from './fuzzyMatch';
+
+// A small intent grammar for voice commands. Utterances are matched against
+// whole-word phrases, allowing for words the recogniser misheard; slots
+// (what kind of help, which language) are filled from the rest of the words,
+// and every recogniser alternative is ranked. So "don't call anyone" triggers
+// nothing and "get help reading a label in Spanish" asks for a
+// Spanish-speaking reading helper
+
+export type VoiceIntentName =
+  | 'help'
+  | 'dashboard'
+  | 'reputation'
+  | 'request_help'
+  | 'end_call'
+  | 'available'
+  | 'unavailable'
+  | 'wallet'
+  | 'balance';
+
+// The help categories the matching service understands
+export type HelpCategory = 'reading' | 'navigation' | 'tech_help' | 'general';
+
+export interface VoiceIntentSlots {
+  category?: HelpCategory;
+  // ISO 639-1 code, e.g. 'es'
+  language?: string;
+}
+
+export type VoiceIntentSlotName = keyof VoiceIntentSlots;
+
+export interface IntentRule {
+  intent: VoiceIntentName;
+  // Whole-word phrases that trigger the intent; the first is the one
+  // suggested to users
+  phrases: string[];
+  slots?: VoiceIntentSlotName[];
+}
+
+export interface VoiceIntent {
+  name: VoiceIntentName;
+  slots: VoiceIntentSlots;
+  // 0-1: how much of the utterance the intent accounts for, lowered for
+  // the recogniser's less likely alternatives
+  confidence: number;
+  transcript: string;
+}
+
+// Below this the utterance is mostly about something else
+export const MIN_INTENT_CONFIDENCE = 0.4;
+
+// From here up the intent is acted on straight away; between the two the
+// user is asked to confirm it first
+export const CONFIRMED_INTENT_CONFIDENCE = 0.75;
+
+// Phrase words heard less closely than this don't match; words that only
+// sound alike just make it
+const MIN_WORD_SIMILARITY = 0.7;
+
+// Each less likely recogniser alternative loses this much confidence
+const ALTERNATIVE_PENALTY = 0.05;
+
+// A phrase is cancelled by a negation anywhere earlier in its clause ("I
+// don't want to call anyone"), but a slot word only by one this many words
+// or fewer before it, so "help me, I can't read this label" still asks for
+// reading help
+const SLOT_NEGATION_WINDOW = 2;
+
+// Stands in for sentence punctuation, which ends a clause in any language
+// ("I can't see, call a volunteer"); it isn't a word
+const CLAUSE_MARK = '|';
+
+export const VOICE_GRAMMAR: IntentRule[] = [
+  {
+    intent: 'help',
+    phrases: ['help', 'commands', 'what can i say'],
+  },
+  {
+    intent: 'dashboard',
+    phrases: ['dashboard', 'home', 'main', 'go home', 'main screen'],
+  },
+  {
+    intent: 'reputation',
+    phrases: ['reputation', 'score', 'reputation score', 'what is my reputation'],
+  },
+  {
+    intent: 'request_help',
+    phrases: [
+      'get help', 'need help', 'help me', 'call', 'call volunteer', 'call a volunteer',
+      'start call', 'start a call', 'find a volunteer',
+    ],
+    slots: ['category', 'language'],
+  },
+  {
+    intent: 'end_call',
+    phrases: ['end call', 'end the call', 'hang up', 'disconnect', 'stop call', 'stop the call'],
+  },
+  {
+    intent: 'available',
+    phrases: ['available', 'available for calls', 'ready to help', 'go online'],
+  },
+  {
+    intent: 'unavailable',
+    phrases: ['unavailable', 'not available', 'busy', 'go offline'],
+  },
+  {
+    intent: 'wallet',
+    phrases: ['wallet', 'rewards', 'earnings', 'open wallet', 'open my wallet'],
+  },
+  {
+    intent: 'balance',
+    phrases: ['balance', 'how much', 'wallet balance', 'how much have i earned'],
+  },
+];
+
+// The words of a language the grammar relies on besides its phrases
+export interface VoiceLexicon {
+  negations: string[];
+  // Languages like Hindi negate after the verb ("call mat karo"), so
+  // negations following a phrase cancel it too
+  negationFollows?: boolean;
+  // Words that start a new clause ("but", "and"), so a negation before them
+  // doesn't reach the words after
+  clauseBreaks?: string[];
+  // Words that carry no meaning for any intent, so they don't count against it
+  fillers: string[];
+  // Answers to "Did you mean ...?"; may be several words
+  yes: string[];
+  no: string[];
+  categoryWords: Record<string, HelpCategory>;
+  // Language names, to ISO 639-1 codes
+  languageWords: Record<string, string>;
+}
+
+const NEGATIONS = [
+  'not', 'no', 'never', "don't", 'dont', "can't", 'cant', "won't", 'wont',
+  "didn't", 'didnt', "doesn't", 'doesnt', "shouldn't", 'shouldnt',
+];
+
+const FILLER_WORDS = [
+  'a', 'an', 'the', 'i', "i'm", 'im', 'me', 'my', 'you', 'your', 'please', 'can', 'could', 'would',
+  'will', 'want', 'to', 'now', 'just', 'some', 'someone', 'anyone', 'with', 'for', 'in', 'on', 'of',
+  'this', 'that', 'it', 'is', 'am', 'be', 'hey', 'hi', 'ok', 'okay', 'like', 'and', 'who', 'speaks',
+  'speaking', 'language', 'thanks', 'thank',
+];
+
+const CATEGORY_WORDS: Record<string, HelpCategory> = {
+  read: 'reading',
+  reading: 'reading',
+  label: 'reading',
+  labels: 'reading',
+  letter: 'reading',
+  mail: 'reading',
+  text: 'reading',
+  menu: 'reading',
+  sign: 'reading',
+  document: 'reading',
+  instructions: 'reading',
+  medication: 'reading',
+  find: 'navigation',
+  finding: 'navigation',
+  navigate: 'navigation',
+  navigating: 'navigation',
+  navigation: 'navigation',
+  directions: 'navigation',
+  way: 'navigation',
+  lost: 'navigation',
+  locate: 'navigation',
+  phone: 'tech_help',
+  computer: 'tech_help',
+  laptop: 'tech_help',
+  screen: 'tech_help',
+  app: 'tech_help',
+  website: 'tech_help',
+  printer: 'tech_help',
+  tech: 'tech_help',
+  technology: 'tech_help',
+};
+
+const LANGUAGE_WORDS: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+  chinese: 'zh',
+  mandarin: 'zh',
+  cantonese: 'zh',
+  arabic: 'ar',
+  hindi: 'hi',
+  russian: 'ru',
+  japanese: 'ja',
+  korean: 'ko',
+};
+
+export const ENGLISH_LEXICON: VoiceLexicon = {
+  negations: NEGATIONS,
+  // "Please" starts the actual request: "I can't read this please call someone"
+  clauseBreaks: ['but', 'and', 'or', 'so', 'then', 'instead', 'please'],
+  fillers: FILLER_WORDS,
+  yes: ['yes', 'yeah', 'yep', 'yup', 'sure', 'correct', 'right', 'ok', 'okay'],
+  no: ['no', 'nope', 'cancel', 'wrong', 'never mind'],
+  categoryWords: CATEGORY_WORDS,
+  languageWords: LANGUAGE_WORDS,
+};
+
+const slotVocabulary = (lexicon: VoiceLexicon, name: VoiceIntentSlotName): Record<string, string> =>
+  name === 'category' ? lexicon.categoryWords : lexicon.languageWords;
+
+// Lowercase words in any script with punctuation removed, keeping
+// apostrophes so "don't" stays one word and combining marks so Hindi and
+// Arabic words stay whole. Sentence punctuation, including Arabic and the
+// Hindi danda, is kept as a CLAUSE_MARK
+export const tokenize = (utterance: string): string[] =>
+  utterance
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[.,;:!?،؛؟।]+/g, ` ${CLAUSE_MARK} `)
+    .replace(/[^\p{L}\p{M}\p{N}'| ]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Whether the words from start up to (not including) end are negated by a
+// negation in the same clause, no more than window words away
+const isNegated = (
+  tokens: string[],
+  start: number,
+  end: number,
+  lexicon: VoiceLexicon,
+  window = tokens.length
+): boolean => {
+  const breaks = [CLAUSE_MARK, ...(lexicon.clauseBreaks || [])];
+  let clauseStart = start;
+  while (clauseStart > 0 && start - clauseStart < window && !breaks.includes(tokens[clauseStart - 1])) {
+    clauseStart--;
+  }
+  let clauseEnd = end;
+  while (
+    lexicon.negationFollows &&
+    clauseEnd < tokens.length &&
+    clauseEnd - end < window &&
+    !breaks.includes(tokens[clauseEnd])
+  ) {
+    clauseEnd++;
+  }
+
+  return [...tokens.slice(clauseStart, start), ...tokens.slice(end, clauseEnd)]
+    .some(token => lexicon.negations.includes(token));
+};
+
+// Each phrase word's similarity to the words starting at start, or null if
+// any of them is too far off
+const matchPhraseAt = (tokens: string[], phrase: string[], start: number): number[] | null => {
+  const scores: number[] = [];
+  for (let offset = 0; offset < phrase.length; offset++) {
+    const score = wordSimilarity(tokens[start + offset], phrase[offset]);
+    if (score < MIN_WORD_SIMILARITY) {
+      return null;
+    }
+    scores.push(score);
+  }
+  return scores;
+};
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+// The closest place the phrase appears without being negated
+const findPhrase = (
+  tokens: string[],
+  phrase: string[],
+  lexicon: VoiceLexicon
+): { start: number; scores: number[] } | null => {
+  let best: { start: number; scores: number[] } | null = null;
+
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    if (isNegated(tokens, start, start + phrase.length, lexicon)) continue;
+    const scores = matchPhraseAt(tokens, phrase, start);
+    if (scores && (!best || sum(scores) > sum(best.scores))) {
+      best = { start, scores };
+    }
+  }
+
+  return best;
+};
+
+const fillSlots = (
+  tokens: string[],
+  names: VoiceIntentSlotName[],
+  covered: Map<number, number>,
+  lexicon: VoiceLexicon
+): VoiceIntentSlots => {
+  const slots: VoiceIntentSlots = {};
+
+  names.forEach(name => {
+    const vocabulary = slotVocabulary(lexicon, name);
+    tokens.forEach((token, index) => {
+      const isSlotWord = Object.prototype.hasOwnProperty.call(vocabulary, token);
+      if (!isSlotWord || covered.has(index)) return;
+      if (isNegated(tokens, index, index + 1, lexicon, SLOT_NEGATION_WINDOW)) return;
+      // The first value heard wins; later words for the same slot still
+      // count as understood
+      if (slots[name] === undefined) {
+        (slots as Record<string, string>)[name] = vocabulary[token];
+      }
+      covered.set(index, 1);
+    });
+  });
+
+  return slots;
+};
+
+interface RuleMatch {
+  confidence: number;
+  slots: VoiceIntentSlots;
+  // How many words the phrase and slots account for, which decides between
+  // equally confident matches
+  specificity: number;
+}
+
+// How well one rule explains the utterance, or null if none of its phrases
+// appear. Each word counts by how closely it was heard, and the best-scoring
+// phrase is used, so "end call" beats "call"
+export const matchRule = (
+  tokens: string[],
+  rule: IntentRule,
+  lexicon: VoiceLexicon = ENGLISH_LEXICON
+): RuleMatch | null => {
+  let best: { start: number; scores: number[] } | null = null;
+
+  for (const phrase of rule.phrases) {
+    const match = findPhrase(tokens, tokenize(phrase), lexicon);
+    if (match && (!best || sum(match.scores) > sum(best.scores))) {
+      best = match;
+    }
+  }
+
+  const wordCount = tokens.filter(token => token !== CLAUSE_MARK).length;
+  if (!best || wordCount === 0) {
+    return null;
+  }
+
+  const { start, scores } = best;
+  const covered = new Map<number, number>();
+  scores.forEach((score, offset) => covered.set(start + offset, score));
+
+  const slots = fillSlots(tokens, rule.slots || [], covered, lexicon);
+  const specificity = covered.size;
+  // A filler heard where a phrase word was expected ("and call" for "end
+  // call") still only counts as closely as it matched
+  tokens.forEach((token, index) => {
+    if (lexicon.fillers.includes(token) && !covered.has(index)) covered.set(index, 1);
+  });
+
+  // A match is no surer than its least clearly heard phrase word: fillers,
+  // slots and the other phrase words don't make up for it, so "kill it" for
+  // "call" and "hang app" for "hang up" are both asked about first
+  const weakestWord = Math.min(...scores);
+  return {
+    confidence: Math.min(sum(Array.from(covered.values())) / wordCount, weakestWord),
+    slots,
+    specificity,
+  };
+};
+
+// A transcript from the recogniser, with its own confidence when it gives one
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence?: number;
+}
+
+const toAlternative = (alternative: string | RecognitionAlternative): RecognitionAlternative =>
+  typeof alternative === 'string' ? { transcript: alternative } : alternative;
+
+// Every intent any alternative could mean, most likely first. Alternatives
+// are in the recogniser's order, most likely first; without a confidence of
+// its own, each one's rank stands in for it
+export const rankIntents = (
+  alternatives: Array<string | RecognitionAlternative>,
+  rules: IntentRule[] = VOICE_GRAMMAR,
+  lexicon: VoiceLexicon = ENGLISH_LEXICON
+): VoiceIntent[] => {
+  const candidates: Array<{ intent: VoiceIntent; specificity: number }> = [];
+
+  alternatives.map(toAlternative).forEach(({ transcript, confidence }, rank) => {
+    const heard = confidence ?? Math.max(0, 1 - rank * ALTERNATIVE_PENALTY);
+    const tokens = tokenize(transcript);
+
+    rules.forEach(rule => {
+      const match = matchRule(tokens, rule, lexicon);
+      if (!match) return;
+
+      candidates.push({
+        intent: {
+          name: rule.intent,
+          slots: match.slots,
+          confidence: match.confidence * heard,
+          transcript,
+        },
+        specificity: match.specificity,
+      });
+    });
+  });
+
+  // Stable sort keeps grammar order between otherwise equal intents
+  return candidates
+    .sort((a, b) => b.intent.confidence - a.intent.confidence || b.specificity - a.specificity)
+    .map(candidate => candidate.intent);
+};
+
+// The intent the user most likely meant, or null if nothing was clear enough
+export const parseIntent = (
+  alternatives: Array<string | RecognitionAlternative>,
+  rules: IntentRule[] = VOICE_GRAMMAR,
+  lexicon: VoiceLexicon = ENGLISH_LEXICON
+): VoiceIntent | null => {
+  const [best] = rankIntents(alternatives, rules, lexicon);
+  return best && best.confidence >= MIN_INTENT_CONFIDENCE ? best : null;
+};
+
+// Likely enough to be worth asking about, but not to act on unasked
+export const needsConfirmation = (intent: VoiceIntent): boolean =>
+  intent.confidence < CONFIRMED_INTENT_CONFIDENCE;
+
+const containsPhrase = (tokens: string[], phrase: string): boolean => {
+  const words = tokenize(phrase);
+  return tokens.some((_, start) => words.every((word, offset) => tokens[start + offset] === word));
+};
+
+// The answer to a "Did you mean ...?" question: true for yes, false for no,
+// or null if the reply was neither
+export const parseConfirmation = (
+  alternatives: Array<string | RecognitionAlternative>,
+  lexicon: VoiceLexicon = ENGLISH_LEXICON
+): boolean | null => {
+  for (const { transcript } of alternatives.map(toAlternative)) {
+    const tokens = tokenize(transcript);
+    const yes = lexicon.yes.some(phrase => containsPhrase(tokens, phrase));
+    const no = lexicon.no.some(phrase => containsPhrase(tokens, phrase));
+    if (yes !== no) {
+      return yes;
+    }
+  }
+  return null;
+};
+
+// The phrase to suggest for an intent, e.g. in the spoken command list
+export const getExamplePhrase = (intent: VoiceIntentName, grammar: IntentRule[] = VOICE_GRAMMAR): string =>
+  grammar.find(rule => rule.intent === intent)?.phrases[0] || intent;
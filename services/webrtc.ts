@@ -1,4 +1,41 @@
+import { Audio } from 'expo-av';
 import { apiService } from './api';
+import {
+  CallStatsSample,
+  combineStatsSamples,
+  PacketCounters,
+  parseStatsReport,
+  summarizeCallQuality,
+} from './callQuality';
+import { BandwidthAdapter, MediaQualityMode, VIDEO_ENCODINGS } from './bandwidthAdaptation';
+import { captureStill } from './frameCapture';
+import { CallDataChannel, ControlPayload, DataMessageEnvelope, DataMessageKind } from './dataChannel';
+import {
+  applyCameraControl,
+  CameraCapabilities,
+  CameraControlRequest,
+  CameraState,
+  getCameraCapabilities,
+  getCameraState,
+  NO_CAMERA_CAPABILITIES,
+} from './cameraControl';
+import { Snapshot, snapshotStore } from './snapshots';
+import { DirectionCue, isDirectionCue } from './directionCues';
+import { Annotation, isAnnotation } from './annotations';
+import { CameraFacing, findCameraDevice, getTrackFacing } from './cameraSelection';
+import { TypedEventEmitter, Unsubscribe } from './eventEmitter';
+import {
+  ClientMessageData,
+  ClientMessageType,
+  createMessage,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  ServerMessageData,
+  SignalingParticipant,
+  SignalingUserType,
+  SIGNALING_ERROR_CODES,
+  validateServerMessage,
+} from '../shared/signaling';
 import { io, Socket } from 'socket.io-client';
 
 export interface WebRTCMessage {
@@ -29,27 +66,540 @@ export interface ICEServers {
   connectionTimeout?: number;
 }
 
-class WebRTCService {
+export interface SignalingTransportEvents {
+  // Fired once the server has acknowledged the connection; isReconnect is
+  // true when the transport re-established a dropped socket on its own
+  onOpen: (isReconnect: boolean) => void;
+  onMessage: (message: WebRTCMessage) => void;
+  onReconnecting: (attempt: number) => void;
+  // Fired when the connection is gone for good (closed or retries exhausted)
+  onClose: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface SignalingTransport {
+  readonly isOpen: boolean;
+  connect(
+    url: string,
+    getAccessToken: () => Promise<string | null>,
+    events: SignalingTransportEvents
+  ): Promise<void>;
+  send(message: WebRTCMessage): void;
+  disconnect(): void;
+}
+
+export interface ReconnectOptions {
+  maxReconnectAttempts?: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface WebSocketTransportOptions extends ReconnectOptions {
+  heartbeatIntervalMs?: number;
+  heartbeatTimeoutMs?: number;
+}
+
+// Exponential backoff with jitter so clients don't reconnect in lockstep
+const getBackoffDelay = (attempt: number, initialMs: number, maxMs: number): number => {
+  const delay = Math.min(maxMs, initialMs * Math.pow(2, attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Plain JSON-over-WebSocket transport matching the backend's /api/webrtc/ws route
+class WebSocketSignalingTransport implements SignalingTransport {
+  private ws: WebSocket | null = null;
+  private events: SignalingTransportEvents | null = null;
+  private url: string = '';
+  private getAccessToken: () => Promise<string | null> = async () => null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt: number = 0;
+  private manuallyClosed: boolean = false;
+  private open: boolean = false;
+  private options: Required<WebSocketTransportOptions>;
+
+  constructor(options: WebSocketTransportOptions = {}) {
+    this.options = {
+      heartbeatIntervalMs: 25000,
+      heartbeatTimeoutMs: 10000,
+      maxReconnectAttempts: 8,
+      initialBackoffMs: 1000,
+      maxBackoffMs: 30000,
+      ...options,
+    };
+  }
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  async connect(
+    url: string,
+    getAccessToken: () => Promise<string | null>,
+    events: SignalingTransportEvents
+  ): Promise<void> {
+    this.url = url;
+    this.getAccessToken = getAccessToken;
+    this.events = events;
+    this.manuallyClosed = false;
+    this.reconnectAttempt = 0;
+
+    await this.openSocket(false);
+  }
+
+  // Open a socket and resolve once the server's 'connected' welcome arrives,
+  // which is only sent after the access token has been verified
+  private async openSocket(isReconnect: boolean): Promise<void> {
+    const token = await this.getAccessToken().catch(() => null);
+    const separator = this.url.includes('?') ? '&' : '?';
+    const authenticatedURL = token
+      ? `${this.url}${separator}token=${encodeURIComponent(token)}`
+      : this.url;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const ws = new WebSocket(authenticatedURL);
+      this.ws = ws;
+
+      ws.onmessage = (event) => {
+        let message: WebRTCMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch (error) {
+          console.error('Invalid signaling frame:', event.data);
+          return;
+        }
+
+        // Any frame proves the connection is alive
+        this.clearHeartbeatTimeout();
+
+        if (message.type === 'pong') {
+          return;
+        }
+
+        if (message.type === 'connected' && !settled) {
+          settled = true;
+          this.open = true;
+          this.reconnectAttempt = 0;
+          this.startHeartbeat();
+          this.events?.onOpen(isReconnect);
+          resolve();
+          return;
+        }
+
+        this.events?.onMessage(message);
+      };
+
+      ws.onerror = () => {
+        // Failures before the welcome frame surface through onclose instead
+        if (settled) {
+          this.events?.onError(new Error('Signaling socket error'));
+        }
+      };
+
+      ws.onclose = (event) => {
+        const wasOpen = this.open;
+        this.open = false;
+        this.stopHeartbeat();
+
+        if (!settled) {
+          settled = true;
+          reject(new Error(event.reason || 'Signaling connection closed'));
+          if (!isReconnect) return;
+        }
+
+        if (this.manuallyClosed || this.ws !== ws) {
+          return;
+        }
+
+        if (wasOpen || isReconnect) {
+          this.scheduleReconnect();
+        }
+      };
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= this.options.maxReconnectAttempts) {
+      console.warn('Signaling reconnection attempts exhausted');
+      this.events?.onClose();
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const delay = getBackoffDelay(
+      this.reconnectAttempt,
+      this.options.initialBackoffMs,
+      this.options.maxBackoffMs
+    );
+
+    console.log(`Reconnecting to signaling server in ${Math.round(delay)}ms (attempt ${this.reconnectAttempt})`);
+    this.events?.onReconnecting(this.reconnectAttempt);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket(true).catch(error => {
+        console.warn('Signaling reconnect failed:', error.message);
+      });
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.open) return;
+
+      this.send({ type: 'ping', data: {}, timestamp: Date.now() });
+
+      // A half-open socket never reports close, so force it after a missed pong
+      if (!this.heartbeatTimeout) {
+        this.heartbeatTimeout = setTimeout(() => {
+          console.warn('Signaling heartbeat timed out');
+          this.heartbeatTimeout = null;
+          this.ws?.close();
+        }, this.options.heartbeatTimeoutMs);
+      }
+    }, this.options.heartbeatIntervalMs);
+  }
+
+  private clearHeartbeatTimeout(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearHeartbeatTimeout();
+  }
+
+  send(message: WebRTCMessage): void {
+    if (!this.ws || !this.open) {
+      throw new Error('Not connected to signaling server');
+    }
+
+    this.ws.send(JSON.stringify(message));
+  }
+
+  disconnect(): void {
+    this.manuallyClosed = true;
+    this.open = false;
+    this.stopHeartbeat();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+}
+
+// socket.io transport for deployments fronted by a socket.io signaling server
+class SocketIOSignalingTransport implements SignalingTransport {
   private socket: Socket | null = null;
-  private localPeerConnection: RTCPeerConnection | null = null;
+  private options: Required<ReconnectOptions>;
+
+  constructor(options: ReconnectOptions = {}) {
+    this.options = {
+      maxReconnectAttempts: 8,
+      initialBackoffMs: 1000,
+      maxBackoffMs: 30000,
+      ...options,
+    };
+  }
+
+  get isOpen(): boolean {
+    return !!this.socket?.connected;
+  }
+
+  async connect(
+    url: string,
+    getAccessToken: () => Promise<string | null>,
+    events: SignalingTransportEvents
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      this.socket = io(url, {
+        transports: ['websocket'],
+        upgrade: false,
+        // Called on every (re)connect so a refreshed token is picked up
+        auth: (callback) => {
+          getAccessToken().then(token => callback({ token }));
+        },
+        reconnectionAttempts: this.options.maxReconnectAttempts,
+        reconnectionDelay: this.options.initialBackoffMs,
+        reconnectionDelayMax: this.options.maxBackoffMs,
+      });
+
+      this.socket.on('connect', () => {
+        if (!settled) {
+          settled = true;
+          events.onOpen(false);
+          resolve();
+        }
+      });
+
+      this.socket.on('connect_error', (error) => {
+        if (!settled) {
+          settled = true;
+          reject(error);
+        }
+      });
+
+      this.socket.on('message', (message: WebRTCMessage) => {
+        events.onMessage(message);
+      });
+
+      this.socket.on('error', (error) => {
+        events.onError(error);
+      });
+
+      this.socket.io.on('reconnect_attempt', (attempt) => {
+        events.onReconnecting(attempt);
+      });
+
+      this.socket.io.on('reconnect', () => {
+        events.onOpen(true);
+      });
+
+      this.socket.io.on('reconnect_failed', () => {
+        events.onClose();
+      });
+    });
+  }
+
+  send(message: WebRTCMessage): void {
+    if (!this.socket || !this.socket.connected) {
+      throw new Error('Not connected to signaling server');
+    }
+
+    this.socket.emit('message', message);
+  }
+
+  disconnect(): void {
+    if (this.socket) {
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
+}
+
+export interface WebRTCServiceOptions {
+  // How long a dropped call may try to recover before it is ended
+  reconnectGracePeriodMs?: number;
+  // How often the initiator retries an ICE restart while recovering
+  iceRestartIntervalMs?: number;
+  // How often getStats() is sampled for call quality telemetry
+  statsIntervalMs?: number;
+  // How often a still frame is sent while video is suspended
+  stillIntervalMs?: number;
+}
+
+// The parts of apiService a call needs
+export interface WebRTCApi {
+  getICEServers(): Promise<{ data: { iceServers: RTCIceServer[] } }>;
+  getWebSocketURL(): string;
+  getAccessToken(): Promise<string | null>;
+  endCall(callId: string, rating: number | null, feedbackText: string | null, endReason?: string): Promise<unknown>;
+  endMatchingCall(roomId: string, endReason?: string): Promise<unknown>;
+  leaveMatchingCall(roomId: string): Promise<unknown>;
+  submitCallQualityReport(callId: string, report: object): Promise<unknown>;
+}
+
+export interface MediaDevicesProvider {
+  getUserMedia(constraints: MediaStreamConstraints): Promise<MediaStream>;
+  enumerateDevices(): Promise<MediaDeviceInfo[]>;
+  // Missing where the platform can't capture the screen
+  getDisplayMedia?(): Promise<MediaStream>;
+}
+
+// Platform dependencies, replaceable for tests (see services/testing).
+// Defaults are resolved lazily because react-native-webrtc only installs its
+// globals after this module has been imported
+export interface WebRTCServiceDependencies {
+  api?: WebRTCApi;
+  mediaDevices?: MediaDevicesProvider;
+  createPeerConnection?: (configuration: RTCConfiguration) => RTCPeerConnection;
+}
+
+export interface SnapshotProgress {
+  direction: 'sending' | 'receiving';
+  completed: number;
+  total: number;
+}
+
+// A remote participant as the call screen sees them
+export interface CallParticipant {
+  userId: string;
+  userType: SignalingUserType | null;
+  stream: MediaStream | null;
+  isConnected: boolean;
+}
+
+export type WebRTCErrorCode =
+  | 'signaling_error'
+  | 'server_error'
+  | 'media_unavailable'
+  | 'negotiation_failed'
+  | 'connection_lost'
+  // The server and this app don't speak a compatible signaling protocol
+  | 'protocol_error'
+  // The room already has MAX_ROOM_PARTICIPANTS people in it
+  | 'room_full';
+
+class WebRTCServiceError extends Error {
+  code: WebRTCErrorCode;
+
+  constructor(code: WebRTCErrorCode, message: string) {
+    super(message);
+    this.name = 'WebRTCServiceError';
+    this.code = code;
+  }
+}
+
+export interface WebRTCServiceEvents {
+  // Media with a participant is flowing (again)
+  connected: (userId: string) => void;
+  // The call is over: recovery gave up or signaling closed for good
+  disconnected: () => void;
+  reconnecting: (userId: string) => void;
+  remoteStream: (stream: MediaStream, userId: string) => void;
+  stats: (sample: CallStatsSample) => void;
+  // Every non-ack message received on a participant's data channel
+  dataMessage: (envelope: DataMessageEnvelope, fromUserId: string) => void;
+  roomStatus: (status: string) => void;
+  peerJoined: (userId: string) => void;
+  // A participant left or could not be reconnected; the call may go on
+  peerLeft: (userId: string) => void;
+  // Who is on the call, whenever someone joins, leaves or their media changes
+  participantsChange: (participants: CallParticipant[]) => void;
+  // A volunteer handed the call over to another (warm transfer) and is leaving
+  callHandover: (fromUserId: string, toUserId: string, callId: string | null) => void;
+  error: (error: WebRTCServiceError) => void;
+  mediaModeChange: (mode: MediaQualityMode) => void;
+  remoteMediaModeChange: (mode: MediaQualityMode, fromUserId: string) => void;
+  remoteStill: (imageUri: string, fromUserId: string) => void;
+  remoteCameraCapabilities: (capabilities: CameraCapabilities) => void;
+  remoteCameraState: (state: CameraState) => void;
+  // Fired on the blind user's device when a volunteer changes the camera
+  cameraControl: (request: CameraControlRequest, applied: boolean) => void;
+  // Fired on the blind user's device when a volunteer asks for a photo
+  snapshotRequested: () => void;
+  snapshotProgress: (progress: SnapshotProgress) => void;
+  snapshotSent: (snapshot: Snapshot) => void;
+  snapshotReceived: (snapshot: Snapshot) => void;
+  snapshotFailed: (reason: string) => void;
+  // Fired on the blind user's device when a volunteer sends a direction cue
+  directionCue: (cue: DirectionCue, fromUserId: string) => void;
+  // A volunteer drew over the blind user's video
+  annotation: (annotation: Annotation, fromUserId: string) => void;
+  annotationsCleared: (fromUserId: string) => void;
+  // The frozen frame annotations are drawn on, or null when back to live video
+  annotationFrame: (imageUri: string | null) => void;
+  // This device started or stopped sending its screen instead of the camera
+  screenShareChange: (active: boolean) => void;
+  remoteScreenShareChange: (active: boolean, fromUserId: string) => void;
+}
+
+// Calls are a full mesh: each remote participant has their own peer
+// connection, data channel and negotiation state
+interface PeerSession {
+  userId: string;
+  userType: SignalingUserType | null;
+  connection: RTCPeerConnection;
+  channel: CallDataChannel;
+  remoteStream: MediaStream | null;
+  // Perfect negotiation state (see setupPeerConnectionHandlers)
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  isConnected: boolean;
+  isRecovering: boolean;
+  recoveryTimer: ReturnType<typeof setTimeout> | null;
+  iceRestartTimer: ReturnType<typeof setInterval> | null;
+  packetCounters: PacketCounters | undefined;
+}
+
+const DATA_MESSAGE_KINDS: DataMessageKind[] = ['chat', 'control', 'file_chunk'];
+
+// Pre-negotiated with the same id on both peers, so no extra signaling is needed
+const DATA_CHANNEL_ID = 0;
+
+// Roughly an hour of samples at the default interval
+const MAX_STATS_SAMPLES = 720;
+
+class WebRTCService {
+  private transport: SignalingTransport;
+  private options: Required<WebRTCServiceOptions>;
+  private dependencies: WebRTCServiceDependencies;
+  private iceServers: RTCIceServer[] = [];
+  private peers: Map<string, PeerSession> = new Map();
+  // Who the signaling server says is in the room, connected or not
+  private roomParticipants: Map<string, SignalingUserType> = new Map();
   private localStream: MediaStream | null = null;
-  private remoteStream: MediaStream | null = null;
+  // Sent in place of the camera while the screen is shared
+  private screenStream: MediaStream | null = null;
   private currentRoomId: string | null = null;
+  // The backend's record of the call; the room id only names the signaling room
+  private currentCallId: string | null = null;
   private currentUserId: string | null = null;
   private currentUserType: 'blind' | 'volunteer' | null = null;
-  private iceCandidates: Array<RTCIceCandidate> = [];
-  private isInitiator: boolean = false;
+  // Candidates that arrived before the remote description, keyed by sender
+  private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
+  // Once in a call, this device offers to anyone who joins later
+  private isInCall: boolean = false;
   private isConnected: boolean = false;
+  private reconnectCount: number = 0;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private statsSamples: CallStatsSample[] = [];
+  private bandwidthAdapter: BandwidthAdapter = new BandwidthAdapter();
+  private stillTimer: ReturnType<typeof setInterval> | null = null;
+  private cameraCapabilities: CameraCapabilities = NO_CAMERA_CAPABILITIES;
+  private cameraFacing: CameraFacing = 'user';
+  private remoteAudioVolume: number = 1;
+
+  private events = new TypedEventEmitter<WebRTCServiceEvents>();
+
+  constructor(
+    transport: SignalingTransport = new WebSocketSignalingTransport(),
+    options: WebRTCServiceOptions = {},
+    dependencies: WebRTCServiceDependencies = {}
+  ) {
+    this.transport = transport;
+    this.dependencies = dependencies;
+    this.options = {
+      reconnectGracePeriodMs: 30000,
+      iceRestartIntervalMs: 5000,
+      statsIntervalMs: 5000,
+      stillIntervalMs: 4000,
+      ...options,
+    };
+  }
 
-  // Event callbacks
-  private onConnectedCallbacks: Array<() => void> = [];
-  private onDisconnectedCallbacks: Array<() => void> = [];
-  private onRemoteStreamCallbacks: Array<(stream: MediaStream) => void> = [];
-  private onErrorCallbacks: Array<(error: Error) => void> = [];
-  private onRoomStatusCallbacks: Array<(status: string) => void> = [];
+  private get api(): WebRTCApi {
+    return this.dependencies.api || apiService;
+  }
+
+  private get mediaDevices(): MediaDevicesProvider {
+    return this.dependencies.mediaDevices || navigator.mediaDevices;
+  }
 
-  constructor() {
-    this.setupEventHandlers();
+  private createPeerConnection(configuration: RTCConfiguration): RTCPeerConnection {
+    return this.dependencies.createPeerConnection
+      ? this.dependencies.createPeerConnection(configuration)
+      : new RTCPeerConnection(configuration);
   }
 
   // Initialize WebRTC connection
@@ -58,18 +608,12 @@ class WebRTCService {
       this.currentUserId = userId;
       this.currentUserType = userType;
 
-      // Get ICE servers
-      const iceConfig = await apiService.getICEServers();
-
-      // Create peer connection
-      this.localPeerConnection = new RTCPeerConnection({
-        iceServers: iceConfig.data.iceServers,
-      });
-
-      this.setupPeerConnectionHandlers();
+      // Get ICE servers; peer connections are created per participant
+      const iceConfig = await this.api.getICEServers();
+      this.iceServers = iceConfig.data.iceServers;
 
-      // Get local media stream
-      await this.getLocalMediaStream();
+      // Blind users point the camera at what they need help with
+      await this.getLocalMediaStream(userType === 'blind' ? 'environment' : 'user');
 
       // Connect to WebSocket server
       await this.connectToSignalingServer();
@@ -82,8 +626,9 @@ class WebRTCService {
   }
 
   // Get local media stream
-  private async getLocalMediaStream(): Promise<void> {
+  private async getLocalMediaStream(facing: CameraFacing): Promise<void> {
     try {
+      const deviceId = await findCameraDevice(this.mediaDevices, facing);
       const constraints = {
         audio: {
           echoCancellation: true,
@@ -93,123 +638,245 @@ class WebRTCService {
         video: {
           width: { ideal: 1280 },
           height: { ideal: 720 },
-          facingMode: 'user',
+          facingMode: facing,
+          ...(deviceId ? { deviceId } : {}),
         },
       };
 
-      this.localStream = await navigator.mediaDevices.getUserMedia(constraints);
+      this.localStream = await this.mediaDevices.getUserMedia(constraints);
 
-      // Add tracks to peer connection
-      if (this.localPeerConnection && this.localStream) {
-        this.localStream.getTracks().forEach(track => {
-          this.localPeerConnection!.addTrack(track, this.localStream!);
-        });
-      }
+      const videoTrack = this.localStream.getVideoTracks()[0];
+      this.cameraFacing = getTrackFacing(videoTrack, facing);
+      this.cameraCapabilities = getCameraCapabilities(videoTrack);
 
       console.log('Local media stream obtained');
     } catch (error) {
       console.error('Failed to get local media stream:', error);
-      throw error;
+      const mediaError = new WebRTCServiceError(
+        'media_unavailable',
+        error instanceof Error ? error.message : 'Camera or microphone is unavailable'
+      );
+      this.events.emit('error', mediaError);
+      throw mediaError;
     }
   }
 
   // Connect to signaling server
   private async connectToSignalingServer(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const wsURL = apiService.getWebSocketURL();
-
-      this.socket = io(wsURL, {
-        transports: ['websocket'],
-        upgrade: false,
-      });
+    const wsURL = this.api.getWebSocketURL();
 
-      this.socket.on('connect', () => {
-        console.log('Connected to WebRTC signaling server');
+    await this.transport.connect(wsURL, () => this.api.getAccessToken(), {
+      onOpen: (isReconnect) => {
+        console.log(isReconnect
+          ? 'Reconnected to WebRTC signaling server'
+          : 'Connected to WebRTC signaling server');
         this.isConnected = true;
-        resolve();
-      });
-
-      this.socket.on('connect_error', (error) => {
-        console.error('WebSocket connection error:', error);
-        reject(error);
-      });
 
-      this.socket.on('message', (message: WebRTCMessage) => {
+        if (isReconnect) {
+          this.handleSignalingReconnect();
+        }
+      },
+      onMessage: (message) => {
         this.handleSignalingMessage(message);
-      });
-
-      this.socket.on('error', (error) => {
-        console.error('WebSocket error:', error);
-        this.onErrorCallbacks.forEach(callback => callback(error));
-      });
-
-      this.socket.on('disconnect', () => {
+      },
+      onReconnecting: (attempt) => {
+        console.log('Signaling connection lost, reconnect attempt', attempt);
+        this.isConnected = false;
+      },
+      onClose: () => {
         console.log('Disconnected from WebRTC signaling server');
         this.isConnected = false;
-        this.onDisconnectedCallbacks.forEach(callback => callback());
-      });
+        this.events.emit('disconnected');
+      },
+      onError: (error) => {
+        console.error('WebSocket error:', error);
+        this.events.emit('error', new WebRTCServiceError('signaling_error', error.message));
+      },
     });
   }
 
+  // The blind user's device is never polite, so it wins offer collisions
+  // with helpers; between two helpers the user ids decide
+  private isPoliteTowards(userId: string, userType: SignalingUserType | null): boolean {
+    if (this.currentUserType === 'blind') return false;
+    if (userType === 'blind') return true;
+    return (this.currentUserId || '') > userId;
+  }
+
+  // Create the peer connection and data channel for a remote participant
+  private createPeerSession(userId: string): PeerSession {
+    const userType = this.roomParticipants.get(userId) || null;
+    const session: PeerSession = {
+      userId,
+      userType,
+      connection: this.createPeerConnection({ iceServers: this.iceServers }),
+      channel: new CallDataChannel(),
+      remoteStream: null,
+      polite: this.isPoliteTowards(userId, userType),
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      isConnected: false,
+      isRecovering: false,
+      recoveryTimer: null,
+      iceRestartTimer: null,
+      packetCounters: undefined,
+    };
+    this.peers.set(userId, session);
+
+    if (this.localStream) {
+      // Someone joining mid-share gets the screen straight away
+      const screenTrack = this.screenStream?.getVideoTracks()[0];
+      this.localStream.getTracks().forEach(track => {
+        session.connection.addTrack(
+          screenTrack && track.kind === 'video' ? screenTrack : track,
+          this.localStream!
+        );
+      });
+    }
+
+    this.setupPeerConnectionHandlers(session);
+    this.setupChannelHandlers(session);
+    this.setupDataChannel(session);
+    this.emitParticipants();
+
+    return session;
+  }
+
+  private closePeerSession(userId: string): void {
+    const session = this.peers.get(userId);
+    if (!session) return;
+
+    this.peers.delete(userId);
+    this.stopRecovery(session);
+    session.channel.reset();
+    session.connection.close();
+    this.pendingCandidates.delete(userId);
+    this.emitParticipants();
+  }
+
   // Setup peer connection event handlers
-  private setupPeerConnectionHandlers(): void {
-    if (!this.localPeerConnection) return;
+  private setupPeerConnectionHandlers(session: PeerSession): void {
+    const { connection, userId } = session;
 
     // Handle ICE candidates
-    this.localPeerConnection.onicecandidate = (event) => {
-      if (event.candidate) {
+    connection.onicecandidate = (event) => {
+      if (event.candidate && this.roomParticipants.has(userId)) {
         this.sendSignalingMessage('ice_candidate', {
           candidate: event.candidate,
+          targetUserId: userId,
+        }).catch(error => {
+          console.error('Failed to send ICE candidate:', error);
         });
       }
     };
 
+    // Renegotiation (e.g. a data channel added mid-call) can start on either
+    // side. Collisions are resolved by the "perfect negotiation" pattern: the
+    // polite peer rolls back its own offer, the impolite one ignores theirs
+    connection.onnegotiationneeded = () => {
+      // The first offer is sent explicitly (startCall, or to a latecomer)
+      if (!connection.remoteDescription) return;
+
+      this.sendOffer(session).catch(error => {
+        console.error('Renegotiation failed:', error);
+        this.events.emit('error', new WebRTCServiceError('negotiation_failed', error.message));
+      });
+    };
+
     // Handle connection state changes
-    this.localPeerConnection.onconnectionstatechange = () => {
-      const state = this.localPeerConnection!.connectionState;
-      console.log('Connection state:', state);
+    connection.onconnectionstatechange = () => {
+      if (this.peers.get(userId) !== session) return;
+
+      const state = connection.connectionState;
+      console.log('Connection state:', userId, state);
 
       switch (state) {
         case 'connected':
-          this.onConnectedCallbacks.forEach(callback => callback());
+          this.stopRecovery(session);
+          session.isConnected = true;
+          this.startStatsSampling();
+          if (this.screenStream) {
+            this.sendControl('screen_share', { active: true }, userId);
+          }
+          if (this.currentUserType === 'blind') {
+            this.sendCameraCapabilities(userId);
+          }
+          this.emitParticipants();
+          this.events.emit('connected', userId);
           break;
         case 'disconnected':
         case 'failed':
-          this.onDisconnectedCallbacks.forEach(callback => callback());
+          this.beginRecovery(session);
           break;
       }
     };
 
     // Handle remote streams
-    this.localPeerConnection.ontrack = (event) => {
+    connection.ontrack = (event) => {
       if (event.streams && event.streams[0]) {
-        this.remoteStream = event.streams[0];
-        this.onRemoteStreamCallbacks.forEach(callback => callback(this.remoteStream!));
-        console.log('Remote stream received');
+        session.remoteStream = event.streams[0];
+        if (this.remoteAudioVolume !== 1) {
+          this.applyRemoteAudioVolume(session.remoteStream!);
+        }
+        this.events.emit('remoteStream', session.remoteStream!, userId);
+        this.emitParticipants();
+        console.log('Remote stream received from', userId);
       }
     };
   }
 
-  // Join room
-  async joinRoom(roomId: string): Promise<void> {
+  private setupChannelHandlers(session: PeerSession): void {
+    const { channel, userId } = session;
+
+    channel.subscribe('control', (payload) => {
+      this.handleControlMessage(payload, userId);
+    });
+
+    DATA_MESSAGE_KINDS.forEach(kind => {
+      channel.subscribe(kind, (payload, envelope) => {
+        this.events.emit('dataMessage', envelope, userId);
+      });
+    });
+
+    channel.onFile(file => {
+      if (file.purpose === 'still') {
+        const imageUri = `data:${file.mimeType};base64,${file.data}`;
+        this.events.emit('remoteStill', imageUri, userId);
+      } else if (file.purpose === 'annotation_frame') {
+        this.events.emit('annotationFrame', `data:${file.mimeType};base64,${file.data}`);
+      } else if (file.purpose === 'snapshot') {
+        const snapshot = snapshotStore.add(file.transferId, file.data, file.mimeType);
+        this.events.emit('snapshotReceived', snapshot);
+      }
+    });
+
+    channel.onFileProgress(({ purpose, received, total }) => {
+      if (purpose === 'snapshot') {
+        this.events.emit('snapshotProgress', { direction: 'receiving', completed: received, total });
+      }
+    });
+  }
+
+  // Join room. The call id is what the end of the call and the quality
+  // report are filed under; rejoining keeps the one already known
+  async joinRoom(roomId: string, callId: string | null = this.currentCallId): Promise<void> {
     if (!this.isConnected || !this.currentUserId || !this.currentUserType) {
       throw new Error('WebRTC not initialized');
     }
 
     try {
-      // Get room info first
-      const roomInfo = await apiService.getRoomInfo(roomId);
-      if (!roomInfo.data) {
-        throw new Error('Room not found');
-      }
-
+      // The signaling server creates the room on first join, so there is no
+      // room to look up yet for whoever arrives first (or rejoins after a drop)
       this.currentRoomId = roomId;
+      this.currentCallId = callId;
 
       // Send join room message
       await this.sendSignalingMessage('join_room', {
         roomId,
         userId: this.currentUserId,
         userType: this.currentUserType,
+        protocolVersion: PROTOCOL_VERSION,
       });
 
       console.log('Joined room:', roomId);
@@ -219,144 +886,817 @@ class WebRTCService {
     }
   }
 
-  // Handle signaling messages
-  private async handleSignalingMessage(message: WebRTCMessage): Promise<void> {
-    const { type, data } = message;
+  // A participant's connection dropped (network change, Wi-Fi to cellular,
+  // ...). Keep them on the call for a grace window while ICE is restarted
+  private beginRecovery(session: PeerSession): void {
+    if (session.isRecovering || this.peers.get(session.userId) !== session) return;
+
+    session.isRecovering = true;
+    session.isConnected = false;
+    this.reconnectCount++;
+    console.log('Peer connection lost, attempting recovery:', session.userId);
+    this.emitParticipants();
+    this.events.emit('reconnecting', session.userId);
+
+    session.recoveryTimer = setTimeout(() => {
+      session.recoveryTimer = null;
+      console.warn('Call could not be recovered within the grace period:', session.userId);
+      this.handlePeerLost(session);
+    }, this.options.reconnectGracePeriodMs);
+
+    // Only the impolite side offers, so both don't restart ICE at once.
+    // Offers are retried because one may be lost while signaling is down
+    if (!session.polite) {
+      this.restartIce(session);
+      session.iceRestartTimer = setInterval(() => {
+        this.restartIce(session);
+      }, this.options.iceRestartIntervalMs);
+    }
+  }
+
+  private stopRecovery(session: PeerSession): void {
+    if (session.recoveryTimer) {
+      clearTimeout(session.recoveryTimer);
+      session.recoveryTimer = null;
+    }
+
+    if (session.iceRestartTimer) {
+      clearInterval(session.iceRestartTimer);
+      session.iceRestartTimer = null;
+    }
+
+    if (session.isRecovering) {
+      console.log('Call recovered:', session.userId);
+    }
+    session.isRecovering = false;
+  }
+
+  // Recovery gave up on a participant. The call only goes on while the blind
+  // user and at least one helper are still on it
+  private handlePeerLost(session: PeerSession): void {
+    this.closePeerSession(session.userId);
+    this.events.emit('peerLeft', session.userId);
+
+    const remaining = Array.from(this.peers.values());
+    const callCanContinue = remaining.length > 0 &&
+      (this.currentUserType === 'blind' || remaining.some(peer => peer.userType === 'blind'));
+    if (callCanContinue) return;
+
+    this.events.emit('error', new WebRTCServiceError(
+      'connection_lost',
+      'The call could not be recovered within the grace period'
+    ));
+    this.events.emit('disconnected');
+    this.endCall('connection_lost');
+  }
+
+  // Send a fresh offer with new ICE credentials to the same peer
+  private async restartIce(session: PeerSession): Promise<void> {
+    if (!this.roomParticipants.has(session.userId) || !this.transport.isOpen) {
+      // Retried by the interval, or once signaling is back
+      return;
+    }
+
+    try {
+      await this.sendOffer(session, { iceRestart: true });
+      console.log('ICE restart offer sent to', session.userId);
+    } catch (error) {
+      console.error('ICE restart failed:', error);
+    }
+  }
+
+  // The server forgets room membership when a socket drops, so rejoin and,
+  // if media is also down, push new offers over the fresh socket
+  private async handleSignalingReconnect(): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    try {
+      await this.joinRoom(this.currentRoomId);
+
+      for (const session of this.peers.values()) {
+        if (session.isRecovering && !session.polite) {
+          await this.restartIce(session);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to rejoin room after reconnect:', error);
+    }
+  }
+
+  // Sample getStats() periodically for the call quality report
+  private startStatsSampling(): void {
+    if (this.statsTimer) return;
+
+    this.statsTimer = setInterval(() => {
+      this.sampleStats();
+    }, this.options.statsIntervalMs);
+  }
+
+  private stopStatsSampling(): void {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  private async sampleStats(): Promise<void> {
+    const sessions = Array.from(this.peers.values()).filter(session => session.isConnected);
+    if (sessions.length === 0) return;
+
+    try {
+      const samples = await Promise.all(sessions.map(async session => {
+        const report = await session.connection.getStats();
+        const { sample, counters } = parseStatsReport(report, session.packetCounters);
+        session.packetCounters = counters;
+        return sample;
+      }));
+      const sample = combineStatsSamples(samples);
+
+      this.statsSamples.push(sample);
+      if (this.statsSamples.length > MAX_STATS_SAMPLES) {
+        this.statsSamples.shift();
+      }
+
+      this.events.emit('stats', sample);
+
+      const nextMode = this.bandwidthAdapter.update(sample);
+      if (nextMode) {
+        await this.applyMediaMode(nextMode);
+      }
+    } catch (error) {
+      console.warn('Failed to sample call stats:', error);
+    }
+  }
+
+  // Both peers create the channel up front; if it closes mid-call (e.g. the
+  // SCTP association is torn down during renegotiation) it is recreated and
+  // queued messages go out once the replacement opens
+  private setupDataChannel(session: PeerSession): void {
+    const { connection, userId } = session;
+
+    const channel = connection.createDataChannel('call', {
+      negotiated: true,
+      id: DATA_CHANNEL_ID,
+      ordered: true,
+    });
+
+    session.channel.attach(channel, () => {
+      if (this.peers.get(userId) === session && connection.connectionState !== 'closed') {
+        this.setupDataChannel(session);
+      }
+    });
+  }
+
+  // Send a control message to one participant, or to everyone on the call
+  private sendControl(command: string, params?: Record<string, any>, userId?: string): void {
+    const sessions = userId
+      ? [this.peers.get(userId)].filter((session): session is PeerSession => !!session)
+      : Array.from(this.peers.values());
+
+    sessions.forEach(session => {
+      session.channel.send('control', { command, params });
+    });
+  }
+
+  private handleControlMessage({ command, params }: ControlPayload, fromUserId: string): void {
+    switch (command) {
+      case 'media_mode':
+        if (params?.mode) {
+          this.events.emit('remoteMediaModeChange', params.mode, fromUserId);
+        }
+        break;
+
+      case 'camera_capabilities':
+        this.events.emit('remoteCameraCapabilities', params?.capabilities);
+        break;
+
+      case 'camera_state':
+        this.events.emit('remoteCameraState', params?.state);
+        break;
+
+      case 'snapshot_request':
+        if (this.currentUserType === 'blind') {
+          this.sendSnapshot(fromUserId);
+        }
+        break;
+
+      case 'snapshot_failed':
+        this.events.emit('snapshotFailed', params?.reason || 'unknown');
+        break;
+
+      case 'call_handover':
+        if (params?.toUserId) {
+          // The call goes on under the incoming volunteer's record
+          if (typeof params.callId === 'string') {
+            this.currentCallId = params.callId;
+          }
+          this.events.emit('callHandover', fromUserId, params.toUserId, params.callId || null);
+        }
+        break;
+
+      case 'direction_cue':
+        if (this.currentUserType === 'blind' && isDirectionCue(params?.cue)) {
+          this.events.emit('directionCue', params.cue, fromUserId);
+        }
+        break;
+
+      case 'annotation':
+        if (isAnnotation(params?.annotation)) {
+          this.events.emit('annotation', params.annotation, fromUserId);
+        }
+        break;
+
+      case 'annotations_clear':
+        this.events.emit('annotationsCleared', fromUserId);
+        break;
+
+      case 'annotation_freeze':
+        if (this.currentUserType === 'blind') {
+          this.sendAnnotationFrame();
+        }
+        break;
+
+      case 'annotation_resume':
+        this.events.emit('annotationFrame', null);
+        break;
+
+      case 'screen_share':
+        this.events.emit('remoteScreenShareChange', params?.active === true, fromUserId);
+        break;
+
+      case 'camera_control':
+        // Only the blind user's camera can be driven remotely
+        if (this.currentUserType === 'blind' && params?.request) {
+          this.handleCameraControl(params.request);
+        }
+        break;
+    }
+  }
+
+  // Tell volunteers which camera controls this device supports
+  private sendCameraCapabilities(userId?: string): void {
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    this.sendControl('camera_capabilities', { capabilities: this.cameraCapabilities }, userId);
+    this.sendControl('camera_state', { state: getCameraState(videoTrack) }, userId);
+  }
+
+  private async handleCameraControl(request: CameraControlRequest): Promise<void> {
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    let applied = false;
+
+    if (videoTrack) {
+      try {
+        await applyCameraControl(videoTrack, request, this.cameraCapabilities);
+        applied = true;
+      } catch (error) {
+        console.warn('Failed to apply camera control:', error);
+      }
+    }
+
+    // Every helper on the call sees the new camera state
+    this.sendControl('camera_state', { state: getCameraState(videoTrack) });
+    this.events.emit('cameraControl', request, applied);
+  }
+
+  // Ask the blind user's device to change its camera (volunteer side)
+  requestCameraControl(request: CameraControlRequest): void {
+    const blindPeer = this.blindPeer;
+    if (blindPeer) {
+      this.sendControl('camera_control', { request }, blindPeer.userId);
+    }
+  }
+
+  // Guide the blind user's camera with a vibration cue (volunteer side)
+  sendDirectionCue(cue: DirectionCue): void {
+    const blindPeer = this.blindPeer;
+    if (blindPeer) {
+      this.sendControl('direction_cue', { cue }, blindPeer.userId);
+    }
+  }
+
+  // Draw over the blind user's video for everyone on the call (volunteer side)
+  sendAnnotation(annotation: Annotation): void {
+    this.sendControl('annotation', { annotation });
+  }
+
+  clearAnnotations(): void {
+    this.sendControl('annotations_clear');
+  }
+
+  // Hold the blind user's camera on one frame so annotations stay on what
+  // they point at (volunteer side)
+  freezeAnnotationFrame(): void {
+    const blindPeer = this.blindPeer;
+    if (blindPeer) {
+      this.sendControl('annotation_freeze', undefined, blindPeer.userId);
+    }
+  }
+
+  resumeAnnotationFrame(): void {
+    this.sendControl('annotation_resume');
+    this.events.emit('annotationFrame', null);
+  }
+
+  // Ask the blind user's device for a full-resolution photo (volunteer side)
+  requestSnapshot(): void {
+    const blindPeer = this.blindPeer;
+    if (blindPeer) {
+      this.sendControl('snapshot_request', undefined, blindPeer.userId);
+    }
+  }
+
+  // Capture at the camera's full resolution; small print needs every pixel.
+  // Only the volunteer who asked receives the photo
+  private async sendSnapshot(toUserId: string): Promise<void> {
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    const session = this.peers.get(toUserId);
+    this.events.emit('snapshotRequested');
+
+    try {
+      if (!videoTrack) {
+        throw new Error('Camera is not available');
+      }
+      if (!session) {
+        throw new Error('The volunteer has left the call');
+      }
+
+      const data = await captureStill(videoTrack, { quality: 0.95 });
+      const transferId = await session.channel.sendFile(data, 'snapshot', 'image/jpeg', (sent, total) => {
+        this.events.emit('snapshotProgress', { direction: 'sending', completed: sent, total });
+      });
+
+      const snapshot = snapshotStore.add(transferId, data, 'image/jpeg');
+      this.events.emit('snapshotSent', snapshot);
+    } catch (error) {
+      console.warn('Failed to send snapshot:', error);
+      const reason = error instanceof Error ? error.message : 'Snapshot failed';
+      this.sendControl('snapshot_failed', { reason }, toUserId);
+      this.events.emit('snapshotFailed', reason);
+    }
+  }
+
+  // Scale or suspend outgoing video to what the connections can carry
+  private async applyMediaMode(mode: MediaQualityMode): Promise<void> {
+    for (const session of this.peers.values()) {
+      const sender = session.connection.getSenders()
+        .find(candidate => candidate.track?.kind === 'video');
+      if (!sender) continue;
+
+      try {
+        const parameters = sender.getParameters();
+        if (!parameters.encodings || parameters.encodings.length === 0) {
+          parameters.encodings = [{}];
+        }
+        parameters.encodings[0] = { ...parameters.encodings[0], ...VIDEO_ENCODINGS[mode] };
+        await sender.setParameters(parameters);
+      } catch (error) {
+        console.error('Failed to apply video encoding:', error);
+      }
+    }
+
+    console.log('Media mode changed to', mode);
+    this.sendControl('media_mode', { mode });
+
+    // Only the blind user's camera is worth reading from stills
+    if (mode === 'audio_only' && this.currentUserType === 'blind') {
+      this.startStills();
+    } else {
+      this.stopStills();
+    }
+
+    this.events.emit('mediaModeChange', mode);
+  }
+
+  private startStills(): void {
+    if (this.stillTimer) return;
+
+    this.sendStill();
+    this.stillTimer = setInterval(() => {
+      this.sendStill();
+    }, this.options.stillIntervalMs);
+  }
+
+  private stopStills(): void {
+    if (this.stillTimer) {
+      clearInterval(this.stillTimer);
+      this.stillTimer = null;
+    }
+  }
+
+  // Capture a high-quality JPEG from the camera and send it to every helper
+  private async sendStill(): Promise<void> {
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    const sessions = Array.from(this.peers.values()).filter(session => session.channel.isOpen);
+    if (!videoTrack || sessions.length === 0) {
+      return;
+    }
+
+    try {
+      const data = await captureStill(videoTrack, { quality: 0.85, maxDimension: 1920 });
+      await Promise.all(sessions.map(session => session.channel.sendFile(data, 'still', 'image/jpeg')));
+    } catch (error) {
+      console.warn('Failed to send still frame:', error);
+    }
+  }
+
+  // Capture the frame to annotate and share it with every helper, so everyone
+  // sees the same picture
+  private async sendAnnotationFrame(): Promise<void> {
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    if (!videoTrack) {
+      return;
+    }
+
+    try {
+      const data = await captureStill(videoTrack, { quality: 0.85, maxDimension: 1280 });
+      const sessions = Array.from(this.peers.values()).filter(session => session.channel.isOpen);
+      await Promise.all(sessions.map(session => session.channel.sendFile(data, 'annotation_frame', 'image/jpeg')));
+      this.events.emit('annotationFrame', `data:image/jpeg;base64,${data}`);
+    } catch (error) {
+      console.warn('Failed to send annotation frame:', error);
+    }
+  }
+
+  // Send the screen in place of the camera, e.g. for help with an
+  // inaccessible app. Tracks are swapped without renegotiating
+  async startScreenShare(): Promise<void> {
+    if (this.screenStream) return;
+
+    if (!this.mediaDevices.getDisplayMedia) {
+      throw new WebRTCServiceError('media_unavailable', 'Screen sharing is not supported on this device');
+    }
+
+    let screenStream: MediaStream;
+    try {
+      screenStream = await this.mediaDevices.getDisplayMedia();
+    } catch (error) {
+      throw new WebRTCServiceError(
+        'media_unavailable',
+        error instanceof Error ? error.message : 'Screen sharing could not be started'
+      );
+    }
 
-    switch (type) {
-      case 'user_joined':
-        console.log('User joined room:', data);
+    const screenTrack = screenStream.getVideoTracks()[0];
+    if (!screenTrack) {
+      screenStream.getTracks().forEach(track => track.stop());
+      throw new WebRTCServiceError('media_unavailable', 'Screen sharing could not be started');
+    }
+
+    // Sharing can also be stopped from the system's own controls
+    screenTrack.onended = () => {
+      this.stopScreenShare();
+    };
+
+    this.screenStream = screenStream;
+    await this.replaceOutgoingVideoTrack(screenTrack);
+    this.sendControl('screen_share', { active: true });
+    this.events.emit('screenShareChange', true);
+    console.log('Screen sharing started');
+  }
+
+  // Go back to sending the camera
+  async stopScreenShare(): Promise<void> {
+    const screenStream = this.screenStream;
+    if (!screenStream) return;
+    this.screenStream = null;
+
+    await this.replaceOutgoingVideoTrack(this.localStream?.getVideoTracks()[0] || null);
+    screenStream.getTracks().forEach(track => track.stop());
+    this.sendControl('screen_share', { active: false });
+    this.events.emit('screenShareChange', false);
+    console.log('Screen sharing stopped');
+  }
+
+  private async replaceOutgoingVideoTrack(track: MediaStreamTrack | null): Promise<void> {
+    for (const session of this.peers.values()) {
+      const sender = session.connection.getSenders()
+        .find(candidate => candidate.track?.kind === 'video');
+      if (!sender) continue;
+
+      try {
+        await sender.replaceTrack(track);
+      } catch (error) {
+        console.error('Failed to replace video track:', error);
+      }
+    }
+  }
+
+  // Upload what this device saw of the call; failures must not block ending
+  private async submitQualityReport(): Promise<void> {
+    if (!this.currentCallId || this.statsSamples.length === 0) return;
+
+    try {
+      const report = summarizeCallQuality(this.statsSamples, this.reconnectCount);
+      await this.api.submitCallQualityReport(this.currentCallId, {
+        ...report,
+        userType: this.currentUserType,
+      });
+    } catch (error) {
+      console.warn('Failed to submit call quality report:', error);
+    }
+  }
+
+  // Handle signaling messages. Anything that doesn't match the shared schema
+  // is rejected rather than half-handled
+  private async handleSignalingMessage(raw: WebRTCMessage): Promise<void> {
+    const result = validateServerMessage(raw);
+    if (result.valid === false) {
+      console.warn('Rejected signaling message:', result.error);
+      this.events.emit('error', new WebRTCServiceError('protocol_error', result.error));
+      return;
+    }
+
+    const message = result.message;
+
+    switch (message.type) {
+      case 'user_joined': {
+        console.log('User joined room:', message.data);
+        const isNew = !this.roomParticipants.has(message.data.userId);
+        this.updateRoomParticipants(message.data.participants);
+        if (isNew) {
+          this.handlePeerJoined(message.data.userId);
+        }
         break;
+      }
 
       case 'user_left':
-        console.log('User left room:', data);
+        // Left on purpose (e.g. an invited helper), so the call goes on without them
+        console.log('User left room:', message.data);
+        this.removeRoomParticipant(message.data.userId, message.data.participants);
+        if (this.peers.has(message.data.userId)) {
+          this.closePeerSession(message.data.userId);
+          this.events.emit('peerLeft', message.data.userId);
+        }
+        break;
+
+      case 'user_disconnected':
+        // Their media may outlive the socket; recovery decides if they are gone
+        console.log('User disconnected from room:', message.data);
+        this.removeRoomParticipant(message.data.userId, message.data.participants);
         break;
 
       case 'offer':
-        await this.handleOffer(data);
+        await this.handleOffer(message.data);
         break;
 
       case 'answer':
-        await this.handleAnswer(data);
+        await this.handleAnswer(message.data);
         break;
 
       case 'ice_candidate':
-        await this.handleIceCandidate(data);
+        await this.handleIceCandidate(message.data);
         break;
 
-      case 'room_joined':
-        console.log('Successfully joined room:', data);
+      case 'room_joined': {
+        console.log('Successfully joined room:', message.data);
+
+        // Servers that predate versioning speak version 1
+        const protocolVersion = message.data.protocolVersion ?? 1;
+        if (protocolVersion < MIN_PROTOCOL_VERSION) {
+          this.events.emit('error', new WebRTCServiceError(
+            'protocol_error',
+            `Server speaks signaling protocol v${protocolVersion}, this app needs v${MIN_PROTOCOL_VERSION}+`
+          ));
+          break;
+        }
+
+        const newcomers = message.data.participants.filter(participant =>
+          participant.userId !== this.currentUserId && !this.roomParticipants.has(participant.userId));
+        this.updateRoomParticipants(message.data.participants);
+        newcomers.forEach(participant => this.handlePeerJoined(participant.userId));
         break;
+      }
 
       case 'call_status':
-        this.onRoomStatusCallbacks.forEach(callback => callback(data.status));
+        this.events.emit('roomStatus', message.data.status);
         break;
 
-      case 'error':
-        console.error('Signaling error:', data.error);
-        this.onErrorCallbacks.forEach(callback => callback(new Error(data.error)));
+      case 'error': {
+        console.error('Signaling error:', message.data.error);
+        const code = message.data.code === SIGNALING_ERROR_CODES.UNSUPPORTED_PROTOCOL
+          ? 'protocol_error'
+          : message.data.code === SIGNALING_ERROR_CODES.ROOM_FULL
+            ? 'room_full'
+            : 'server_error';
+        this.events.emit('error', new WebRTCServiceError(code, message.data.error));
         break;
+      }
 
-      default:
-        console.log('Unknown message type:', type);
+      case 'connected':
+      case 'room_left':
+      case 'pong':
+        break;
     }
   }
 
-  // Handle WebRTC offer
-  private async handleOffer(data: any): Promise<void> {
-    try {
-      if (!this.localPeerConnection) return;
+  private updateRoomParticipants(participants: SignalingParticipant[]): void {
+    this.roomParticipants.clear();
+    participants.forEach(participant => {
+      if (participant.userId !== this.currentUserId) {
+        this.roomParticipants.set(participant.userId, participant.userType);
+      }
+    });
 
-      const { offer } = data;
+    // Sessions created from an offer may not have known who they were talking to
+    this.peers.forEach(session => {
+      session.userType = session.userType || this.roomParticipants.get(session.userId) || null;
+    });
+  }
 
-      // Set remote description
-      await this.localPeerConnection.setRemoteDescription(new RTCSessionDescription(offer));
+  private removeRoomParticipant(userId: string, participants?: SignalingParticipant[]): void {
+    if (participants) {
+      this.updateRoomParticipants(participants);
+    } else {
+      this.roomParticipants.delete(userId);
+    }
+  }
 
-      // Create answer
-      const answer = await this.localPeerConnection.createAnswer();
-      await this.localPeerConnection.setLocalDescription(answer);
+  // A participant is in the room, for the first time or back after a dropped
+  // socket. Whoever is already on the call offers to latecomers
+  private handlePeerJoined(userId: string): void {
+    if (!userId || userId === this.currentUserId) return;
 
-      // Send answer
-      this.sendSignalingMessage('answer', {
-        answer: this.localPeerConnection.localDescription,
+    const session = this.peers.get(userId);
+    if (session) {
+      // Offers lost while their socket was down are sent again
+      if (session.isRecovering && !session.polite) {
+        this.restartIce(session);
+      }
+    } else if (this.isInCall) {
+      this.connectToPeer(userId).catch(error => {
+        console.error('Failed to connect to new participant:', error);
       });
+    }
 
-      console.log('Answer sent');
-    } catch (error) {
-      console.error('Failed to handle offer:', error);
+    this.events.emit('peerJoined', userId);
+  }
+
+  private async connectToPeer(userId: string): Promise<void> {
+    const session = this.peers.get(userId) || this.createPeerSession(userId);
+    await this.sendOffer(session);
+  }
+
+  // Create and send an offer to a participant
+  private async sendOffer(session: PeerSession, options?: RTCOfferOptions): Promise<void> {
+    if (!this.roomParticipants.has(session.userId)) return;
+
+    const { connection } = session;
+    try {
+      session.makingOffer = true;
+      const offer = await connection.createOffer(options);
+      await connection.setLocalDescription(offer);
+
+      await this.sendSignalingMessage('offer', {
+        offer: connection.localDescription,
+        targetUserId: session.userId,
+      });
+    } finally {
+      session.makingOffer = false;
     }
   }
 
+  // Handle WebRTC offer; an offer from someone new means they joined the call
+  private async handleOffer(data: ServerMessageData['offer']): Promise<void> {
+    const { offer, fromUserId, fromUserType } = data;
+    if (fromUserType && !this.roomParticipants.has(fromUserId)) {
+      this.roomParticipants.set(fromUserId, fromUserType);
+    }
+
+    const session = this.peers.get(fromUserId) || this.createPeerSession(fromUserId);
+    this.isInCall = true;
+
+    await this.handleRemoteDescription(session, offer);
+  }
+
   // Handle WebRTC answer
-  private async handleAnswer(data: any): Promise<void> {
+  private async handleAnswer(data: ServerMessageData['answer']): Promise<void> {
+    const session = this.peers.get(data.fromUserId);
+    if (!session) return;
+
+    await this.handleRemoteDescription(session, data.answer);
+  }
+
+  private async handleRemoteDescription(
+    session: PeerSession,
+    description: RTCSessionDescriptionInit
+  ): Promise<void> {
+    const { connection } = session;
+
     try {
-      if (!this.localPeerConnection) return;
+      const readyForOffer = !session.makingOffer &&
+        (connection.signalingState === 'stable' || session.isSettingRemoteAnswerPending);
+      const offerCollision = description.type === 'offer' && !readyForOffer;
+
+      session.ignoreOffer = !session.polite && offerCollision;
+      if (session.ignoreOffer) {
+        console.log('Ignoring colliding offer (impolite peer)');
+        return;
+      }
+
+      if (offerCollision) {
+        await connection.setLocalDescription({ type: 'rollback' });
+      }
 
-      const { answer } = data;
+      session.isSettingRemoteAnswerPending = description.type === 'answer';
+      await connection.setRemoteDescription(description);
+      session.isSettingRemoteAnswerPending = false;
 
-      // Set remote description
-      await this.localPeerConnection.setRemoteDescription(new RTCSessionDescription(answer));
+      await this.flushPendingCandidates(session);
 
-      console.log('Answer received and set');
+      if (description.type === 'offer') {
+        const answer = await connection.createAnswer();
+        await connection.setLocalDescription(answer);
+
+        await this.sendSignalingMessage('answer', {
+          answer: connection.localDescription,
+          targetUserId: session.userId,
+        });
+
+        console.log('Answer sent');
+      } else {
+        console.log('Answer received and set');
+      }
     } catch (error) {
-      console.error('Failed to handle answer:', error);
+      session.isSettingRemoteAnswerPending = false;
+      console.error(`Failed to handle ${description.type}:`, error);
     }
   }
 
   // Handle ICE candidate
-  private async handleIceCandidate(data: any): Promise<void> {
-    try {
-      if (!this.localPeerConnection) return;
+  private async handleIceCandidate(data: ServerMessageData['ice_candidate']): Promise<void> {
+    const { candidate, fromUserId } = data;
+    const session = this.peers.get(fromUserId);
+
+    // Trickled candidates can overtake the offer/answer; hold them until
+    // there is a remote description to apply them to
+    if (!session || !session.connection.remoteDescription) {
+      const queue = this.pendingCandidates.get(fromUserId) || [];
+      queue.push(candidate);
+      this.pendingCandidates.set(fromUserId, queue);
+      return;
+    }
+
+    await this.addIceCandidate(session, candidate);
+  }
 
-      const { candidate } = data;
+  private async flushPendingCandidates(session: PeerSession): Promise<void> {
+    const queue = this.pendingCandidates.get(session.userId);
+    if (!queue) return;
 
-      // Add ICE candidate
-      await this.localPeerConnection.addIceCandidate(new RTCIceCandidate(candidate));
+    this.pendingCandidates.delete(session.userId);
+    for (const candidate of queue) {
+      await this.addIceCandidate(session, candidate);
+    }
+  }
 
-      console.log('ICE candidate added');
+  private async addIceCandidate(session: PeerSession, candidate: RTCIceCandidateInit): Promise<void> {
+    try {
+      await session.connection.addIceCandidate(candidate);
     } catch (error) {
-      console.error('Failed to handle ICE candidate:', error);
+      // Candidates for an offer we deliberately ignored are expected to fail
+      if (!session.ignoreOffer) {
+        console.error('Failed to add ICE candidate:', error);
+      }
     }
   }
 
   // Send signaling message
-  private async sendSignalingMessage(type: string, data: any): Promise<void> {
-    if (!this.socket || !this.isConnected) {
+  private async sendSignalingMessage<T extends ClientMessageType>(
+    type: T,
+    data: ClientMessageData[T]
+  ): Promise<void> {
+    if (!this.transport.isOpen) {
       throw new Error('Not connected to signaling server');
     }
 
-    const message: WebRTCMessage = {
-      type,
-      data,
-      timestamp: Date.now(),
-    };
-
-    this.socket.emit('message', message);
+    this.transport.send(createMessage(type, data));
   }
 
-  // Start call (for blind users)
+  // Start call (for blind users): offer to everyone in the room. Helpers who
+  // join later are offered to as they arrive
   async startCall(): Promise<void> {
     if (this.currentUserType !== 'blind') {
       throw new Error('Only blind users can start calls');
     }
 
-    if (!this.localPeerConnection) {
-      throw new Error('Peer connection not initialized');
+    if (this.roomParticipants.size === 0) {
+      throw new Error('No volunteer in the room yet');
     }
 
     try {
-      // Create offer
-      const offer = await this.localPeerConnection.createOffer();
-      await this.localPeerConnection.setLocalDescription(offer);
-
-      // Send offer
-      this.sendSignalingMessage('offer', {
-        offer: this.localPeerConnection.localDescription,
-      });
-
-      this.isInitiator = true;
+      this.isInCall = true;
+
+      for (const userId of this.roomParticipants.keys()) {
+        const session = this.peers.get(userId);
+        if (!session) {
+          await this.connectToPeer(userId);
+        } else if (session.isRecovering) {
+          // Fresh ICE credentials if the call is recovering
+          await this.sendOffer(session, { iceRestart: true });
+        }
+      }
 
-      console.log('Call started - offer sent');
+      console.log('Call started - offers sent');
     } catch (error) {
       console.error('Failed to start call:', error);
       throw error;
@@ -365,88 +1705,188 @@ class WebRTCService {
 
   // End call
   async endCall(reason: string = 'Call ended by user'): Promise<void> {
+    // Let the other participants know, but a socket that dropped mid-call
+    // mustn't stop the report and the backend from hearing the call ended
+    if (this.isConnected) {
+      try {
+        await this.sendSignalingMessage('call_status', {
+          status: 'ended',
+          reason,
+        });
+      } catch (error) {
+        console.warn('Failed to tell the room the call ended:', error);
+      }
+    }
+
     try {
-      // Send call end message
-      this.sendSignalingMessage('call_status', {
-        status: 'ended',
-        reason,
-      });
+      this.stopStatsSampling();
+      await this.submitQualityReport();
 
       // End API call
-      if (this.currentRoomId) {
-        await apiService.endCall(this.currentRoomId, reason);
+      if (this.currentCallId) {
+        await this.api.endCall(this.currentCallId, null, null, reason);
+      }
+    } catch (error) {
+      console.error('Failed to end call:', error);
+    }
+
+    // Free the volunteers matched to the call. After the call record, which
+    // only pays out for calls not already completed
+    if (this.currentRoomId) {
+      try {
+        await this.api.endMatchingCall(this.currentRoomId, reason);
+      } catch (error) {
+        console.warn('Failed to release the matched volunteers:', error);
+      }
+    }
+
+    // Clean up connections
+    this.cleanup();
+
+    console.log('Call ended');
+  }
+
+  // Leave a group call without ending it for everyone else (invited helpers
+  // and incoming transfer volunteers), freeing the place for another helper
+  async leaveCall(): Promise<void> {
+    if (this.currentRoomId) {
+      try {
+        await this.api.leaveMatchingCall(this.currentRoomId);
+      } catch (error) {
+        console.error('Failed to leave the call on the server:', error);
+      }
+    }
+
+    await this.leaveRoom();
+  }
+
+  private async leaveRoom(): Promise<void> {
+    try {
+      if (this.isConnected && this.currentRoomId) {
+        await this.sendSignalingMessage('leave_room', {});
       }
 
-      // Clean up connections
+      this.stopStatsSampling();
+      await this.submitQualityReport();
+
+      console.log('Left call');
+    } catch (error) {
+      console.error('Failed to leave call:', error);
+    } finally {
       this.cleanup();
+    }
+  }
 
-      console.log('Call ended');
+  // Warm transfer (outgoing volunteer): tell everyone who takes over and the
+  // record the call continues under, then leave without ending the call
+  async handOverCall(toUserId: string, callId: string | null = null): Promise<void> {
+    const sessions = Array.from(this.peers.values());
+
+    try {
+      // Wait until the others have heard, so the message isn't lost when the
+      // connections close
+      await Promise.all(sessions.map(session => session.channel.send(
+        'control',
+        { command: 'call_handover', params: { toUserId, callId } },
+        { requiresAck: true, ackTimeoutMs: 3000 }
+      )));
     } catch (error) {
-      console.error('Failed to end call:', error);
+      console.warn('Handover was not acknowledged by every participant:', error);
     }
+
+    // completeTransfer has already taken us off the call on the server
+    await this.leaveRoom();
   }
 
   // Clean up WebRTC resources
   cleanup(): void {
+    this.stopStatsSampling();
+    this.stopStills();
+
+    // Close peer connections
+    Array.from(this.peers.keys()).forEach(userId => this.closePeerSession(userId));
+
+    // Snapshots are ephemeral unless the blind user chose to keep them
+    snapshotStore.finishCall().catch(error => {
+      console.error('Failed to save kept snapshots:', error);
+    });
+
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach(track => track.stop());
+      this.screenStream = null;
+    }
+
     // Stop local stream
     if (this.localStream) {
       this.localStream.getTracks().forEach(track => track.stop());
       this.localStream = null;
     }
 
-    // Close peer connection
-    if (this.localPeerConnection) {
-      this.localPeerConnection.close();
-      this.localPeerConnection = null;
-    }
-
     // Disconnect WebSocket
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
-    }
+    this.transport.disconnect();
 
     // Clear state
-    this.remoteStream = null;
+    this.roomParticipants.clear();
     this.currentRoomId = null;
+    this.currentCallId = null;
     this.isConnected = false;
-    this.isInitiator = false;
-    this.iceCandidates = [];
+    this.isInCall = false;
+    this.pendingCandidates.clear();
+    this.statsSamples = [];
+    this.reconnectCount = 0;
+    this.bandwidthAdapter.reset();
+    this.cameraCapabilities = NO_CAMERA_CAPABILITIES;
+    this.cameraFacing = 'user';
+    this.remoteAudioVolume = 1;
 
     console.log('WebRTC cleanup completed');
   }
 
-  // Event listener methods
-  onConnected(callback: () => void): void {
-    this.onConnectedCallbacks.push(callback);
+  private emitParticipants(): void {
+    this.events.emit('participantsChange', this.participants);
   }
 
-  onDisconnected(callback: () => void): void {
-    this.onDisconnectedCallbacks.push(callback);
+  // Subscribe to a service event; call the returned function to unsubscribe
+  on<E extends keyof WebRTCServiceEvents>(event: E, listener: WebRTCServiceEvents[E]): Unsubscribe {
+    return this.events.on(event, listener);
   }
 
-  onRemoteStream(callback: (stream: MediaStream) => void): void {
-    this.onRemoteStreamCallbacks.push(callback);
+  once<E extends keyof WebRTCServiceEvents>(event: E, listener: WebRTCServiceEvents[E]): Unsubscribe {
+    return this.events.once(event, listener);
   }
 
-  onError(callback: (error: Error) => void): void {
-    this.onErrorCallbacks.push(callback);
+  // The blind user's session, from a volunteer's device
+  private get blindPeer(): PeerSession | null {
+    return Array.from(this.peers.values()).find(session => session.userType === 'blind') || null;
   }
 
-  onRoomStatus(callback: (status: string) => void): void {
-    this.onRoomStatusCallbacks.push(callback);
+  // Who the main view shows: the blind user for volunteers, otherwise
+  // whoever joined first
+  private get primaryPeer(): PeerSession | null {
+    return this.blindPeer || this.peers.values().next().value || null;
   }
 
-  // Remove event listeners
-  removeEventListeners(): void {
-    this.onConnectedCallbacks = [];
-    this.onDisconnectedCallbacks = [];
-    this.onRemoteStreamCallbacks = [];
-    this.onErrorCallbacks = [];
-    this.onRoomStatusCallbacks = [];
+  // Typed messaging with a participant (the main one by default); messages
+  // sent before the channel opens are queued
+  getDataChannel(userId?: string): CallDataChannel | null {
+    const session = userId ? this.peers.get(userId) : this.primaryPeer;
+    return session?.channel || null;
   }
 
   // Getters
+  get participants(): CallParticipant[] {
+    return Array.from(this.peers.values()).map(session => ({
+      userId: session.userId,
+      userType: session.userType,
+      stream: session.remoteStream,
+      isConnected: session.isConnected,
+    }));
+  }
+
+  get activeCameraFacing(): CameraFacing {
+    return this.cameraFacing;
+  }
+
   get isConnectedToServer(): boolean {
     return this.isConnected;
   }
@@ -455,14 +1895,34 @@ class WebRTCService {
     return this.localStream;
   }
 
+  get isScreenSharing(): boolean {
+    return this.screenStream !== null;
+  }
+
   get remoteVideoStream(): MediaStream | null {
-    return this.remoteStream;
+    return this.primaryPeer?.remoteStream || null;
   }
 
   get currentRoom(): string | null {
     return this.currentRoomId;
   }
 
+  get currentCall(): string | null {
+    return this.currentCallId;
+  }
+
+  get remotePeer(): string | null {
+    return this.primaryPeer?.userId || null;
+  }
+
+  get isReconnecting(): boolean {
+    return Array.from(this.peers.values()).some(session => session.isRecovering);
+  }
+
+  get mediaMode(): MediaQualityMode {
+    return this.bandwidthAdapter.currentMode;
+  }
+
   // Toggle audio
   toggleAudio(enabled: boolean): void {
     if (this.localStream) {
@@ -481,24 +1941,74 @@ class WebRTCService {
     }
   }
 
-  // Switch camera
-  async switchCamera(): Promise<void> {
-    if (!this.localStream) return;
+  // Route call audio to the loudspeaker or the earpiece
+  async setSpeakerphone(enabled: boolean): Promise<void> {
+    try {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+        playThroughEarpieceAndroid: !enabled,
+      });
+    } catch (error) {
+      console.error('Failed to switch audio output:', error);
+    }
+  }
+
+  // How loud the other participants are, from 0 to 1, e.g. lowered while the
+  // app speaks over the call. Applies to anyone who joins later too
+  setRemoteAudioVolume(volume: number): void {
+    this.remoteAudioVolume = volume;
+    this.peers.forEach(session => {
+      if (session.remoteStream) {
+        this.applyRemoteAudioVolume(session.remoteStream);
+      }
+    });
+  }
+
+  private applyRemoteAudioVolume(stream: MediaStream): void {
+    stream.getAudioTracks().forEach(track => {
+      // react-native-webrtc's own control for remote playback; not in the DOM types
+      (track as MediaStreamTrack & { _setVolume(volume: number): void })._setVolume(this.remoteAudioVolume);
+    });
+  }
+
+  // Switch between front and rear cameras; resolves with the facing now in use
+  async switchCamera(): Promise<CameraFacing> {
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    if (!videoTrack) return this.cameraFacing;
+
+    const facing: CameraFacing = this.cameraFacing === 'user' ? 'environment' : 'user';
 
     try {
-      const videoTrack = this.localStream.getVideoTracks()[0];
-      if (videoTrack && 'switchCamera' in videoTrack) {
-        // @ts-ignore
-        await videoTrack.switchCamera();
+      const deviceId = await findCameraDevice(this.mediaDevices, facing);
+      await videoTrack.applyConstraints({
+        facingMode: facing,
+        ...(deviceId ? { deviceId } : {}),
+      });
+
+      this.cameraFacing = getTrackFacing(videoTrack, facing);
+
+      // Torch and zoom support differ between lenses
+      this.cameraCapabilities = getCameraCapabilities(videoTrack);
+      if (this.currentUserType === 'blind') {
+        this.sendCameraCapabilities();
       }
     } catch (error) {
       console.error('Failed to switch camera:', error);
     }
+
+    return this.cameraFacing;
   }
 }
 
 // Export singleton instance
 export const webrtcService = new WebRTCService();
 
-// Export class for creating multiple instances if needed
-export { WebRTCService };
\ No newline at end of file
+// Export classes for creating multiple instances or choosing a transport,
+// e.g. new WebRTCService(new SocketIOSignalingTransport())
+export {
+  WebRTCService,
+  WebRTCServiceError,
+  WebSocketSignalingTransport,
+  SocketIOSignalingTransport,
+};
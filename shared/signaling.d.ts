@@ -0,0 +1,108 @@
+// Types for shared/signaling.js
+
+export declare const PROTOCOL_VERSION: number;
+export declare const MIN_PROTOCOL_VERSION: number;
+export declare const MAX_ROOM_PARTICIPANTS: number;
+
+export declare const SIGNALING_ERROR_CODES: {
+  INVALID_MESSAGE: 'invalid_message';
+  UNKNOWN_MESSAGE_TYPE: 'unknown_message_type';
+  UNSUPPORTED_PROTOCOL: 'unsupported_protocol';
+  REQUEST_FAILED: 'request_failed';
+  ROOM_FULL: 'room_full';
+};
+
+export type SignalingErrorCode = typeof SIGNALING_ERROR_CODES[keyof typeof SIGNALING_ERROR_CODES];
+
+export type SignalingUserType = 'blind' | 'volunteer';
+
+export interface SignalingParticipant {
+  userId: string;
+  userType: SignalingUserType;
+  joinedAt: number;
+  isReady: boolean;
+}
+
+export interface ClientMessageData {
+  join_room: {
+    roomId: string;
+    userId: string;
+    userType: SignalingUserType;
+    protocolVersion?: number;
+  };
+  leave_room: {};
+  offer: { offer: RTCSessionDescriptionInit; targetUserId: string };
+  answer: { answer: RTCSessionDescriptionInit; targetUserId: string };
+  ice_candidate: { candidate: RTCIceCandidateInit; targetUserId: string };
+  call_status: { status: string; reason?: string };
+  ping: {};
+}
+
+export interface ServerMessageData {
+  connected: {
+    connectionId: number;
+    serverTime: number;
+    protocolVersion?: number;
+    minProtocolVersion?: number;
+  };
+  room_joined: {
+    roomId: string;
+    roomStatus: string;
+    participants: SignalingParticipant[];
+    protocolVersion?: number;
+  };
+  room_left: { roomId: string };
+  user_joined: {
+    userId: string;
+    userType: SignalingUserType;
+    roomStatus: string;
+    participants: SignalingParticipant[];
+  };
+  user_left: { userId: string; remainingParticipants: number; participants?: SignalingParticipant[] };
+  user_disconnected: {
+    userId: string;
+    userType?: SignalingUserType;
+    reason?: string;
+    participants?: SignalingParticipant[];
+  };
+  offer: { offer: RTCSessionDescriptionInit; fromUserId: string; fromUserType?: SignalingUserType };
+  answer: { answer: RTCSessionDescriptionInit; fromUserId: string; fromUserType?: SignalingUserType };
+  ice_candidate: { candidate: RTCIceCandidateInit; fromUserId: string };
+  call_status: { status: string; reason?: string; updatedBy: string };
+  error: { error: string; code?: SignalingErrorCode; timestamp: number };
+  pong: { timestamp: number };
+}
+
+export type ClientMessageType = keyof ClientMessageData;
+export type ServerMessageType = keyof ServerMessageData;
+
+type MessageUnion<Data> = {
+  [T in keyof Data]: { type: T; data: Data[T]; timestamp?: number };
+}[keyof Data];
+
+export type ClientMessage = MessageUnion<ClientMessageData>;
+export type ServerMessage = MessageUnion<ServerMessageData>;
+
+export type FieldSpec = string;
+
+export declare const CLIENT_MESSAGES: Record<ClientMessageType, Record<string, FieldSpec>>;
+export declare const SERVER_MESSAGES: Record<ServerMessageType, Record<string, FieldSpec>>;
+
+export type ValidationResult<M> =
+  | { valid: true; message: M }
+  | { valid: false; code: SignalingErrorCode; error: string };
+
+export declare function validateMessage(
+  message: unknown,
+  schemas: Record<string, Record<string, FieldSpec>>
+): ValidationResult<{ type: string; data: any; timestamp?: number }>;
+
+export declare function validateClientMessage(message: unknown): ValidationResult<ClientMessage>;
+export declare function validateServerMessage(message: unknown): ValidationResult<ServerMessage>;
+
+export declare function negotiateProtocolVersion(peerVersion?: number | null): number | null;
+
+export declare function createMessage<T extends ClientMessageType>(
+  type: T,
+  data: ClientMessageData[T]
+): { type: T; data: ClientMessageData[T]; timestamp: number };
@@ -0,0 +1,173 @@
+// Signaling protocol shared by the app (services/webrtc.ts) and the server
+// (backend/src/services/webrtc.js). Every message is { type, data, timestamp }.
+// Bump PROTOCOL_VERSION for changes older peers can't understand, and raise
+// MIN_PROTOCOL_VERSION once a version is no longer supported.
+
+const PROTOCOL_VERSION = 1;
+const MIN_PROTOCOL_VERSION = 1;
+
+// Calls are a full mesh (one peer connection per pair), which phones can
+// carry for the blind user plus two helpers
+const MAX_ROOM_PARTICIPANTS = 3;
+
+const SIGNALING_ERROR_CODES = {
+  INVALID_MESSAGE: 'invalid_message',
+  UNKNOWN_MESSAGE_TYPE: 'unknown_message_type',
+  UNSUPPORTED_PROTOCOL: 'unsupported_protocol',
+  REQUEST_FAILED: 'request_failed',
+  ROOM_FULL: 'room_full',
+};
+
+// Field specs are a type name, with a trailing '?' for optional fields
+const CLIENT_MESSAGES = {
+  join_room: {
+    roomId: 'string',
+    userId: 'string',
+    userType: 'userType',
+    // Absent from clients that predate versioning, which speak version 1
+    protocolVersion: 'number?',
+  },
+  leave_room: {},
+  offer: { offer: 'sessionDescription', targetUserId: 'string' },
+  answer: { answer: 'sessionDescription', targetUserId: 'string' },
+  ice_candidate: { candidate: 'object', targetUserId: 'string' },
+  call_status: { status: 'string', reason: 'string?' },
+  ping: {},
+};
+
+const SERVER_MESSAGES = {
+  connected: {
+    connectionId: 'number',
+    serverTime: 'number',
+    protocolVersion: 'number?',
+    minProtocolVersion: 'number?',
+  },
+  room_joined: {
+    roomId: 'string',
+    roomStatus: 'string',
+    participants: 'array',
+    protocolVersion: 'number?',
+  },
+  room_left: { roomId: 'string' },
+  user_joined: {
+    userId: 'string',
+    userType: 'userType',
+    roomStatus: 'string',
+    participants: 'array',
+  },
+  user_left: { userId: 'string', remainingParticipants: 'number', participants: 'array?' },
+  user_disconnected: {
+    userId: 'string',
+    userType: 'userType?',
+    reason: 'string?',
+    participants: 'array?',
+  },
+  offer: { offer: 'sessionDescription', fromUserId: 'string', fromUserType: 'userType?' },
+  answer: { answer: 'sessionDescription', fromUserId: 'string', fromUserType: 'userType?' },
+  ice_candidate: { candidate: 'object', fromUserId: 'string' },
+  call_status: { status: 'string', reason: 'string?', updatedBy: 'string' },
+  error: { error: 'string', code: 'string?', timestamp: 'number' },
+  pong: { timestamp: 'number' },
+};
+
+const isObject = value => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const TYPE_CHECKS = {
+  string: value => typeof value === 'string' && value.length > 0,
+  number: value => typeof value === 'number' && Number.isFinite(value),
+  object: isObject,
+  array: Array.isArray,
+  userType: value => value === 'blind' || value === 'volunteer',
+  sessionDescription: value =>
+    isObject(value) &&
+    ['offer', 'answer', 'pranswer', 'rollback'].includes(value.type) &&
+    (value.type === 'rollback' || typeof value.sdp === 'string'),
+};
+
+// Check a parsed message against one of the schema sets above.
+// Returns { valid: true, message } or { valid: false, code, error }
+const validateMessage = (message, schemas) => {
+  if (!isObject(message) || typeof message.type !== 'string') {
+    return {
+      valid: false,
+      code: SIGNALING_ERROR_CODES.INVALID_MESSAGE,
+      error: 'Message must be an object with a type',
+    };
+  }
+
+  const schema = schemas[message.type];
+  if (!schema) {
+    return {
+      valid: false,
+      code: SIGNALING_ERROR_CODES.UNKNOWN_MESSAGE_TYPE,
+      error: `Unknown message type: ${message.type}`,
+    };
+  }
+
+  const data = message.data === undefined ? {} : message.data;
+  if (!isObject(data)) {
+    return {
+      valid: false,
+      code: SIGNALING_ERROR_CODES.INVALID_MESSAGE,
+      error: `${message.type}: data must be an object`,
+    };
+  }
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const typeName = optional ? spec.slice(0, -1) : spec;
+    const value = data[field];
+
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      return {
+        valid: false,
+        code: SIGNALING_ERROR_CODES.INVALID_MESSAGE,
+        error: `${message.type}: missing ${field}`,
+      };
+    }
+
+    if (!TYPE_CHECKS[typeName](value)) {
+      return {
+        valid: false,
+        code: SIGNALING_ERROR_CODES.INVALID_MESSAGE,
+        error: `${message.type}: ${field} must be a valid ${typeName}`,
+      };
+    }
+  }
+
+  return { valid: true, message: { ...message, data } };
+};
+
+const validateClientMessage = message => validateMessage(message, CLIENT_MESSAGES);
+const validateServerMessage = message => validateMessage(message, SERVER_MESSAGES);
+
+// The version both sides will speak, or null if the peer is too old or too new
+// to talk to at all
+const negotiateProtocolVersion = peerVersion => {
+  const requested = peerVersion === undefined || peerVersion === null ? 1 : peerVersion;
+  if (!Number.isInteger(requested) || requested < MIN_PROTOCOL_VERSION) {
+    return null;
+  }
+  return Math.min(requested, PROTOCOL_VERSION);
+};
+
+const createMessage = (type, data = {}) => ({
+  type,
+  data,
+  timestamp: Date.now(),
+});
+
+module.exports = {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  MAX_ROOM_PARTICIPANTS,
+  SIGNALING_ERROR_CODES,
+  CLIENT_MESSAGES,
+  SERVER_MESSAGES,
+  validateMessage,
+  validateClientMessage,
+  validateServerMessage,
+  negotiateProtocolVersion,
+  createMessage,
+};